@@ -110,3 +110,29 @@ CREATE INDEX IF NOT EXISTS "portVideo_bvid"
 
 CREATE INDEX IF NOT EXISTS "portVideo_ytbid"
     ON "portVideo" USING btree ("ytbID" ASC, "hidden" ASC, "votes" ASC);
+
+CREATE INDEX IF NOT EXISTS "portVideo_hashedYtbID"
+    ON "portVideo" USING btree ("hashedYtbID" text_pattern_ops ASC, "hidden" ASC, "votes" ASC);
+
+-- portVideoConflict
+
+CREATE INDEX IF NOT EXISTS "portVideoConflict_bvID"
+    ON "portVideoConflict" USING btree ("bvID" ASC, "cid" ASC, "timeSubmitted" DESC);
+
+-- portVideoHistory
+
+CREATE INDEX IF NOT EXISTS "portVideoHistory_bvID"
+    ON "portVideoHistory" USING btree ("bvID" ASC, "timeSubmitted" ASC);
+
+-- moderationQueue
+
+CREATE INDEX IF NOT EXISTS "moderationQueue_status"
+    ON "moderationQueue" USING btree ("status" ASC, "timeSubmitted" ASC);
+
+-- seasons
+
+CREATE INDEX IF NOT EXISTS "videoInfo_seasonID"
+    ON "videoInfo" USING btree ("seasonID" ASC);
+
+CREATE INDEX IF NOT EXISTS "segmentTemplates_seasonID"
+    ON "segmentTemplates" USING btree ("seasonID" ASC, "hidden" ASC);
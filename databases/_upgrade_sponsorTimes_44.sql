@@ -0,0 +1,8 @@
+BEGIN TRANSACTION;
+
+ALTER TABLE "portVideo" ADD "timeOffset" REAL NOT NULL DEFAULT 0;
+ALTER TABLE "portVideo" ADD "trimEnd" REAL NOT NULL DEFAULT 0;
+
+UPDATE "config" SET value = 44 WHERE key = 'version';
+
+COMMIT;
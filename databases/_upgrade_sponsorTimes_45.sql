@@ -0,0 +1,9 @@
+BEGIN TRANSACTION;
+
+ALTER TABLE "portVideo" ADD "lastSyncTime" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "portVideo" ADD "syncFailCount" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "portVideo" ADD "lastSyncError" TEXT;
+
+UPDATE "config" SET value = 45 WHERE key = 'version';
+
+COMMIT;
@@ -0,0 +1,8 @@
+BEGIN TRANSACTION;
+
+ALTER TABLE "portVideo" ADD "hashedYtbID" TEXT NOT NULL DEFAULT '';
+UPDATE "portVideo" SET "hashedYtbID" = sha256("ytbID");
+
+UPDATE "config" SET value = 46 WHERE key = 'version';
+
+COMMIT;
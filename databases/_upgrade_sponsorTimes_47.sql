@@ -0,0 +1,16 @@
+BEGIN TRANSACTION;
+
+CREATE TABLE IF NOT EXISTS "portVideoConflict" (
+	"bvID" TEXT NOT NULL,
+	"cid" TEXT NOT NULL DEFAULT '',
+	"winnerUUID" TEXT NOT NULL,
+	"loserUUID" TEXT NOT NULL,
+	"reason" TEXT NOT NULL,
+	"source" TEXT NOT NULL,
+	"userID" TEXT,
+	"timeSubmitted" INTEGER NOT NULL
+);
+
+UPDATE "config" SET value = 47 WHERE key = 'version';
+
+COMMIT;
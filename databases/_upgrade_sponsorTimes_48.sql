@@ -0,0 +1,8 @@
+BEGIN TRANSACTION;
+
+ALTER TABLE "portVideo" ADD "includedCategories" TEXT NOT NULL DEFAULT '[]';
+ALTER TABLE "portVideo" ADD "excludedCategories" TEXT NOT NULL DEFAULT '[]';
+
+UPDATE "config" SET value = 48 WHERE key = 'version';
+
+COMMIT;
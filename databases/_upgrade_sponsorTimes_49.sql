@@ -0,0 +1,16 @@
+BEGIN TRANSACTION;
+
+CREATE TABLE IF NOT EXISTS "portVideoHistory" (
+	"bvID" TEXT NOT NULL,
+	"cid" TEXT NOT NULL DEFAULT '',
+	"UUID" TEXT NOT NULL,
+	"action" TEXT NOT NULL,
+	"reason" TEXT NOT NULL,
+	"affectedSegments" TEXT NOT NULL DEFAULT '[]',
+	"userID" TEXT,
+	"timeSubmitted" INTEGER NOT NULL
+);
+
+UPDATE "config" SET value = 49 WHERE key = 'version';
+
+COMMIT;
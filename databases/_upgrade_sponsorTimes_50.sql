@@ -0,0 +1,24 @@
+BEGIN TRANSACTION;
+
+CREATE TABLE IF NOT EXISTS "segmentRevisions" (
+	"UUID" TEXT NOT NULL,
+	"revision" INTEGER NOT NULL,
+	"userID" TEXT NOT NULL,
+	"isVIP" INTEGER NOT NULL DEFAULT 0,
+	"oldStartTime" REAL NOT NULL,
+	"oldEndTime" REAL NOT NULL,
+	"oldCategory" TEXT NOT NULL,
+	"oldDescription" TEXT NOT NULL DEFAULT '',
+	"oldVotes" INTEGER NOT NULL,
+	"startTime" REAL NOT NULL,
+	"endTime" REAL NOT NULL,
+	"category" TEXT NOT NULL,
+	"description" TEXT NOT NULL DEFAULT '',
+	"votes" INTEGER NOT NULL,
+	"timeSubmitted" INTEGER NOT NULL,
+	PRIMARY KEY("UUID", "revision")
+);
+
+UPDATE "config" SET value = 50 WHERE key = 'version';
+
+COMMIT;
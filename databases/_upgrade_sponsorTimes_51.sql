@@ -0,0 +1,18 @@
+BEGIN TRANSACTION;
+
+CREATE TABLE IF NOT EXISTS "moderationQueue" (
+	"UUID" TEXT PRIMARY KEY NOT NULL,
+	"videoID" TEXT NOT NULL,
+	"cid" TEXT NOT NULL DEFAULT '',
+	"userID" TEXT NOT NULL,
+	"reason" TEXT NOT NULL,
+	"status" TEXT NOT NULL DEFAULT 'pending',
+	"moderatorUserID" TEXT,
+	"note" TEXT NOT NULL DEFAULT '',
+	"timeSubmitted" INTEGER NOT NULL,
+	"timeModerated" INTEGER
+);
+
+UPDATE "config" SET value = 51 WHERE key = 'version';
+
+COMMIT;
@@ -0,0 +1,33 @@
+BEGIN TRANSACTION;
+
+ALTER TABLE "videoInfo" ADD "seasonID" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "sponsorTimes" ADD "templateUUID" TEXT;
+ALTER TABLE "archivedSponsorTimes" ADD "templateUUID" TEXT;
+
+CREATE TABLE IF NOT EXISTS "seasonLockCategories" (
+	"seasonID" TEXT NOT NULL,
+	"userID" TEXT NOT NULL,
+	"actionType" TEXT NOT NULL DEFAULT 'skip',
+	"category" TEXT NOT NULL,
+	"reason" TEXT NOT NULL DEFAULT '',
+	"timeSubmitted" INTEGER NOT NULL,
+	PRIMARY KEY ("seasonID", "actionType", "category")
+);
+
+CREATE TABLE IF NOT EXISTS "segmentTemplates" (
+	"UUID" TEXT PRIMARY KEY NOT NULL,
+	"seasonID" TEXT NOT NULL,
+	"videoID" TEXT NOT NULL,
+	"startTime" REAL NOT NULL,
+	"endTime" REAL NOT NULL,
+	"category" TEXT NOT NULL,
+	"actionType" TEXT NOT NULL DEFAULT 'skip',
+	"description" TEXT NOT NULL DEFAULT '',
+	"userID" TEXT NOT NULL,
+	"hidden" INTEGER NOT NULL DEFAULT 0,
+	"timeSubmitted" INTEGER NOT NULL
+);
+
+UPDATE "config" SET value = 52 WHERE key = 'version';
+
+COMMIT;
@@ -0,0 +1,17 @@
+BEGIN TRANSACTION;
+
+CREATE TABLE IF NOT EXISTS "portVideoImportJobs" (
+	"id" TEXT PRIMARY KEY NOT NULL,
+	"userID" TEXT NOT NULL,
+	"running" INTEGER NOT NULL DEFAULT 1,
+	"startTime" INTEGER NOT NULL,
+	"endTime" INTEGER NOT NULL DEFAULT 0,
+	"updateTime" INTEGER NOT NULL,
+	"total" INTEGER NOT NULL,
+	"processed" INTEGER NOT NULL DEFAULT 0,
+	"rows" TEXT NOT NULL DEFAULT '[]'
+);
+
+UPDATE "config" SET value = 53 WHERE key = 'version';
+
+COMMIT;
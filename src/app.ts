@@ -8,22 +8,41 @@ import { cacheMiddlware } from "./middleware/etag";
 import { hostHeader } from "./middleware/hostHeader";
 import { loggerMiddleware } from "./middleware/logger";
 import { rateLimitMiddleware } from "./middleware/requestRateLimit";
+import { getSubmissionUserID, submissionRateLimitMiddleware } from "./middleware/submissionRateLimit";
 import { userCounter } from "./middleware/userCounter";
+import { videoIDMiddleware } from "./middleware/videoID";
 import { addUserAsTempVIP } from "./routes/addUserAsTempVIP";
 import { addUserAsVIP } from "./routes/addUserAsVIP";
 import { deleteLockCategoriesEndpoint } from "./routes/deleteLockCategories";
+import { deleteSeasonLockCategories } from "./routes/deleteSeasonLockCategories";
+import { deleteSegmentTemplate } from "./routes/deleteSegmentTemplate";
 import { addFeature, getFeatureFlag } from "./routes/feature";
+import { getChapterNames } from "./routes/getChapterNames";
 import { getDaysSavedFormatted } from "./routes/getDaysSavedFormatted";
 import { getIsUserVIP } from "./routes/getIsUserVIP";
 import { getLockCategories } from "./routes/getLockCategories";
 import { getLockCategoriesByHash } from "./routes/getLockCategoriesByHash";
 import { getLockReason } from "./routes/getLockReason";
-import { getPortVideo, getPortVideoByHash, updatePortedSegments } from "./routes/getPortVideo";
+import { getModerationQueue } from "./routes/getModerationQueue";
+import {
+    getPortVideo,
+    getPortVideoByHash,
+    getPortVideoByYtbHash,
+    getPortVideoByYtbID,
+    updatePortedSegments,
+} from "./routes/getPortVideo";
+import { getPortVideoConflicts } from "./routes/getPortVideoConflicts";
+import { getPortVideoHistory } from "./routes/getPortVideoHistory";
+import { getPortVideoImport } from "./routes/getPortVideoImport";
+import { getPortVideoSyncStatus } from "./routes/getPortVideoSyncStatus";
 import { getReady } from "./routes/getReady";
 import { getSavedTimeForUser } from "./routes/getSavedTimeForUser";
+import { getSeasonLockCategories } from "./routes/getSeasonLockCategories";
 import { endpoint as getSearchSegments } from "./routes/getSearchSegments";
 import { endpoint as getSegmentInfo } from "./routes/getSegmentInfo";
-import { getSkipSegments, getSkipSegmentsByHash } from "./routes/getSkipSegments";
+import { getSegmentTemplates } from "./routes/getSegmentTemplates";
+import { getSkipSegments, getSkipSegmentsBatch, getSkipSegmentsByHash } from "./routes/getSkipSegments";
+import { getSkipSegmentsExport } from "./routes/getSkipSegmentsExport";
 import { getStatus } from "./routes/getStatus";
 import { getTopCategoryUsers } from "./routes/getTopCategoryUsers";
 import { getTopUsers } from "./routes/getTopUsers";
@@ -37,10 +56,17 @@ import { getVideoLabelsByHash } from "./routes/getVideoLabelByHash";
 import { getViewsForUser } from "./routes/getViewsForUser";
 import { postClearCache } from "./routes/postClearCache";
 import { postLockCategories } from "./routes/postLockCategories";
+import { approveModerationQueue, rejectModerationQueue } from "./routes/postModerationQueue";
 import { postPortVideo } from "./routes/postPortVideo";
+import { postPortVideoCategories } from "./routes/postPortVideoCategories";
+import { postPortVideoImport } from "./routes/postPortVideoImport";
+import { postPortVideoOverride } from "./routes/postPortVideoOverride";
 import { postPurgeAllSegments } from "./routes/postPurgeAllSegments";
+import { postSeasonLockCategories } from "./routes/postSeasonLockCategories";
+import { postSegmentEdit } from "./routes/postSegmentEdit";
 import { postSegmentShift } from "./routes/postSegmentShift";
-import { postSkipSegments } from "./routes/postSkipSegments";
+import { postSegmentTemplate } from "./routes/postSegmentTemplate";
+import { postSkipSegments, validateSkipSegments } from "./routes/postSkipSegments";
 import { postWarning } from "./routes/postWarning";
 import { setUsername } from "./routes/setUsername";
 import { shadowBanUser } from "./routes/shadowBanUser";
@@ -61,8 +87,9 @@ export function createServer(callback: () => void): Server {
     router.use(loggerMiddleware);
     router.use("/api/", apiCspMiddleware);
     router.use(hostHeader);
-    router.use(cacheMiddlware);
     router.use(express.json());
+    router.use(videoIDMiddleware);
+    router.use(cacheMiddlware);
 
     if (config.userCounterURL) router.use(userCounter);
 
@@ -88,10 +115,27 @@ function setupRoutes(router: Router, server: Server) {
         if (config.rateLimit.vote) voteEndpoints.unshift(rateLimitMiddleware(config.rateLimit.vote, voteGetUserID));
         if (config.rateLimit.view) viewEndpoints.unshift(rateLimitMiddleware(config.rateLimit.view));
     }
+    const skipSegmentsEndpoints: RequestHandler[] = [postSkipSegments];
+    const portVideoEndpoints: RequestHandler[] = [postPortVideo];
+    const votePortEndpoints: RequestHandler[] = [voteOnPortVideo];
+    const { skipSegments: skipSegmentsLimit, portVideo: portVideoLimit, votePort: votePortLimit } = config.submissionRateLimit ?? {};
+    if (skipSegmentsLimit) {
+        skipSegmentsEndpoints.unshift(submissionRateLimitMiddleware("skipSegments", skipSegmentsLimit, getSubmissionUserID));
+    }
+    if (portVideoLimit) {
+        portVideoEndpoints.unshift(submissionRateLimitMiddleware("portVideo", portVideoLimit, getSubmissionUserID));
+    }
+    if (votePortLimit) {
+        votePortEndpoints.unshift(submissionRateLimitMiddleware("votePort", votePortLimit, getSubmissionUserID));
+    }
 
     //add the skip segments functions
     router.get("/api/skipSegments", getSkipSegments);
-    router.post("/api/skipSegments", postSkipSegments);
+    router.post("/api/skipSegments", ...skipSegmentsEndpoints);
+    router.post("/api/skipSegments/batch", getSkipSegmentsBatch);
+    //check a submission without saving it
+    router.post("/api/skipSegments/validate", validateSkipSegments);
+    router.get("/api/skipSegments/export", getSkipSegmentsExport);
 
     // add the privacy protecting skip segments functions
     router.get("/api/skipSegments/:prefix", getSkipSegmentsByHash);
@@ -99,6 +143,9 @@ function setupRoutes(router: Router, server: Server) {
     // get all segments that match a search
     router.get("/api/searchSegments", getSearchSegments);
 
+    // autocomplete chapter names used on the same channel
+    router.get("/api/chapterNames", getChapterNames);
+
     //voting endpoint
     router.get("/api/voteOnSponsorTime", ...voteEndpoints);
     router.post("/api/voteOnSponsorTime", ...voteEndpoints);
@@ -141,6 +188,14 @@ function setupRoutes(router: Router, server: Server) {
     router.delete("/api/noSegments", deleteLockCategoriesEndpoint);
     router.delete("/api/lockCategories", deleteLockCategoriesEndpoint);
 
+    // lock categories and segment templates of a whole season
+    router.get("/api/seasonLockCategories", getSeasonLockCategories);
+    router.post("/api/seasonLockCategories", postSeasonLockCategories);
+    router.delete("/api/seasonLockCategories", deleteSeasonLockCategories);
+    router.get("/api/segmentTemplates", getSegmentTemplates);
+    router.post("/api/segmentTemplates", postSegmentTemplate);
+    router.delete("/api/segmentTemplates", deleteSegmentTemplate);
+
     //Endpoint used to hide a certain user's data
     router.post("/api/shadowBanUser", shadowBanUser);
     //sent user a warning
@@ -156,6 +211,14 @@ function setupRoutes(router: Router, server: Server) {
     //get segment info
     router.get("/api/segmentInfo", getSegmentInfo);
 
+    //edit a segment as its submitter or a VIP
+    router.post("/api/segmentEdit", postSegmentEdit);
+
+    //review the moderation queue as VIP
+    router.get("/api/moderationQueue", getModerationQueue);
+    router.post("/api/moderationQueue/approve", approveModerationQueue);
+    router.post("/api/moderationQueue/reject", rejectModerationQueue);
+
     //clear cache as VIP
     router.post("/api/clearCache", postClearCache);
     router.post("/api/purgeAllSegments", postPurgeAllSegments);
@@ -170,8 +233,17 @@ function setupRoutes(router: Router, server: Server) {
 
     // port videos
     router.get("/api/portVideo", getPortVideo);
+    router.get("/api/portVideo/syncStatus", getPortVideoSyncStatus);
+    router.get("/api/portVideo/conflicts", getPortVideoConflicts);
+    router.get("/api/portVideo/history", getPortVideoHistory);
+    router.get("/api/portVideo/import/:jobID", getPortVideoImport);
     router.get("/api/portVideo/:prefix", getPortVideoByHash);
-    router.post("/api/portVideo", postPortVideo);
-    router.post("/api/votePort", voteOnPortVideo);
+    router.get("/api/portVideo/youtube/:ytbID", getPortVideoByYtbID);
+    router.get("/api/portVideo/youtubeHash/:prefix", getPortVideoByYtbHash);
+    router.post("/api/portVideo", ...portVideoEndpoints);
+    router.post("/api/portVideo/override", postPortVideoOverride);
+    router.post("/api/portVideo/import", postPortVideoImport);
+    router.post("/api/portVideo/categories", postPortVideoCategories);
+    router.post("/api/votePort", ...votePortEndpoints);
     router.post("/api/updatePortedSegments", updatePortedSegments);
 }
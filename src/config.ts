@@ -129,6 +129,47 @@ addDefaults(config, {
     },
     diskCacheURL: null,
     crons: null,
+    danmakuColors: {
+        sponsor: "#00d400",
+        selfpromo: "#ffff00",
+        exclusive_access: "#008a5c",
+        interaction: "#cc00ff",
+        intro: "#00ffff",
+        outro: "#0202ed",
+        preview: "#008fd6",
+        filler: "#7300ff",
+        music_offtopic: "#ff9900",
+        poi_highlight: "#ff1684",
+        chapter: "#ffffff",
+    },
+    autoModerationRules: [
+        {
+            name: "coverage",
+            type: "coverage",
+            action: "reject",
+            message: "Total length of your submitted segments are over 80% of the video.",
+            maxPercent: 80,
+        },
+    ],
+    moderationQueue: {
+        enabled: false,
+        minReputation: 0,
+        minSubmissions: 0,
+        categories: [],
+        maxVideoPercent: 0,
+    },
+    segmentEditVotePolicy: {
+        minorEditSeconds: 1,
+        minorEditVoteFactor: 0.5,
+    },
+    upstreamProviders: [
+        {
+            type: "sponsorBlock",
+            baseURL: "https://sponsor.ajay.app",
+            timeout: 10000,
+            useHashPrefix: true,
+        },
+    ],
     redis: {
         enabled: false,
         socket: {
@@ -158,6 +199,7 @@ addDefaults(config, {
         weight: 1
     },
     redisRateLimit: true,
+    submissionRateLimit: {},
     patreon: {
         clientId: "",
         clientSecret: "",
@@ -179,9 +221,13 @@ migrate(config);
 
 // Add defaults
 function addDefaults(config: SBSConfig, defaults: SBSConfig) {
+    // settings that may be given in part, their missing fields are taken from the defaults
+    const partialSettings = ["moderationQueue", "segmentEditVotePolicy"];
     for (const key in defaults) {
         if (!Object.prototype.hasOwnProperty.call(config, key)) {
             config[key] = defaults[key];
+        } else if (partialSettings.includes(key)) {
+            config[key] = { ...defaults[key], ...config[key] };
         }
     }
 }
@@ -0,0 +1,45 @@
+import { CronJob } from "cron";
+import { config } from "../config";
+import { getTemplatedSeasons } from "../dao/season";
+import { applySegmentTemplates, getSeasonByVideoID } from "../service/seasonService";
+import { Logger } from "../utils/logger";
+
+export const applySegmentTemplatesJob = new CronJob(
+    config?.crons?.applySegmentTemplates?.schedule || "0 */6 * * *",
+    () => void applyAllSegmentTemplates()
+);
+
+let isRunning = false;
+
+/**
+ * apply segment templates to the episodes uploaded since the seasons were last checked
+ */
+export async function applyAllSegmentTemplates(): Promise<void> {
+    if (isRunning) {
+        Logger.info("applySegmentTemplates already running, skipping");
+        return;
+    }
+
+    isRunning = true;
+    try {
+        const seasons = await getTemplatedSeasons();
+        Logger.info(`Applying segment templates of ${seasons.length} seasons`);
+
+        for (const { seasonID, videoID } of seasons) {
+            try {
+                const season = await getSeasonByVideoID(videoID, true);
+                if (season?.id !== seasonID) {
+                    Logger.warn(`Video ${videoID} is no longer in season ${seasonID}, skipping its templates`);
+                    continue;
+                }
+                await applySegmentTemplates(season);
+            } catch (e) {
+                Logger.error(`Failed to apply segment templates of season ${seasonID}: ${e}`);
+            }
+        }
+    } catch (e) {
+        Logger.error(`applySegmentTemplates failed: ${e}`);
+    } finally {
+        isRunning = false;
+    }
+}
@@ -1,8 +1,11 @@
 import { config } from "../config";
 import { Logger } from "../utils/logger";
+import { applySegmentTemplatesJob } from "./applySegmentTemplates";
 import { dumpDatabase, dumpDatabaseJob } from "./dumpDatabase";
 import { refreshCidJob } from "./refreshCid";
 import refreshTopUserViewJob from "./refreshTopUserView";
+import { resolvePortVideoConflictsJob } from "./resolvePortVideoConflicts";
+import { syncPortedSegmentsJob } from "./syncPortedSegments";
 
 export function startAllCrons(): void {
     void dumpDatabase();
@@ -15,6 +18,9 @@ export function startAllCrons(): void {
             // only run in production mode
             dumpDatabaseJob.start();
             refreshCidJob.start();
+            syncPortedSegmentsJob.start();
+            resolvePortVideoConflictsJob.start();
+            applySegmentTemplatesJob.start();
         }
     } else {
         Logger.info("Crons dissabled");
@@ -1,8 +1,9 @@
 import { CronJob } from "cron";
+import { hidePortVideoByUUID } from "../dao/portVideo";
 import { saveVideoInfo } from "../dao/videoInfo";
 import { db } from "../databases/databases";
-import { getVideoDetails, VideoDetail } from "../service/api/getVideoDetails";
-import { PortVideoDB } from "../types/portVideo.model";
+import { getVideoDetails, getVideoDetailsByService, VideoDetail } from "../service/api/getVideoDetails";
+import { PortHistoryReason, PortVideoDB } from "../types/portVideo.model";
 import { DBSegment, HiddenType, SegmentUUID } from "../types/segments.model";
 import { durationEquals } from "../utils/durationUtil";
 import { Logger } from "../utils/logger";
@@ -44,10 +45,7 @@ async function refreshCid() {
             if (durationEquals(biliVideoDetail.page[0].duration, portVideo.biliDuration)) {
                 await db.prepare("run", `UPDATE "portVideo" SET "cid" = ? WHERE "UUID" = ?`, [biliVideoDetail.page[0].cid, portVideo.UUID]);
             } else {
-                await db.prepare("run", `UPDATE "portVideo" SET "hidden" = ? WHERE "UUID" = ?`, [
-                    HiddenType.MismatchHidden,
-                    portVideo.UUID,
-                ]);
+                await hidePortVideoByUUID(portVideo, PortHistoryReason.Outdated);
             }
         } else {
             // try to find a matching cid
@@ -85,7 +83,7 @@ async function refreshCid() {
     for (const [videoID, segments] of videoSegmentMap) {
         let biliVideoDetail: VideoDetail;
         try {
-            biliVideoDetail = await getVideoDetails(videoID);
+            biliVideoDetail = await getVideoDetailsByService(videoID, segments[0].service);
             if (biliVideoDetail === null || biliVideoDetail === undefined) {
                 Logger.error(`Failed to get video detail for ${videoID}`);
                 continue;
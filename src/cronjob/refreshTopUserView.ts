@@ -66,7 +66,7 @@ FROM (
         FROM "sponsorTimes"
             LEFT JOIN "userNames" ON ("sponsorTimes"."userID" = "userNames"."userID")
             LEFT JOIN "shadowBannedUsers" ON ("sponsorTimes"."userID" = "shadowBannedUsers"."userID")
-        WHERE "sponsorTimes".votes > -2 AND "sponsorTimes"."shadowHidden" <> 1 AND "shadowBannedUsers"."userID" IS NULL
+        WHERE "sponsorTimes".votes > -2 AND "sponsorTimes"."shadowHidden" = 0 AND "shadowBannedUsers"."userID" IS NULL
         GROUP BY COALESCE("userNames"."userName", "sponsorTimes"."userID")
     ) sponsor
     ON ((port."userName" = sponsor."userName"))
@@ -0,0 +1,37 @@
+import { CronJob } from "cron";
+import { config } from "../config";
+import { getConflictingPortVideoParts } from "../dao/portVideo";
+import { resolvePortVideoConflictByCid } from "../service/portConflictService";
+import { PortConflictSource } from "../types/portVideo.model";
+import { Logger } from "../utils/logger";
+
+export const resolvePortVideoConflictsJob = new CronJob(
+    config?.crons?.resolvePortVideoConflicts?.schedule || "30 4 * * *",
+    () => void resolvePortVideoConflicts()
+);
+
+let isRunning = false;
+
+/**
+ * repair existing data where a part of a video has more than one active port video record
+ */
+export async function resolvePortVideoConflicts(): Promise<void> {
+    if (isRunning) {
+        Logger.info("resolvePortVideoConflicts already running, skipping");
+        return;
+    }
+
+    isRunning = true;
+    try {
+        const conflictingParts = await getConflictingPortVideoParts();
+        Logger.info(`Found ${conflictingParts.length} video parts with multiple port video matches`);
+
+        for (const part of conflictingParts) {
+            await resolvePortVideoConflictByCid(part.bvID, part.cid, PortConflictSource.Repair);
+        }
+    } catch (e) {
+        Logger.error(`resolvePortVideoConflicts failed: ${e}`);
+    } finally {
+        isRunning = false;
+    }
+}
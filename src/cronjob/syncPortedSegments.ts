@@ -0,0 +1,73 @@
+import { CronJob } from "cron";
+import { config } from "../config";
+import { getPortVideoToSync } from "../dao/portVideo";
+import { updateSegmentsFromSB } from "../routes/getPortVideo";
+import { acquireLock } from "../service/redis/redisLock";
+import { PortSyncJobStatus, PortSyncResult } from "../types/portVideo.model";
+import { Logger } from "../utils/logger";
+
+const HOUR_IN_MS = 1000 * 60 * 60;
+
+const jobConfig = config?.crons?.syncPortedSegments;
+const maxVideosPerRun = jobConfig?.maxVideosPerRun ?? 200;
+const requestIntervalMs = jobConfig?.requestIntervalMs ?? 5000;
+const minSyncIntervalHours = jobConfig?.minSyncIntervalHours ?? 24;
+
+export const syncPortedSegmentsJob = new CronJob(jobConfig?.schedule || "0 3 * * *", () => void syncPortedSegments());
+
+const jobStatus: PortSyncJobStatus = {
+    running: false,
+    startTime: 0,
+    endTime: 0,
+    total: 0,
+    processed: 0,
+    failed: 0,
+};
+
+export function getSyncJobStatus(): PortSyncJobStatus {
+    return { ...jobStatus };
+}
+
+export async function syncPortedSegments(): Promise<void> {
+    if (jobStatus.running) {
+        Logger.info("syncPortedSegments already running, skipping");
+        return;
+    }
+
+    const now = Date.now();
+    jobStatus.running = true;
+    jobStatus.startTime = now;
+    jobStatus.endTime = 0;
+    jobStatus.processed = 0;
+    jobStatus.failed = 0;
+
+    try {
+        const portVideos = await getPortVideoToSync(now - minSyncIntervalHours * HOUR_IN_MS, now, maxVideosPerRun);
+        jobStatus.total = portVideos.length;
+        Logger.info(`Syncing ported segments of ${portVideos.length} port videos`);
+
+        for (const portVideo of portVideos) {
+            // share the lock with manual updates, so that the same video is not synced twice within an hour
+            const lock = await acquireLock(`updatePortSegment:${portVideo.bvID}.${portVideo.cid}`, HOUR_IN_MS);
+            if (!lock.status) {
+                jobStatus.processed++;
+                continue;
+            }
+
+            const result = await updateSegmentsFromSB(portVideo);
+            if (result === PortSyncResult.UpstreamFailed || result === PortSyncResult.Error) {
+                jobStatus.failed++;
+            }
+            jobStatus.processed++;
+
+            // respect the rate limit of upstream servers
+            await new Promise((resolve) => setTimeout(resolve, requestIntervalMs));
+        }
+    } catch (e) {
+        Logger.error(`syncPortedSegments failed: ${e}`);
+    } finally {
+        jobStatus.running = false;
+        jobStatus.endTime = Date.now();
+        Logger.info(`syncPortedSegments finished, ${jobStatus.processed} processed, ${jobStatus.failed} failed`);
+    }
+}
@@ -0,0 +1,105 @@
+import { db } from "../databases/databases";
+import { HashedValue } from "../types/hash.model";
+import { ModerationQueueDB, ModerationStatus, PendingReason } from "../types/moderation.model";
+import { DBSegment, SegmentUUID, VideoID } from "../types/segments.model";
+import { HashedUserID } from "../types/user.model";
+
+export type PendingSegment = Pick<
+    DBSegment,
+    | "videoID"
+    | "cid"
+    | "startTime"
+    | "endTime"
+    | "votes"
+    | "UUID"
+    | "userID"
+    | "category"
+    | "actionType"
+    | "videoDuration"
+    | "reputation"
+    | "description"
+> &
+    Pick<ModerationQueueDB, "reason" | "timeSubmitted">;
+
+export async function addToModerationQueue(
+    UUID: SegmentUUID | HashedValue,
+    videoID: VideoID,
+    cid: string,
+    userID: HashedUserID,
+    reason: PendingReason,
+    timeSubmitted: number
+): Promise<void> {
+    await db.prepare(
+        "run",
+        `INSERT INTO "moderationQueue" ("UUID", "videoID", "cid", "userID", "reason", "status", "timeSubmitted") VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [UUID, videoID, cid, userID, reason, ModerationStatus.Pending, timeSubmitted]
+    );
+}
+
+/**
+ * put an edited segment back into the queue, replacing the decision on its previous version
+ */
+export async function requeueSegment(
+    UUID: SegmentUUID,
+    videoID: VideoID,
+    cid: string,
+    userID: HashedUserID,
+    reason: PendingReason,
+    timeSubmitted: number
+): Promise<void> {
+    const [entry] = await getModerationQueueEntries([UUID]);
+    if (!entry) {
+        return await addToModerationQueue(UUID, videoID, cid, userID, reason, timeSubmitted);
+    }
+    await db.prepare(
+        "run",
+        `UPDATE "moderationQueue" SET "status" = ?, "reason" = ?, "moderatorUserID" = NULL, "note" = '', "timeSubmitted" = ?, "timeModerated" = NULL
+        WHERE "UUID" = ?`,
+        [ModerationStatus.Pending, reason, timeSubmitted, UUID]
+    );
+}
+
+/**
+ * pending entries joined with their segments, oldest first
+ */
+export async function getPendingSegments(videoID: VideoID | null, limit: number, offset: number): Promise<PendingSegment[]> {
+    const videoFilter = videoID ? `AND q."videoID" = ?` : "";
+    return await db.prepare(
+        "all",
+        `SELECT s."videoID", s."cid", s."startTime", s."endTime", s."votes", s."UUID", s."userID", s."category", s."actionType",
+            s."videoDuration", s."reputation", s."description", q."reason", q."timeSubmitted"
+        FROM "moderationQueue" AS q JOIN "sponsorTimes" AS s ON s."UUID" = q."UUID"
+        WHERE q."status" = ? ${videoFilter}
+        ORDER BY q."timeSubmitted" ASC LIMIT ? OFFSET ?`,
+        [ModerationStatus.Pending, ...(videoID ? [videoID] : []), limit, offset]
+    );
+}
+
+export async function countPendingSegments(videoID: VideoID | null): Promise<number> {
+    const videoFilter = videoID ? `AND "videoID" = ?` : "";
+    const row = await db.prepare("get", `SELECT COUNT(*) AS "count" FROM "moderationQueue" WHERE "status" = ? ${videoFilter}`, [
+        ModerationStatus.Pending,
+        ...(videoID ? [videoID] : []),
+    ]);
+    return row?.count ?? 0;
+}
+
+export async function getModerationQueueEntries(UUIDs: SegmentUUID[]): Promise<ModerationQueueDB[]> {
+    if (UUIDs.length == 0) {
+        return [];
+    }
+    return await db.prepare("all", `SELECT * FROM "moderationQueue" WHERE "UUID" IN (${UUIDs.map(() => "?").join(",")})`, UUIDs);
+}
+
+export async function setModerationDecision(
+    UUID: SegmentUUID,
+    status: ModerationStatus,
+    moderatorUserID: HashedUserID,
+    note: string
+): Promise<void> {
+    await db.prepare(
+        "run",
+        `UPDATE "moderationQueue" SET "status" = ?, "moderatorUserID" = ?, "note" = ?, "timeModerated" = ? WHERE "UUID" = ?`,
+        [status, moderatorUserID, note, Date.now(), UUID]
+    );
+}
@@ -1,15 +1,40 @@
-import { db } from "../databases/databases";
-import { PortVideo, PortVideoCount, PortVideoDB, PortVideoInterface, portVideoUUID } from "../types/portVideo.model";
-import { HiddenType, VideoID } from "../types/segments.model";
+import { db, privateDB } from "../databases/databases";
+import {
+    PortCategoryFilter,
+    PortConflictCandidate,
+    PortHistoryAction,
+    PortHistoryReason,
+    PortSyncResult,
+    PortVideo,
+    PortVideoConflictDB,
+    PortVideoCount,
+    PortVideoDB,
+    PortVideoHistoryDB,
+    portVideoUUID,
+    PortVideoVotesDB,
+} from "../types/portVideo.model";
+import { HashedValue } from "../types/hash.model";
+import { HiddenType, SegmentUUID, VideoID } from "../types/segments.model";
+import { HashedUserID } from "../types/user.model";
+import { hidePortedSegments, showPortedSegments } from "./skipSegment";
 import { getHash } from "../utils/HashCacheUtil";
 
-import { portVideoByHashCacheKey, portVideoCacheKey, portVideoUserCountKey } from "../service/redis/redisKeys";
+import {
+    portVideoByHashCacheKey,
+    portVideoByYtbHashCacheKey,
+    portVideoByYtbIDCacheKey,
+    portVideoCacheKey,
+    portVideoUserCountKey,
+} from "../service/redis/redisKeys";
 import { QueryCacher } from "../utils/queryCacher";
 
+type PortVideoRef = Pick<PortVideo, "bvID" | "cid" | "ytbID" | "UUID">;
+
 function getPortVideoDBByBvID(bvID: VideoID, downvoteThreshold = -2): Promise<PortVideoDB[]> {
     return db.prepare(
         "all",
-        `SELECT "bvID", "cid", "ytbID", "UUID", "votes", "locked", "hidden", "biliDuration", "ytbDuration", "userID", "userAgent" FROM "portVideo"
+        `SELECT "bvID", "cid", "ytbID", "UUID", "votes", "locked", "hidden", "biliDuration", "ytbDuration", "timeOffset", "trimEnd", "userID", "userAgent",
+            "timeSubmitted", "lastSyncTime", "syncFailCount" FROM "portVideo"
         WHERE "bvID" = ? AND "hidden" = 0 AND "votes" > ?`,
         [bvID, downvoteThreshold]
     );
@@ -28,25 +53,115 @@ export async function getPortVideoByBvIDCached(bvID: VideoID): Promise<PortVideo
     return portVideoDB;
 }
 
-function getPortVideoDBByHashPrefix(hashPrefix: string): Promise<PortVideoInterface[]> {
+function getPortVideoDBByHashPrefix(hashPrefix: string): Promise<PortConflictCandidate[]> {
     return db.prepare(
         "all",
-        `SELECT "bvID", "cid", "ytbID", "UUID", "votes", "locked" FROM "portVideo"
+        `SELECT "bvID", "cid", "ytbID", "UUID", "votes", "locked", "timeOffset", "trimEnd", "timeSubmitted", "lastSyncTime", "syncFailCount" FROM "portVideo"
         WHERE "hashedBvID" LIKE ? AND "hidden" = 0 AND "votes" > -2`,
         [`${hashPrefix}%`]
     );
 }
 
+function getPortVideoDBByYtbID(ytbID: VideoID): Promise<PortConflictCandidate[]> {
+    return db.prepare(
+        "all",
+        `SELECT "bvID", "cid", "ytbID", "UUID", "votes", "locked", "timeOffset", "trimEnd", "timeSubmitted", "lastSyncTime", "syncFailCount" FROM "portVideo"
+        WHERE "ytbID" = ? AND "hidden" = 0 AND "votes" > -2`,
+        [ytbID]
+    );
+}
+
+function getPortVideoDBByYtbHashPrefix(hashPrefix: string): Promise<(PortConflictCandidate & { hashedYtbID: HashedValue })[]> {
+    return db.prepare(
+        "all",
+        `SELECT "bvID", "cid", "ytbID", "UUID", "votes", "locked", "timeOffset", "trimEnd", "timeSubmitted", "lastSyncTime", "syncFailCount", "hashedYtbID" FROM "portVideo"
+        WHERE "hashedYtbID" LIKE ? AND "hidden" = 0 AND "votes" > -2`,
+        [`${hashPrefix}%`]
+    );
+}
+
+export function getPortVideoByYtbIDCached(ytbID: VideoID): Promise<PortConflictCandidate[]> {
+    return QueryCacher.get(() => getPortVideoDBByYtbID(ytbID), portVideoByYtbIDCacheKey(ytbID));
+}
+
+/**
+ * the cache is shared by every prefix with the same first 3 characters, longer prefixes are filtered afterwards
+ */
+export async function getPortVideoByYtbHashPrefixCached(hashPrefix: string): Promise<PortConflictCandidate[]> {
+    const shortPrefix = hashPrefix.substring(0, 3);
+    const portVideos = await QueryCacher.get(() => getPortVideoDBByYtbHashPrefix(shortPrefix), portVideoByYtbHashCacheKey(shortPrefix));
+    return portVideos.filter((portVideo) => portVideo.hashedYtbID.startsWith(hashPrefix));
+}
+
 export function getPortVideoDBByUUID(uuid: portVideoUUID): Promise<PortVideoDB[]> {
     return db.prepare(
         "all",
-        `SELECT "bvID", "cid", "ytbID", "UUID", "votes", "locked", "hidden", "biliDuration", "ytbDuration", "userID", "userAgent", "timeSubmitted", "hashedBvID" FROM "portVideo"
+        `SELECT "bvID", "cid", "ytbID", "UUID", "votes", "locked", "hidden", "biliDuration", "ytbDuration", "timeOffset", "trimEnd", "userID", "userAgent", "timeSubmitted", "hashedBvID",
+            "includedCategories", "excludedCategories" FROM "portVideo"
         WHERE "UUID" = ? AND "hidden" = 0 AND "votes" > -2`,
         [uuid]
     );
 }
 
-export function getPortVideoByHashPrefixCached(hashPrefix: string): Promise<PortVideoInterface[]> {
+/**
+ * get a port video record by UUID, including hidden and downvoted ones
+ */
+export async function getPortVideoRecordByUUID(uuid: portVideoUUID): Promise<PortVideoDB> {
+    return await db.prepare(
+        "get",
+        `SELECT "bvID", "cid", "ytbID", "UUID", "votes", "locked", "hidden", "biliDuration", "ytbDuration", "timeOffset", "trimEnd", "userID", "userAgent", "timeSubmitted", "hashedBvID",
+            "includedCategories", "excludedCategories" FROM "portVideo"
+        WHERE "UUID" = ?`,
+        [uuid]
+    );
+}
+
+/**
+ * get all active port video records of a part, with the fields used for conflict resolution
+ */
+export function getActivePortVideoByCid(bvID: VideoID, cid: string): Promise<PortVideoDB[]> {
+    return db.prepare(
+        "all",
+        `SELECT "bvID", "cid", "ytbID", "UUID", "votes", "locked", "hidden", "biliDuration", "ytbDuration", "timeOffset", "trimEnd",
+            "userID", "userAgent", "timeSubmitted", "hashedBvID", "lastSyncTime", "syncFailCount" FROM "portVideo"
+        WHERE "bvID" = ? AND "cid" = ? AND "hidden" = 0 AND "votes" > -2`,
+        [bvID, cid]
+    );
+}
+
+/**
+ * get all parts of videos that have more than one active port video record
+ */
+export function getConflictingPortVideoParts(): Promise<{ bvID: VideoID; cid: string }[]> {
+    return db.prepare(
+        "all",
+        `SELECT "bvID", "cid" FROM "portVideo" WHERE "hidden" = 0 AND "votes" > -2
+        GROUP BY "bvID", "cid" HAVING COUNT(*) > 1`
+    );
+}
+
+export async function savePortVideoConflicts(conflicts: PortVideoConflictDB[]): Promise<void> {
+    if (conflicts.length === 0) {
+        return;
+    }
+    await db.prepare(
+        "run",
+        `INSERT INTO "portVideoConflict" ("bvID", "cid", "winnerUUID", "loserUUID", "reason", "source", "userID", "timeSubmitted")
+        VALUES ${Array(conflicts.length).fill("(?,?,?,?,?,?,?,?)").join(",")}`,
+        conflicts.flatMap((c) => [c.bvID, c.cid, c.winnerUUID, c.loserUUID, c.reason, c.source, c.userID, c.timeSubmitted])
+    );
+}
+
+export function getPortVideoConflicts(bvID: VideoID): Promise<PortVideoConflictDB[]> {
+    return db.prepare(
+        "all",
+        `SELECT "bvID", "cid", "winnerUUID", "loserUUID", "reason", "source", "userID", "timeSubmitted" FROM "portVideoConflict"
+        WHERE "bvID" = ? ORDER BY "timeSubmitted" DESC`,
+        [bvID]
+    );
+}
+
+export function getPortVideoByHashPrefixCached(hashPrefix: string): Promise<PortConflictCandidate[]> {
     return QueryCacher.get(() => getPortVideoDBByHashPrefix(hashPrefix), portVideoByHashCacheKey(hashPrefix));
 }
 
@@ -76,16 +191,152 @@ async function getPortVideoUserCountFromDB(): Promise<Record<string, number>> {
 }
 
 /**
- * hide port video record by UUID
- * video id is used to clear redis cache
+ * hide a port video record and its ported segments, the change is saved to the history
  */
 export async function hidePortVideoByUUID(
-    UUID: string,
-    bvID: VideoID,
-    hiddenType = HiddenType.MismatchHidden
+    portVideo: PortVideoRef,
+    reason: PortHistoryReason,
+    hiddenType = HiddenType.MismatchHidden,
+    userID: HashedUserID = null
+): Promise<void> {
+    await db.prepare("run", `UPDATE "portVideo" SET "hidden" = ? WHERE "UUID" = ?`, [hiddenType, portVideo.UUID]);
+    const affectedSegments = await hidePortedSegments(portVideo.UUID, portVideo.bvID, hiddenType);
+    await savePortVideoHistory(portVideo, PortHistoryAction.Hidden, reason, affectedSegments, userID);
+    QueryCacher.clearPortVideoCache(portVideo.bvID, getHash(portVideo.bvID, 1), portVideo.ytbID);
+}
+
+/**
+ * show a port video record and its ported segments, the change is saved to the history
+ */
+export async function showPortVideoByUUID(
+    portVideo: PortVideoRef,
+    reason: PortHistoryReason,
+    userID: HashedUserID = null,
+    lock = false
+): Promise<void> {
+    await db.prepare("run", `UPDATE "portVideo" SET "hidden" = ?${lock ? `, "locked" = 1` : ""} WHERE "UUID" = ?`, [
+        HiddenType.Show,
+        portVideo.UUID,
+    ]);
+    const affectedSegments = await showPortedSegments(portVideo.UUID, portVideo.bvID);
+    await savePortVideoHistory(portVideo, PortHistoryAction.Shown, reason, affectedSegments, userID);
+    QueryCacher.clearPortVideoCache(portVideo.bvID, getHash(portVideo.bvID, 1), portVideo.ytbID);
+}
+
+export async function savePortVideoHistory(
+    portVideo: PortVideoRef,
+    action: PortHistoryAction,
+    reason: PortHistoryReason,
+    affectedSegments: SegmentUUID[],
+    userID: HashedUserID = null
 ): Promise<void> {
-    await db.prepare("run", `UPDATE "sponsorTimes" SET "hidden" = ? WHERE "UUID" = ?`, [hiddenType, UUID]);
-    QueryCacher.clearPortVideoCache(bvID, getHash(bvID, 1));
+    await db.prepare(
+        "run",
+        `INSERT INTO "portVideoHistory" ("bvID", "cid", "UUID", "action", "reason", "affectedSegments", "userID", "timeSubmitted")
+        VALUES (?,?,?,?,?,?,?,?)`,
+        [portVideo.bvID, portVideo.cid, portVideo.UUID, action, reason, JSON.stringify(affectedSegments), userID, Date.now()]
+    );
+}
+
+/**
+ * get all port video records of a video, including hidden and downvoted ones
+ */
+export function getAllPortVideoByBvID(bvID: VideoID): Promise<PortVideoDB[]> {
+    return db.prepare(
+        "all",
+        `SELECT "bvID", "cid", "ytbID", "UUID", "votes", "locked", "hidden", "biliDuration", "ytbDuration", "timeOffset", "trimEnd",
+            "userID", "timeSubmitted", "includedCategories", "excludedCategories" FROM "portVideo"
+        WHERE "bvID" = ? ORDER BY "timeSubmitted" ASC`,
+        [bvID]
+    );
+}
+
+export function getPortVideoHistory(bvID: VideoID): Promise<PortVideoHistoryDB[]> {
+    return db.prepare(
+        "all",
+        `SELECT "bvID", "cid", "UUID", "action", "reason", "affectedSegments", "userID", "timeSubmitted" FROM "portVideoHistory"
+        WHERE "bvID" = ? ORDER BY "timeSubmitted" ASC`,
+        [bvID]
+    );
+}
+
+/**
+ * get votes on port video records of a video, hashed IPs are not included
+ */
+export function getPortVideoVotes(bvID: VideoID): Promise<Pick<PortVideoVotesDB, "UUID" | "type" | "userID" | "timeSubmitted">[]> {
+    return privateDB.prepare(
+        "all",
+        `SELECT "UUID", "type", "userID", "timeSubmitted" FROM "portVideoVotes" WHERE "bvID" = ? ORDER BY "timeSubmitted" ASC`,
+        [bvID]
+    );
+}
+
+export async function updatePortVideoCategories(UUID: portVideoUUID, filter: PortCategoryFilter): Promise<void> {
+    await db.prepare("run", `UPDATE "portVideo" SET "includedCategories" = ?, "excludedCategories" = ? WHERE "UUID" = ?`, [
+        JSON.stringify(filter.includedCategories),
+        JSON.stringify(filter.excludedCategories),
+        UUID,
+    ]);
+}
+
+/**
+ * save the result of syncing ported segments from the upstream server
+ */
+export async function updatePortVideoSyncStatus(UUID: portVideoUUID, result: PortSyncResult, errorMessage: string = null): Promise<void> {
+    if (result === PortSyncResult.UpstreamFailed || result === PortSyncResult.Error) {
+        await db.prepare("run", `UPDATE "portVideo" SET "syncFailCount" = "syncFailCount" + 1, "lastSyncError" = ? WHERE "UUID" = ?`, [
+            errorMessage ?? result,
+            UUID,
+        ]);
+    } else {
+        await db.prepare("run", `UPDATE "portVideo" SET "lastSyncTime" = ?, "syncFailCount" = 0, "lastSyncError" = NULL WHERE "UUID" = ?`, [
+            Date.now(),
+            UUID,
+        ]);
+    }
+}
+
+/**
+ * higher priority for records with more views and longer time since the last sync,
+ * records that keep failing are tried later
+ */
+function syncPriority(portVideo: PortVideoDB & { views: number }, now: number): number {
+    const staleTime = now - (portVideo.lastSyncTime || portVideo.timeSubmitted);
+    return (Math.log10(portVideo.views + 10) * staleTime) / (1 + (portVideo.syncFailCount ?? 0));
+}
+
+/**
+ * Get active port video records that have not been synced since the given time,
+ * with the total views of their ported segments, in the order of their sync priority.
+ */
+export async function getPortVideoToSync(syncedBefore: number, now: number, limit: number): Promise<(PortVideoDB & { views: number })[]> {
+    const portVideos: (PortVideoDB & { views: number })[] = await db.prepare(
+        "all",
+        `SELECT "portVideo"."bvID", "portVideo"."cid", "portVideo"."ytbID", "portVideo"."UUID", "portVideo"."votes", "portVideo"."locked",
+            "portVideo"."hidden", "portVideo"."biliDuration", "portVideo"."ytbDuration", "portVideo"."timeOffset", "portVideo"."trimEnd",
+            "portVideo"."userID", "portVideo"."userAgent", "portVideo"."timeSubmitted", "portVideo"."hashedBvID",
+            "portVideo"."lastSyncTime", "portVideo"."syncFailCount", "portVideo"."includedCategories", "portVideo"."excludedCategories",
+            COALESCE("segmentViews"."views", 0) AS "views"
+        FROM "portVideo" LEFT JOIN (
+            SELECT "portUUID", SUM("views") AS "views" FROM "sponsorTimes" WHERE "portUUID" IS NOT NULL GROUP BY "portUUID"
+        ) AS "segmentViews" ON "segmentViews"."portUUID" = "portVideo"."UUID"
+        WHERE "portVideo"."hidden" = 0 AND "portVideo"."votes" > -2 AND "portVideo"."lastSyncTime" < ?`,
+        [syncedBefore]
+    );
+    return portVideos.sort((a, b) => syncPriority(b, now) - syncPriority(a, now)).slice(0, limit);
+}
+
+/**
+ * get active port video records that have not been synced since the given time
+ */
+export function getStalePortVideo(syncedBefore: number, limit = 100): Promise<PortVideoDB[]> {
+    return db.prepare(
+        "all",
+        `SELECT "bvID", "cid", "ytbID", "UUID", "lastSyncTime", "syncFailCount", "lastSyncError" FROM "portVideo"
+        WHERE "hidden" = 0 AND "votes" > -2 AND "lastSyncTime" < ?
+        ORDER BY "lastSyncTime" ASC LIMIT ?`,
+        [syncedBefore, limit]
+    );
 }
 
 export function getPortVideoUserCount(): Promise<Record<string, number>> {
@@ -0,0 +1,38 @@
+import { db } from "../databases/databases";
+import { PortImportJob, PortImportJobDB } from "../types/portVideo.model";
+
+export async function savePortImportJob(job: PortImportJob): Promise<void> {
+    await db.prepare(
+        "run",
+        `INSERT INTO "portVideoImportJobs" ("id", "userID", "running", "startTime", "endTime", "updateTime", "total", "processed", "rows")
+        VALUES (?,?,?,?,?,?,?,?,?)`,
+        [job.id, job.userID, job.running ? 1 : 0, job.startTime, job.endTime, Date.now(), job.total, job.processed, JSON.stringify(job.rows)]
+    );
+}
+
+/**
+ * save the progress of an import job
+ */
+export async function updatePortImportJob(job: PortImportJob): Promise<void> {
+    await db.prepare(
+        "run",
+        `UPDATE "portVideoImportJobs" SET "running" = ?, "endTime" = ?, "updateTime" = ?, "processed" = ?, "rows" = ? WHERE "id" = ?`,
+        [job.running ? 1 : 0, job.endTime, Date.now(), job.processed, JSON.stringify(job.rows), job.id]
+    );
+}
+
+export function getPortImportJob(id: string): Promise<PortImportJobDB> {
+    return db.prepare(
+        "get",
+        `SELECT "id", "userID", "running", "startTime", "endTime", "updateTime", "total", "processed", "rows" FROM "portVideoImportJobs"
+        WHERE "id" = ?`,
+        [id]
+    );
+}
+
+/**
+ * delete the jobs that have not been updated since the given time
+ */
+export async function deleteOldPortImportJobs(updatedBefore: number): Promise<void> {
+    await db.prepare("run", `DELETE FROM "portVideoImportJobs" WHERE "updateTime" < ?`, [updatedBefore]);
+}
@@ -0,0 +1,161 @@
+import { db } from "../databases/databases";
+import { SeasonID, SeasonLockCategoryDB, SegmentTemplateDB, SegmentTemplateUUID } from "../types/season.model";
+import { ActionType, Category, HiddenType, Service, VideoID, VideoIDHash } from "../types/segments.model";
+import { HashedUserID } from "../types/user.model";
+import { getHash } from "../utils/HashCacheUtil";
+import { QueryCacher } from "../utils/queryCacher";
+
+export async function getSeasonLockCategories(seasonID: SeasonID): Promise<SeasonLockCategoryDB[]> {
+    return await db.prepare("all", `SELECT * FROM "seasonLockCategories" WHERE "seasonID" = ?`, [seasonID], { useReplica: true });
+}
+
+/**
+ * the season locks of the videos within a hash prefix, only videos with submissions are known to be in a season
+ */
+export async function getSeasonLockCategoriesByHashPrefix(
+    hashPrefix: VideoIDHash
+): Promise<(Pick<SeasonLockCategoryDB, "category" | "actionType" | "reason"> & { videoID: VideoID; hash: VideoIDHash })[]> {
+    return await db.prepare(
+        "all",
+        `SELECT DISTINCT s."videoID", s."hashedVideoID" AS "hash", l."category", l."actionType", l."reason"
+        FROM "seasonLockCategories" AS l
+        JOIN "videoInfo" AS v ON v."seasonID" = l."seasonID"
+        JOIN "sponsorTimes" AS s ON s."videoID" = v."videoID"
+        WHERE s."hashedVideoID" LIKE ? AND s."service" = ?`,
+        [`${hashPrefix}%`, Service.YouTube],
+        { useReplica: true }
+    );
+}
+
+/**
+ * the lock categories of every known video of the season changed
+ */
+async function touchSeasonLockMarkers(seasonID: SeasonID): Promise<void> {
+    const videos: { videoID: VideoID }[] = await db.prepare("all", `SELECT DISTINCT "videoID" FROM "videoInfo" WHERE "seasonID" = ?`, [seasonID]);
+    videos.forEach(({ videoID }) => QueryCacher.touchLastModified("lockCategoriesHash", getHash(videoID, 1)));
+}
+
+/**
+ * add new locks of a season, the reason of existing locks is only replaced by a non-empty reason
+ */
+export async function saveSeasonLockCategories(
+    seasonID: SeasonID,
+    locks: { category: Category; actionType: ActionType }[],
+    reason: string,
+    userID: HashedUserID
+): Promise<void> {
+    const existingLocks = await getSeasonLockCategories(seasonID);
+    const timeSubmitted = Date.now();
+
+    for (const lock of locks) {
+        if (!existingLocks.some((e) => e.category === lock.category && e.actionType === lock.actionType)) {
+            await db.prepare(
+                "run",
+                `INSERT INTO "seasonLockCategories" ("seasonID", "userID", "actionType", "category", "reason", "timeSubmitted") VALUES (?, ?, ?, ?, ?, ?)`,
+                [seasonID, userID, lock.actionType, lock.category, reason, timeSubmitted]
+            );
+        } else if (reason.length !== 0) {
+            await db.prepare(
+                "run",
+                `UPDATE "seasonLockCategories" SET "reason" = ?, "userID" = ? WHERE "seasonID" = ? AND "actionType" = ? AND "category" = ?`,
+                [reason, userID, seasonID, lock.actionType, lock.category]
+            );
+        }
+    }
+    await touchSeasonLockMarkers(seasonID);
+}
+
+export async function deleteSeasonLockCategories(seasonID: SeasonID, categories: Category[], actionTypes: ActionType[]): Promise<void> {
+    await db.prepare(
+        "run",
+        `DELETE FROM "seasonLockCategories" WHERE "seasonID" = ?
+        AND "category" IN (${categories.map(() => "?").join(",")}) AND "actionType" IN (${actionTypes.map(() => "?").join(",")})`,
+        [seasonID, ...categories, ...actionTypes]
+    );
+    await touchSeasonLockMarkers(seasonID);
+}
+
+export async function getSegmentTemplates(seasonID: SeasonID): Promise<SegmentTemplateDB[]> {
+    return await db.prepare(
+        "all",
+        `SELECT * FROM "segmentTemplates" WHERE "seasonID" = ? AND "hidden" = 0 ORDER BY "startTime"`,
+        [seasonID],
+        { useReplica: true }
+    );
+}
+
+export async function getSegmentTemplateByUUID(UUID: SegmentTemplateUUID): Promise<SegmentTemplateDB | null> {
+    return await db.prepare("get", `SELECT * FROM "segmentTemplates" WHERE "UUID" = ?`, [UUID]);
+}
+
+/**
+ * seasons with at least one active template, with a video of each season to look up its episodes
+ */
+export async function getTemplatedSeasons(): Promise<{ seasonID: SeasonID; videoID: VideoID }[]> {
+    const rows: { seasonID: SeasonID; videoID: VideoID }[] = await db.prepare(
+        "all",
+        `SELECT DISTINCT "seasonID", "videoID" FROM "segmentTemplates" WHERE "hidden" = 0`
+    );
+    return [...new Map(rows.map((row) => [row.seasonID, row])).values()];
+}
+
+export async function saveSegmentTemplate(template: SegmentTemplateDB): Promise<void> {
+    await db.prepare(
+        "run",
+        `INSERT INTO "segmentTemplates"
+        ("UUID", "seasonID", "videoID", "startTime", "endTime", "category", "actionType", "description", "userID", "hidden", "timeSubmitted")
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+            template.UUID,
+            template.seasonID,
+            template.videoID,
+            template.startTime,
+            template.endTime,
+            template.category,
+            template.actionType,
+            template.description,
+            template.userID,
+            template.hidden,
+            template.timeSubmitted,
+        ]
+    );
+}
+
+export async function deleteSegmentTemplate(UUID: SegmentTemplateUUID): Promise<void> {
+    await db.prepare("run", `DELETE FROM "segmentTemplates" WHERE "UUID" = ?`, [UUID]);
+}
+
+/**
+ * hide a template and the segments created from it
+ */
+export async function hideSegmentTemplate(UUID: SegmentTemplateUUID): Promise<void> {
+    const videos: { videoID: VideoID }[] = await db.prepare(
+        "all",
+        `SELECT DISTINCT "videoID" FROM "sponsorTimes" WHERE "templateUUID" = ?`,
+        [UUID]
+    );
+    await db.prepare("run", `UPDATE "segmentTemplates" SET "hidden" = 1 WHERE "UUID" = ?`, [UUID]);
+    await db.prepare("run", `UPDATE "sponsorTimes" SET "hidden" = ? WHERE "templateUUID" = ? AND "hidden" = ?`, [
+        HiddenType.TemplateHidden,
+        UUID,
+        HiddenType.Show,
+    ]);
+    videos.forEach(({ videoID }) => QueryCacher.clearSegmentCacheByID(videoID));
+}
+
+/**
+ * the parts of the videos each template was already applied to, including segments hidden since
+ */
+export async function getAppliedTemplates(
+    videoIDs: VideoID[]
+): Promise<{ videoID: VideoID; cid: string; templateUUID: SegmentTemplateUUID }[]> {
+    if (videoIDs.length === 0) {
+        return [];
+    }
+    return await db.prepare(
+        "all",
+        `SELECT "videoID", "cid", "templateUUID" FROM "sponsorTimes"
+        WHERE "videoID" IN (${videoIDs.map(() => "?").join(",")}) AND "templateUUID" IS NOT NULL`,
+        videoIDs
+    );
+}
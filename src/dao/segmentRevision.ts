@@ -0,0 +1,82 @@
+import { db } from "../databases/databases";
+import { DBSegment, SegmentEdit, SegmentRevisionDB, SegmentUUID } from "../types/segments.model";
+import { HashedUserID } from "../types/user.model";
+import { QueryCacher } from "../utils/queryCacher";
+
+export async function getSegmentRevisions(UUIDs: SegmentUUID[]): Promise<SegmentRevisionDB[]> {
+    if (UUIDs.length == 0) {
+        return [];
+    }
+    return await db.prepare(
+        "all",
+        `SELECT * FROM "segmentRevisions" WHERE "UUID" IN (${UUIDs.map(() => "?").join(",")}) ORDER BY "UUID", "revision"`,
+        UUIDs
+    );
+}
+
+/**
+ * apply an edit to a segment in place, keeping its UUID, and store the previous values as a new revision
+ */
+export async function editSegment(
+    segment: DBSegment,
+    edit: SegmentEdit,
+    votes: number,
+    userID: HashedUserID,
+    isVIP: boolean
+): Promise<SegmentRevisionDB> {
+    const last = await db.prepare("get", `SELECT MAX("revision") AS "revision" FROM "segmentRevisions" WHERE "UUID" = ?`, [segment.UUID]);
+    const revision: SegmentRevisionDB = {
+        UUID: segment.UUID,
+        revision: (last?.revision ?? 0) + 1,
+        userID,
+        isVIP,
+        oldStartTime: segment.startTime,
+        oldEndTime: segment.endTime,
+        oldCategory: segment.category,
+        oldDescription: segment.description ?? "",
+        oldVotes: segment.votes,
+        startTime: edit.startTime,
+        endTime: edit.endTime,
+        category: edit.category,
+        description: edit.description,
+        votes,
+        timeSubmitted: Date.now(),
+    };
+
+    await db.prepare(
+        "run",
+        `UPDATE "sponsorTimes" SET "startTime" = ?, "endTime" = ?, "category" = ?, "description" = ?, "votes" = ? WHERE "UUID" = ?`,
+        [edit.startTime, edit.endTime, edit.category, edit.description, votes, segment.UUID]
+    );
+    await db.prepare(
+        "run",
+        `INSERT INTO "segmentRevisions" ("UUID", "revision", "userID", "isVIP", "oldStartTime", "oldEndTime", "oldCategory", "oldDescription",
+        "oldVotes", "startTime", "endTime", "category", "description", "votes", "timeSubmitted") VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+            revision.UUID,
+            revision.revision,
+            revision.userID,
+            revision.isVIP ? 1 : 0,
+            revision.oldStartTime,
+            revision.oldEndTime,
+            revision.oldCategory,
+            revision.oldDescription,
+            revision.oldVotes,
+            revision.startTime,
+            revision.endTime,
+            revision.category,
+            revision.description,
+            revision.votes,
+            revision.timeSubmitted,
+        ]
+    );
+
+    QueryCacher.clearSegmentCache({
+        videoID: segment.videoID,
+        cid: segment.cid,
+        hashedVideoID: segment.hashedVideoID,
+        service: segment.service,
+        userID: segment.userID,
+    });
+    return revision;
+}
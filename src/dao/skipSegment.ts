@@ -1,10 +1,23 @@
 import { db, privateDB } from "../databases/databases";
 import { PORT_SEGMENT_USER_ID } from "../routes/postPortVideo";
-import { portVideoUUID } from "../types/portVideo.model";
-import { DBSegment, HashedIP, HiddenType, Segment, SegmentUUID, Service, VideoID, VideoIDHash, Visibility } from "../types/segments.model";
+import { PortCategoryFilter, portVideoUUID } from "../types/portVideo.model";
+import {
+    DBSegment,
+    HashedIP,
+    HiddenType,
+    Segment,
+    SegmentUUID,
+    Service,
+    VideoDuration,
+    VideoID,
+    VideoIDHash,
+    Visibility,
+} from "../types/segments.model";
 import { getHash } from "../utils/HashCacheUtil";
 
 import { getPortSegmentUUID } from "../utils/getSubmissionUUID";
+import { isCategoryPorted } from "../utils/portCategoryFilter";
+import { alignYoutubeSegments } from "../utils/segmentOffset";
 import { QueryCacher } from "../utils/queryCacher";
 import { cidListKey, skipSegmentsHashKey, skipSegmentsKey } from "../service/redis/redisKeys";
 
@@ -53,6 +66,77 @@ export async function hideSegmentsByUUID(UUIDs: string[], bvID: VideoID, hiddenT
     QueryCacher.clearSegmentCacheByID(bvID);
 }
 
+/**
+ * show hidden segments by UUID from the same video, only the segments hidden with the given type are shown
+ */
+export async function showSegmentsByUUID(UUIDs: string[], bvID: VideoID, hiddenType: HiddenType): Promise<void> {
+    if (UUIDs.length === 0) {
+        return;
+    }
+    await db.prepare(
+        "run",
+        `UPDATE "sponsorTimes" SET "hidden" = ? WHERE "hidden" = ? AND "UUID" IN (${Array(UUIDs.length).fill("?").join(",")})`,
+        [HiddenType.Show, hiddenType, ...UUIDs]
+    );
+    QueryCacher.clearSegmentCacheByID(bvID);
+}
+
+/**
+ * hide ported segments in categories excluded by the category filter,
+ * and show the ones hidden by the filter before but included now
+ */
+export async function applyCategoryFilter(portedSegments: DBSegment[], categoryFilter: PortCategoryFilter, bvID: VideoID): Promise<void> {
+    const excludedSegments = portedSegments.filter((s) => s.hidden == HiddenType.Show && !isCategoryPorted(s.category, categoryFilter));
+    const includedSegments = portedSegments.filter(
+        (s) => s.hidden == HiddenType.CategoryHidden && isCategoryPorted(s.category, categoryFilter)
+    );
+
+    await hideSegmentsByUUID(
+        excludedSegments.map((s) => s.UUID),
+        bvID,
+        HiddenType.CategoryHidden
+    );
+    await showSegmentsByUUID(
+        includedSegments.map((s) => s.UUID),
+        bvID,
+        HiddenType.CategoryHidden
+    );
+}
+
+/**
+ * hide the visible segments ported with a port video record
+ * @returns UUIDs of the hidden segments
+ */
+export async function hidePortedSegments(
+    portUUID: portVideoUUID,
+    bvID: VideoID,
+    hiddenType = HiddenType.MismatchHidden
+): Promise<SegmentUUID[]> {
+    const segments: { UUID: SegmentUUID }[] = await db.prepare(
+        "all",
+        `SELECT "UUID" FROM "sponsorTimes" WHERE "portUUID" = ? AND "hidden" = ?`,
+        [portUUID, HiddenType.Show]
+    );
+    const UUIDs = segments.map((s) => s.UUID);
+    await hideSegmentsByUUID(UUIDs, bvID, hiddenType);
+    return UUIDs;
+}
+
+/**
+ * show the segments of a port video record that were hidden due to a port video mismatch
+ * @returns UUIDs of the shown segments
+ */
+export async function showPortedSegments(portUUID: portVideoUUID, bvID: VideoID): Promise<SegmentUUID[]> {
+    const segments: { UUID: SegmentUUID }[] = await db.prepare(
+        "all",
+        `SELECT "UUID" FROM "sponsorTimes" WHERE "portUUID" = ? AND "hidden" = ?`,
+        [portUUID, HiddenType.MismatchHidden]
+    );
+    const UUIDs = segments.map((s) => s.UUID);
+    await showSegmentsByUUID(UUIDs, bvID, HiddenType.MismatchHidden);
+    return UUIDs;
+}
+
 export function createSegmentsFromYTB(
     ytbSegments: Segment[],
     bvID: VideoID,
@@ -61,10 +145,14 @@ export function createSegmentsFromYTB(
     timeSubmitted: number,
     reputation: number,
     userAgent: string,
-    portRecordUUID: portVideoUUID
+    portRecordUUID: portVideoUUID,
+    timeOffset = 0,
+    biliDuration = 0 as VideoDuration,
+    categoryFilter?: PortCategoryFilter
 ): DBSegment[] {
     const hashedBvID = getHash(bvID, 1);
-    const newSegments: DBSegment[] = ytbSegments.map((ytbSegment) => {
+    const portedSegments = ytbSegments.filter((s) => isCategoryPorted(s.category, categoryFilter));
+    const newSegments: DBSegment[] = alignYoutubeSegments(portedSegments, timeOffset, biliDuration).map((ytbSegment) => {
         return {
             videoID: bvID,
             cid: cid,
@@ -82,7 +170,7 @@ export function createSegmentsFromYTB(
             actionType: ytbSegment.actionType,
             service: Service.YouTube,
 
-            videoDuration: ytbSegment.videoDuration,
+            videoDuration: biliDuration || ytbSegment.videoDuration,
             hidden: HiddenType.Show,
             reputation: reputation,
             shadowHidden: Visibility.VISIBLE,
@@ -117,7 +205,7 @@ export async function saveNewSegments(segments: DBSegment[], hashedIP: HashedIP
             s.startTime,
             s.endTime,
             s.votes,
-            s.locked,
+            s.locked ? 1 : 0,
             s.UUID,
             s.userID,
             s.timeSubmitted,
@@ -134,6 +222,7 @@ export async function saveNewSegments(segments: DBSegment[], hashedIP: HashedIP
             s.ytbID,
             s.ytbSegmentUUID,
             s.portUUID,
+            s.templateUUID ?? null,
         ]);
 
         privateSponsorTime.push([s.videoID, s.cid, hashedIP, s.timeSubmitted, s.service]);
@@ -142,8 +231,8 @@ export async function saveNewSegments(segments: DBSegment[], hashedIP: HashedIP
         "run",
         `INSERT INTO "sponsorTimes" ("videoID", "cid", "startTime", "endTime", "votes", "locked", "UUID",
         "userID", "timeSubmitted", "views", "category", "actionType", "service", "videoDuration", "reputation",
-        "shadowHidden", "hashedVideoID", "userAgent", "description", "ytbID", "ytbSegmentUUID", "portUUID")
-        VALUES ${Array(sponsorTime.length).fill("(?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)").join(",")}`,
+        "shadowHidden", "hashedVideoID", "userAgent", "description", "ytbID", "ytbSegmentUUID", "portUUID", "templateUUID")
+        VALUES ${Array(sponsorTime.length).fill("(?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)").join(",")}`,
         sponsorTime.flat()
     );
     await privateDB.prepare(
@@ -158,21 +247,56 @@ export async function saveNewSegments(segments: DBSegment[], hashedIP: HashedIP
     videoIDSet.forEach((videoID) => QueryCacher.clearSegmentCacheByID(videoID));
 }
 
-export async function updateVotes(segments: DBSegment[]): Promise<void> {
+/**
+ * remove segments saved by saveNewSegments again, together with their private rows
+ */
+export async function deleteNewSegments(segments: DBSegment[], hashedIP: HashedIP = "" as HashedIP): Promise<void> {
     if (segments.length === 0) {
         return;
     }
-    const segmentVotes = [];
-    for (const s of segments) {
-        segmentVotes.push([s.UUID, s.votes]);
-    }
     await db.prepare(
         "run",
-        `UPDATE "sponsorTimes" SET "votes" = f."votes"
-        FROM (VALUES ${Array(segments.length).fill("(?::TEXT, ?::INT)").join(",")})
-        AS f("UUID", "votes") WHERE "sponsorTimes"."UUID" = f."UUID"`,
-        segmentVotes.flat()
+        `DELETE FROM "sponsorTimes" WHERE "UUID" IN (${segments.map(() => "?").join(",")})`,
+        segments.map((s) => s.UUID)
     );
+    const privateRows = new Map(segments.map((s) => [`${s.videoID};${s.cid};${s.timeSubmitted}`, s]));
+    for (const s of privateRows.values()) {
+        await privateDB.prepare(
+            "run",
+            `DELETE FROM "sponsorTimes" WHERE "videoID" = ? AND "cid" = ? AND "hashedIP" = ? AND "timeSubmitted" = ?`,
+            [s.videoID, s.cid, hashedIP, s.timeSubmitted]
+        );
+    }
+
+    // clear redis cache
+    const videoIDSet = new Set(segments.map((s) => s.videoID));
+    videoIDSet.forEach((videoID) => QueryCacher.clearSegmentCacheByID(videoID));
+}
+
+export async function updateVotes(segments: DBSegment[]): Promise<void> {
+    if (segments.length === 0) {
+        return;
+    }
+    // one statement per segment, SQLite has no casts for a VALUES list
+    for (const s of segments) {
+        await db.prepare("run", `UPDATE "sponsorTimes" SET "votes" = ? WHERE "UUID" = ?`, [s.votes, s.UUID]);
+    }
+
+    // clear redis cache
+    const videoIDSet = new Set(segments.map((s) => s.videoID));
+    videoIDSet.forEach((videoID) => QueryCacher.clearSegmentCacheByID(videoID));
+}
+
+/**
+ * save the start and end times of segments
+ */
+export async function updateSegmentTimes(segments: DBSegment[]): Promise<void> {
+    if (segments.length === 0) {
+        return;
+    }
+    for (const s of segments) {
+        await db.prepare("run", `UPDATE "sponsorTimes" SET "startTime" = ?, "endTime" = ? WHERE "UUID" = ?`, [s.startTime, s.endTime, s.UUID]);
+    }
 
     // clear redis cache
     const videoIDSet = new Set(segments.map((s) => s.videoID));
@@ -1,11 +1,14 @@
 import { db } from "../databases/databases";
 import { VideoDetail } from "../service/api/getVideoDetails";
+import { SeasonID } from "../types/season.model";
+import { VideoID, VideoPartInfo } from "../types/segments.model";
 
 export async function saveVideoInfo(biliVideoDetail: VideoDetail) {
     for (const page of biliVideoDetail.page) {
         await db.prepare(
             "run",
-            `INSERT INTO "videoInfo" ("videoID", "cid", "channelID", "title", "part", "partTitile", "published") SELECT ?, ?, ?, ?, ?, ?, ?
+            `INSERT INTO "videoInfo" ("videoID", "cid", "channelID", "title", "part", "partTitile", "published", "seasonID")
+            SELECT ?, ?, ?, ?, ?, ?, ?, ?
             WHERE NOT EXISTS (SELECT 1 FROM "videoInfo" WHERE "videoID" = ? AND "cid" = ?)`,
             [
                 biliVideoDetail.videoId,
@@ -15,9 +18,42 @@ export async function saveVideoInfo(biliVideoDetail: VideoDetail) {
                 page?.page || 0,
                 page?.part || "",
                 biliVideoDetail?.published || 0,
+                biliVideoDetail?.season?.id || "",
                 biliVideoDetail.videoId,
                 page.cid,
             ]
         );
     }
+
+    // videos can be added to or removed from a season after they are saved
+    await db.prepare("run", `UPDATE "videoInfo" SET "seasonID" = ? WHERE "videoID" = ? AND "seasonID" != ?`, [
+        biliVideoDetail?.season?.id || "",
+        biliVideoDetail.videoId,
+        biliVideoDetail?.season?.id || "",
+    ]);
+}
+
+export async function getVideoPartsByVideoIDs(videoIDs: VideoID[]): Promise<VideoPartInfo[]> {
+    if (videoIDs.length == 0) {
+        return [];
+    }
+    return await db.prepare(
+        "all",
+        `SELECT "videoID", "cid", "part", "partTitile" FROM "videoInfo" WHERE "videoID" IN (${videoIDs.map(() => "?").join(",")})`,
+        videoIDs
+    );
+}
+
+export async function getCidByPage(videoID: VideoID, page: number): Promise<string | null> {
+    const row = await db.prepare("get", `SELECT "cid" FROM "videoInfo" WHERE "videoID" = ? AND "part" = ? LIMIT 1`, [videoID, page], {
+        useReplica: true,
+    });
+    return row?.cid ?? null;
+}
+
+export async function getSeasonIDByVideoID(videoID: VideoID): Promise<SeasonID | null> {
+    const row = await db.prepare("get", `SELECT "seasonID" FROM "videoInfo" WHERE "videoID" = ? AND "seasonID" != '' LIMIT 1`, [videoID], {
+        useReplica: true,
+    });
+    return row?.seasonID ?? null;
 }
@@ -52,7 +52,7 @@ export class Sqlite implements IDatabase {
                     return getHash(params[0], 1);
                 }
             };
-            this.db.function("sha256", wrapper);
+            this.db.function("sha256", { varargs: true }, wrapper);
 
             // Upgrade database if required
             Sqlite.upgradeDB(this.db, this.config.fileNamePrefix, this.config.dbSchemaFolder);
@@ -1,9 +1,22 @@
 import { NextFunction, Request, Response } from "express";
 import { VideoID, VideoIDHash, Service } from "../types/segments.model";
 import { QueryCacher } from "../utils/queryCacher";
-import { skipSegmentsHashKey, skipSegmentsKey, videoLabelsHashKey, videoLabelsKey } from "../service/redis/redisKeys";
+import { LastModifiedType, skipSegmentsHashKey, skipSegmentsKey, videoLabelsHashKey, videoLabelsKey } from "../service/redis/redisKeys";
+import { validate as validateBvID } from "../service/validate/bilibiliID";
+import { hashPrefixTester } from "../utils/hashPrefixTester";
+import { config } from "../config";
 
-type hashType = "skipSegments" | "skipSegmentsHash" | "videoLabel" | "videoLabelHash" | "branding" | "brandingHash";
+type hashType = "skipSegments" | "skipSegmentsHash" | "videoLabel" | "videoLabelHash" | "branding" | "brandingHash" | LastModifiedType;
+// the keys of each marker type, checked before anything is read from redis
+const markerKeyTesters: Record<LastModifiedType, (key: string) => boolean> = {
+    portVideo: validateBvID,
+    portVideoHash: hashPrefixTester,
+    lockCategoriesHash: hashPrefixTester,
+    segmentInfo: validateBvID,
+    userInfo: (key) => /^[\da-f]{64}$/.test(key),
+};
+// same as the UUID limit of segment info
+const MAX_MARKER_KEYS = 10;
 type ETag = `"${hashType};${VideoIDHash};${Service};${number}"`;
 type hashKey = string | VideoID | VideoIDHash;
 
@@ -11,22 +24,39 @@ export function cacheMiddlware(req: Request, res: Response, next: NextFunction):
     const reqEtag = req.get("If-None-Match") as string;
     // if weak etag, do not handle
     if (!reqEtag || reqEtag.startsWith("W/")) return next();
+    // last modified dates are only kept in redis
+    if (!config.redis?.enabled) return next();
     // split into components
     const [hashType, hashKey, service, lastModified] = reqEtag.replace(/^"|"$/g, "").split(";");
     // fetch last-modified
     getLastModified(hashType as hashType, hashKey as VideoIDHash, service as Service)
         .then(redisLastModified => {
-            if (redisLastModified <= new Date(Number(lastModified) + 1000)) {
+            if (redisLastModified && redisLastModified <= new Date(Number(lastModified) + 1000)) {
                 // match cache, generate etag
                 const etag = `"${hashType};${hashKey};${service};${redisLastModified.getTime()}"` as ETag;
                 res.status(304).set("etag", etag).send();
             }
             else next();
         })
-        .catch(next);
+        // without a last modified date the request is answered as usual
+        .catch(() => next());
+}
+
+async function getMarkerLastModified(type: LastModifiedType, hashKey: hashKey): Promise<Date | null> {
+    const keys = hashKey.split(",", MAX_MARKER_KEYS + 1);
+    if (keys.length > MAX_MARKER_KEYS || !keys.every((key) => markerKeyTesters[type](key))) return null;
+
+    // a list of keys is modified when any of them is, and unknown if any of them is
+    const dates = await Promise.all(keys.map((key) => QueryCacher.getLastModifiedMarker(type, key)));
+    if (dates.includes(null)) return null;
+    return new Date(Math.max(...dates.map((date) => date.getTime())));
 }
 
 function getLastModified(hashType: hashType, hashKey: hashKey, service: Service): Promise<Date | null> {
+    if (hashType in markerKeyTesters) {
+        return getMarkerLastModified(hashType as LastModifiedType, hashKey);
+    }
+
     let redisKey: string | null;
     if (hashType === "skipSegments") redisKey = skipSegmentsKey(hashKey as VideoID, service);
     else if (hashType === "skipSegmentsHash") redisKey = skipSegmentsHashKey(hashKey as VideoIDHash, service);
@@ -38,6 +68,7 @@ function getLastModified(hashType: hashType, hashKey: hashKey, service: Service)
 
 export async function getEtag(hashType: hashType, hashKey: hashKey, service: Service): Promise<ETag> {
     const lastModified = await getLastModified(hashType, hashKey, service);
+    if (!lastModified) throw new Error("ETag - last modified is unknown");
     return `"${hashType};${hashKey};${service};${lastModified.getTime()}"` as ETag;
 }
 
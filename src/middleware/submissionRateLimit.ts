@@ -0,0 +1,71 @@
+import { Request, RequestHandler, Response } from "express";
+import { submissionRateLimitKey } from "../service/redis/redisKeys";
+import { createSlidingWindowStore, SlidingWindowResult } from "../service/slidingWindowStore";
+import { isUserVIP } from "../service/VIPUserService";
+import { SubmissionRateLimitConfig } from "../types/config.model";
+import { UserID } from "../types/user.model";
+import { getHash, getHashCache } from "../utils/HashCacheUtil";
+import { getIP } from "../utils/getIP";
+import { Logger } from "../utils/logger";
+
+const store = createSlidingWindowStore();
+
+function setRateLimitHeaders(res: Response, max: number, result: SlidingWindowResult): void {
+    res.setHeader("RateLimit-Limit", max);
+    res.setHeader("RateLimit-Remaining", Math.max(max - result.count, 0));
+    res.setHeader("RateLimit-Reset", Math.max(Math.ceil(result.resetMs / 1000), 0));
+}
+
+export function getSubmissionUserID(req: Request): UserID {
+    return (req.query.userID || req.body?.userID) as UserID;
+}
+
+/**
+ * Limit submissions per hashed user ID and per hashed IP, each with its own sliding window per route.
+ * VIPs are not limited, headers describe the limit closest to being reached.
+ */
+export function submissionRateLimitMiddleware(
+    route: string,
+    limitConfig: SubmissionRateLimitConfig,
+    getUserID: (req: Request) => UserID
+): RequestHandler {
+    // eslint-disable-next-line @typescript-eslint/no-misused-promises
+    return async (req, res, next) => {
+        let blocked = false;
+        try {
+            const paramUserID = getUserID(req);
+            const userID = typeof paramUserID === "string" && paramUserID ? await getHashCache(paramUserID) : null;
+            if (userID && (await isUserVIP(userID))) {
+                return next();
+            }
+
+            const limits: [number, string][] = [
+                [limitConfig.ipMax, submissionRateLimitKey(route, "ip", getHash(getIP(req), 1))],
+                [limitConfig.userMax, userID ? submissionRateLimitKey(route, "user", userID) : null],
+            ];
+            let closest: [number, SlidingWindowResult] = null;
+            for (const [max, key] of limits.filter(([max, key]) => max > 0 && key)) {
+                const result = await store.hit(key, limitConfig.windowMs, max);
+                if (!closest || max - result.count < closest[0] - closest[1].count) {
+                    closest = [max, result];
+                }
+                if (!result.allowed) {
+                    closest = [max, result];
+                    blocked = true;
+                    break;
+                }
+            }
+
+            if (closest) {
+                setRateLimitHeaders(res, ...closest);
+            }
+            if (blocked) {
+                res.setHeader("Retry-After", Math.max(Math.ceil(closest[1].resetMs / 1000), 0));
+                return res.status(limitConfig.statusCode).send(limitConfig.message);
+            }
+        } catch (e) {
+            Logger.error(`Submission rate limit error: ${e}`);
+        }
+        return next();
+    };
+}
@@ -0,0 +1,67 @@
+import { NextFunction, Request, Response } from "express";
+import { getCidByPage } from "../dao/videoInfo";
+import { getBangumiEpisode } from "../service/api/getBangumiDetails";
+import * as bangumiID from "../service/validate/bangumiID";
+import { parseVideoID, validate } from "../service/validate/bilibiliID";
+import { Service } from "../types/segments.model";
+import { getService } from "../utils/getService";
+import { Logger } from "../utils/logger";
+
+type Params = Record<string, unknown>;
+
+async function normalizeVideoID(params: Params, field: "videoID" | "bvID"): Promise<void> {
+    const value = params?.[field];
+    if (typeof value !== "string" || validate(value)) {
+        return;
+    }
+    const parsed = parseVideoID(value);
+    if (!parsed) {
+        return;
+    }
+
+    params[field] = parsed.bvID;
+    if (parsed.page && !params.cid) {
+        const cid = await getCidByPage(parsed.bvID, parsed.page);
+        if (cid) params.cid = cid;
+    }
+}
+
+async function normalizeBangumiID(params: Params): Promise<void> {
+    const value = params?.videoID;
+    if (typeof value !== "string" || bangumiID.validate(value)) {
+        return;
+    }
+    const parsed = bangumiID.parseBangumiID(value);
+    if (!parsed) {
+        return;
+    }
+
+    if ("seasonID" in parsed) {
+        params.videoID = parsed.seasonID;
+        return;
+    }
+    const episode = await getBangumiEpisode(parsed.episodeID);
+    if (episode) {
+        params.videoID = episode.seasonID;
+        if (!params.cid) params.cid = episode.cid;
+    }
+}
+
+/**
+ * Rewrite av numbers and video links in `videoID` and `bvID` parameters to BV IDs, so that routes only see BV IDs.
+ * A `?p=` page in a link selects the cid, if the video is known.
+ * For bangumi, episode IDs and links are rewritten to season IDs, and the episode selects the cid.
+ */
+export function videoIDMiddleware(req: Request, res: Response, next: NextFunction): void {
+    const containers: Params[] = [req.query, req.body, ...(Array.isArray(req.body?.videos) ? req.body.videos : [])];
+    const isBangumi = getService(req.query?.service as string, req.body?.service) === Service.Bangumi;
+    Promise.all(
+        containers
+            .filter((params) => params && typeof params === "object")
+            .flatMap((params) =>
+                isBangumi ? [normalizeBangumiID(params)] : [normalizeVideoID(params, "videoID"), normalizeVideoID(params, "bvID")]
+            )
+    )
+        .catch((e) => Logger.error(`Failed to normalize video ID: ${e}`))
+        .finally(() => next());
+}
@@ -5,6 +5,7 @@ import { Request, Response } from "express";
 import { HashedUserID } from "../types/user.model";
 import { Logger } from "../utils/logger";
 import { isUserVIP } from "../service/VIPUserService";
+import { QueryCacher } from "../utils/queryCacher";
 
 interface AddUserAsVIPRequest extends Request {
     query: {
@@ -45,6 +46,7 @@ export async function addUserAsVIP(req: AddUserAsVIPRequest, res: Response): Pro
             //remove them from the shadow ban list
             await db.prepare("run", 'DELETE FROM "vipUsers" WHERE "userID" = ?', [userID]);
         }
+        QueryCacher.touchLastModified("userInfo", userID);
 
         return res.sendStatus(200);
     } catch (e) {
@@ -1,5 +1,5 @@
 import { Request, Response } from "express";
-import { getHashCache } from "../utils/HashCacheUtil";
+import { getHash, getHashCache } from "../utils/HashCacheUtil";
 import { db } from "../databases/databases";
 import { ActionType, Category, Service, VideoID } from "../types/segments.model";
 import { UserID } from "../types/user.model";
@@ -7,6 +7,7 @@ import { getService } from "../utils/getService";
 import { config } from "../config";
 import { Logger } from "../utils/logger";
 import { isUserVIP } from "../service/VIPUserService";
+import { QueryCacher } from "../utils/queryCacher";
 
 interface DeleteLockCategoriesRequest extends Request {
     body: {
@@ -73,4 +74,5 @@ export async function deleteLockCategories(videoID: VideoID, categories: Categor
     const actionTypeString = arrJoin(actionTypes.filter((v) => !/[^a-z|_|-]/.test(v)));
 
     await db.prepare("run", `DELETE FROM "lockCategories" WHERE "videoID" = ? AND "service" = ? AND "category" IN (${categoryString}) AND "actionType" IN (${actionTypeString})`, [videoID, service]);
+    QueryCacher.touchLastModified("lockCategoriesHash", getHash(videoID, 1));
 }
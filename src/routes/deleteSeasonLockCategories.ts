@@ -0,0 +1,45 @@
+import { Request, Response } from "express";
+import { config } from "../config";
+import { deleteSeasonLockCategories as deleteSeasonLockCategoriesFromDB } from "../dao/season";
+import { resolveSeasonID } from "../service/seasonService";
+import { isUserVIP } from "../service/VIPUserService";
+import { ActionType, Category } from "../types/segments.model";
+import { UserID } from "../types/user.model";
+import { getHashCache } from "../utils/HashCacheUtil";
+import { Logger } from "../utils/logger";
+
+export async function deleteSeasonLockCategories(req: Request, res: Response): Promise<Response> {
+    const paramUserID = req.body.userID as UserID;
+    const categories = (req.body.categories as Category[]) ?? (config.categoryList as Category[]);
+    const actionTypes = (req.body.actionTypes as ActionType[]) ?? [ActionType.Skip, ActionType.Mute];
+
+    if (
+        typeof paramUserID !== "string" ||
+        !paramUserID ||
+        (!req.body.seasonID && !req.body.videoID) ||
+        !Array.isArray(categories) ||
+        categories.length === 0 ||
+        !Array.isArray(actionTypes) ||
+        actionTypes.length === 0
+    ) {
+        return res.status(400).json({ message: "Bad Format" });
+    }
+
+    const userID = await getHashCache(paramUserID);
+    if (!(await isUserVIP(userID))) {
+        return res.status(403).json({ message: "Must be a VIP to lock videos." });
+    }
+
+    try {
+        const seasonID = await resolveSeasonID(req.body.seasonID, req.body.videoID);
+        if (!seasonID) {
+            return res.status(404).json({ message: "Video is not in a season" });
+        }
+
+        await deleteSeasonLockCategoriesFromDB(seasonID, categories, actionTypes);
+        return res.json({ message: `Removed lock categories entries for season ${seasonID}` });
+    } catch (e) {
+        Logger.error(e as string);
+        return res.sendStatus(500);
+    }
+}
@@ -0,0 +1,37 @@
+import { Request, Response } from "express";
+import { getSegmentTemplateByUUID, hideSegmentTemplate } from "../dao/season";
+import { isUserVIP } from "../service/VIPUserService";
+import { SegmentTemplateUUID } from "../types/season.model";
+import { UserID } from "../types/user.model";
+import { getHashCache } from "../utils/HashCacheUtil";
+import { Logger } from "../utils/logger";
+
+/**
+ * remove a segment template, the segments created from it are hidden
+ */
+export async function deleteSegmentTemplate(req: Request, res: Response): Promise<Response> {
+    const paramUserID = req.body.userID as UserID;
+    const UUID = req.body.UUID as SegmentTemplateUUID;
+
+    if (typeof paramUserID !== "string" || !paramUserID || typeof UUID !== "string" || !UUID) {
+        return res.status(400).json({ message: "Bad Format" });
+    }
+
+    const userID = await getHashCache(paramUserID);
+    if (!(await isUserVIP(userID))) {
+        return res.status(403).json({ message: "Not a VIP" });
+    }
+
+    try {
+        const template = await getSegmentTemplateByUUID(UUID);
+        if (!template || template.hidden) {
+            return res.sendStatus(404);
+        }
+
+        await hideSegmentTemplate(UUID);
+        return res.json({ message: `Removed segment template ${UUID} of season ${template.seasonID}` });
+    } catch (e) {
+        Logger.error(e as string);
+        return res.sendStatus(500);
+    }
+}
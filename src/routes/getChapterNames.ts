@@ -0,0 +1,58 @@
+import { Request, Response } from "express";
+import { db } from "../databases/databases";
+import { Postgres } from "../databases/Postgres";
+import { Logger } from "../utils/logger";
+
+const MAX_RESULTS = 5;
+
+/**
+ * Suggest chapter names used on videos of the same channel, for autocompletion.
+ * Postgres ranks names by pg_trgm similarity to the query, SQLite only returns names containing it.
+ */
+export async function getChapterNames(req: Request, res: Response): Promise<Response> {
+    const description = req.query.description as string;
+    const channelID = req.query.channelID as string;
+
+    if (!description || typeof description !== "string" || !channelID || typeof channelID !== "string") {
+        return res.sendStatus(400);
+    }
+
+    // only upvoted or locked chapters that everyone can see
+    const filter = `("locked" = 1 OR "votes" >= 0) AND "hidden" = 0 AND "shadowHidden" = 0
+        AND "actionType" = 'chapter' AND "description" != ''
+        AND "videoID" IN (SELECT "videoID" FROM "videoInfo" WHERE "channelID" = ?)`;
+
+    try {
+        let descriptions: { description: string }[];
+        if (db instanceof Postgres) {
+            descriptions = await db.prepare(
+                "all",
+                `SELECT "description" FROM "sponsorTimes" WHERE ${filter}
+                GROUP BY "description"
+                ORDER BY similarity("description", ?) DESC, SUM("votes") DESC, COUNT(*) DESC
+                LIMIT ?`,
+                [channelID, description, MAX_RESULTS],
+                { useReplica: true }
+            );
+        } else {
+            descriptions = await db.prepare(
+                "all",
+                `SELECT "description" FROM "sponsorTimes" WHERE ${filter} AND "description" LIKE ? ESCAPE '\\'
+                GROUP BY "description"
+                ORDER BY COUNT(*) DESC, SUM("votes") DESC
+                LIMIT ?`,
+                [channelID, `%${description.replace(/[\\%_]/g, "\\$&")}%`, MAX_RESULTS],
+                { useReplica: true }
+            );
+        }
+
+        if (descriptions?.length > 0) {
+            return res.json(descriptions.map((d) => ({ description: d.description })));
+        }
+    } catch (e) {
+        Logger.error(e as string);
+        return res.sendStatus(500);
+    }
+
+    return res.status(404).json([]);
+}
@@ -4,7 +4,7 @@ import { Logger } from "../utils/logger";
 
 export async function getDaysSavedFormatted(req: Request, res: Response): Promise<Response> {
     try {
-        const row = await db.prepare("get", 'SELECT SUM(("endTime" - "startTime") / 60 / 60 / 24 * "views") as "daysSaved" from "sponsorTimes" where "shadowHidden" != 1', []);
+        const row = await db.prepare("get", 'SELECT SUM(("endTime" - "startTime") / 60 / 60 / 24 * "views") as "daysSaved" from "sponsorTimes" where "shadowHidden" = 0', []);
 
         if (row !== undefined) {
             //send this result
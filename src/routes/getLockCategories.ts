@@ -1,9 +1,11 @@
 import { db } from "../databases/databases";
 import { Logger } from "../utils/logger";
 import { Request, Response } from "express";
-import { ActionType, Category, VideoID } from "../types/segments.model";
+import { ActionType, Category, Service, VideoID } from "../types/segments.model";
 import { getService } from "../utils/getService";
 import { parseActionTypes } from "../utils/parseParams";
+import { getSeasonLockCategories } from "../dao/season";
+import { getSeasonIDByVideoID } from "../dao/videoInfo";
 
 export async function getLockCategories(req: Request, res: Response): Promise<Response> {
     const videoID = req.query.videoID as VideoID;
@@ -15,7 +17,10 @@ export async function getLockCategories(req: Request, res: Response): Promise<Re
     }
     try {
         // Get existing lock categories markers
-        const row = await db.prepare("all", 'SELECT "category", "reason", "actionType" from "lockCategories" where "videoID" = ? AND "service" = ?', [videoID, service]) as {category: Category, reason: string, actionType: ActionType}[];
+        const videoLocks = await db.prepare("all", 'SELECT "category", "reason", "actionType" from "lockCategories" where "videoID" = ? AND "service" = ?', [videoID, service]) as {category: Category, reason: string, actionType: ActionType}[];
+        // locks of the season the video belongs to apply as well
+        const seasonID = service === Service.YouTube ? await getSeasonIDByVideoID(videoID) : null;
+        const row = seasonID ? [...videoLocks, ...await getSeasonLockCategories(seasonID)] : videoLocks;
         const actionTypeMatches = row.filter((lock) => actionTypes.includes(lock.actionType));
         // map categories to array in JS becaues of SQL incompatibilities
         const categories = actionTypeMatches.map(item => item.category);
@@ -2,8 +2,11 @@ import { db } from "../databases/databases";
 import { Logger } from "../utils/logger";
 import { Request, Response } from "express";
 import { hashPrefixTester } from "../utils/hashPrefixTester";
-import { ActionType, Category, VideoID, VideoIDHash } from "../types/segments.model";
+import { ActionType, Category, Service, VideoID, VideoIDHash } from "../types/segments.model";
 import { parseActionTypes } from "../utils/parseParams";
+import { getEtag } from "../middleware/etag";
+import { getService } from "../utils/getService";
+import { getSeasonLockCategoriesByHashPrefix } from "../dao/season";
 
 interface LockResultByHash {
     videoID: VideoID,
@@ -29,8 +32,8 @@ const mergeLocks = (source: DBLock[], actionTypes: ActionType[]): LockResultByHa
             // override longer reason
             const destMatch = dest[obj.videoID];
             if (obj.reason?.length > destMatch.reason?.length) destMatch.reason = obj.reason;
-            // push to categories
-            destMatch.categories.push(obj.category);
+            // push to categories, a category can be locked for both the video and its season
+            if (!destMatch.categories.includes(obj.category)) destMatch.categories.push(obj.category);
         } else {
             dest[obj.videoID] = {
                 videoID: obj.videoID,
@@ -45,6 +48,7 @@ const mergeLocks = (source: DBLock[], actionTypes: ActionType[]): LockResultByHa
 
 export async function getLockCategoriesByHash(req: Request, res: Response): Promise<Response> {
     let hashPrefix = req.params.prefix as VideoIDHash;
+    const service = getService(req.query.service as string);
     const actionTypes: ActionType[] = parseActionTypes(req, [ActionType.Skip, ActionType.Mute]);
     if (!Array.isArray(actionTypes)) {
         //invalid request
@@ -57,10 +61,15 @@ export async function getLockCategoriesByHash(req: Request, res: Response): Prom
     hashPrefix = hashPrefix.toLowerCase() as VideoIDHash;
 
     try {
+        const etag = await getEtag("lockCategoriesHash", hashPrefix, service).catch((): string => null);
         // Get existing lock categories markers
-        const lockedRows = await db.prepare("all", 'SELECT "videoID", "hashedVideoID" as "hash", "category", "reason", "actionType" from "lockCategories" where "hashedVideoID" LIKE ?', [`${hashPrefix}%`]) as DBLock[];
+        const videoLockedRows = await db.prepare("all", 'SELECT "videoID", "hashedVideoID" as "hash", "category", "reason", "actionType" from "lockCategories" where "hashedVideoID" LIKE ? AND "service" = ?', [`${hashPrefix}%`, service]) as DBLock[];
+        // locks of the seasons the videos belong to apply as well
+        const seasonLockedRows: DBLock[] = service === Service.YouTube ? await getSeasonLockCategoriesByHashPrefix(hashPrefix) : [];
+        const lockedRows = [...videoLockedRows, ...seasonLockedRows];
         if (lockedRows.length === 0 || !lockedRows[0]) return res.sendStatus(404);
         // merge all locks
+        if (etag) res.set("ETag", etag);
         return res.send(mergeLocks(lockedRows, actionTypes));
     } catch (err) /* istanbul ignore next */ {
         Logger.error(err as string);
@@ -0,0 +1,51 @@
+import { Request, Response } from "express";
+import { countPendingSegments, getPendingSegments } from "../dao/moderationQueue";
+import { isUserVIP } from "../service/VIPUserService";
+import { VideoID } from "../types/segments.model";
+import { UserID } from "../types/user.model";
+import { getHashCache } from "../utils/HashCacheUtil";
+import { Logger } from "../utils/logger";
+
+const MAX_LIMIT = 100;
+
+/**
+ * List the segments waiting in the moderation queue, oldest first. VIP only.
+ */
+export async function getModerationQueue(req: Request, res: Response): Promise<Response> {
+    const paramUserID = req.query.userID as UserID;
+    const videoID = (req.query.videoID as VideoID) || null;
+    const limit = Math.min(parseInt(req.query.limit as string) || MAX_LIMIT, MAX_LIMIT);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+    if (typeof paramUserID !== "string" || !paramUserID || (videoID !== null && typeof videoID !== "string")) {
+        return res.status(400).json({ message: "Bad Format" });
+    }
+    if (!(await isUserVIP(await getHashCache(paramUserID)))) {
+        return res.status(403).json({ message: "Not a VIP" });
+    }
+
+    try {
+        const [segments, total] = await Promise.all([getPendingSegments(videoID, limit, offset), countPendingSegments(videoID)]);
+        return res.json({
+            total,
+            segments: segments.map((s) => ({
+                UUID: s.UUID,
+                videoID: s.videoID,
+                cid: s.cid,
+                category: s.category,
+                actionType: s.actionType,
+                segment: [s.startTime, s.endTime],
+                videoDuration: s.videoDuration,
+                description: s.description,
+                votes: s.votes,
+                userID: s.userID,
+                reputation: s.reputation,
+                reason: s.reason,
+                timeSubmitted: s.timeSubmitted,
+            })),
+        });
+    } catch (e) {
+        Logger.error(e as string);
+        return res.sendStatus(500);
+    }
+}
@@ -2,21 +2,39 @@ import { Request, Response } from "express";
 import {
     getPortVideoByBvIDCached,
     getPortVideoByHashPrefixCached,
+    getPortVideoByYtbHashPrefixCached,
+    getPortVideoByYtbIDCached,
     getPortVideoDBByUUID,
     hidePortVideoByUUID,
+    updatePortVideoSyncStatus,
 } from "../dao/portVideo";
-import { createSegmentsFromYTB, getSegmentsFromDBByVideoID, hideSegmentsByUUID, saveNewSegments, updateVotes } from "../dao/skipSegment";
+import {
+    applyCategoryFilter,
+    createSegmentsFromYTB,
+    getSegmentsFromDBByVideoID,
+    hideSegmentsByUUID,
+    saveNewSegments,
+    updateSegmentTimes,
+    updateVotes,
+} from "../dao/skipSegment";
 import { getVideoDetails } from "../service/api/getVideoDetails";
+import { getEtag } from "../middleware/etag";
 import { getYoutubeSegments } from "../service/api/sponsorBlockApi";
 import { YouTubeAPI } from "../service/api/youtubeApi";
+import { sortByConflictPolicy } from "../service/portConflictService";
 import { acquireLock } from "../service/redis/redisLock";
 import { validate } from "../service/validate/bilibiliID";
+import * as youtubeID from "../service/validate/youtubeID";
+import { validateCid } from "../service/validate/validator";
 import { HashedValue } from "../types/hash.model";
-import { PortVideo, PortVideoDB, PortVideoInterface, portVideoUUID } from "../types/portVideo.model";
+import { PortConflictCandidate, PortHistoryReason, PortSyncResult, PortVideo, PortVideoDB, PortVideoInterface, portVideoUUID } from "../types/portVideo.model";
 import { DBSegment, Service, VideoDuration, VideoID } from "../types/segments.model";
 import { average } from "../utils/array";
-import { durationEquals, durationsAllEqual } from "../utils/durationUtil";
+import { durationEquals, portDurationEquals } from "../utils/durationUtil";
+import { hashPrefixTester } from "../utils/hashPrefixTester";
 import { Logger } from "../utils/logger";
+import { getPortCategoryFilter } from "../utils/portCategoryFilter";
+import { alignYoutubeSegments } from "../utils/segmentOffset";
 
 export async function updatePortedSegments(req: Request, res: Response) {
     const bvid = req.body.videoID as VideoID;
@@ -34,7 +52,7 @@ export async function updatePortedSegments(req: Request, res: Response) {
     }
 
     // do not release lock, but wait 1h for the lock to expire
-    const lock = await acquireLock(`updatePortSegment:${bvid}`, 1000 * 60 * 60);
+    const lock = await acquireLock(`updatePortSegment:${bvid}.${portVideoRecord[0].cid}`, 1000 * 60 * 60);
     if (!lock.status) {
         return res.status(429).send("已经有人刷新过啦，每小时只能刷新一次！");
     }
@@ -43,11 +61,33 @@ export async function updatePortedSegments(req: Request, res: Response) {
     return res.sendStatus(200);
 }
 
-export async function updateSegmentsFromSB(portVideo: PortVideoDB) {
+/**
+ * Sync ported segments of a port video record with the upstream SponsorBlock server,
+ * the result is saved with the record so that outdated records can be found
+ */
+export async function updateSegmentsFromSB(portVideo: PortVideoDB): Promise<PortSyncResult> {
+    let result: PortSyncResult;
+    let errorMessage: string = null;
+    try {
+        result = await syncSegmentsFromSB(portVideo);
+    } catch (e) {
+        Logger.error(`Failed to update ported segments for ${portVideo.bvID}: ${e}`);
+        result = PortSyncResult.Error;
+        errorMessage = `${e}`;
+    }
+
+    await updatePortVideoSyncStatus(portVideo.UUID, result, errorMessage);
+    return result;
+}
+
+async function syncSegmentsFromSB(portVideo: PortVideoDB): Promise<PortSyncResult> {
     const bvID = portVideo.bvID;
     const cid = portVideo.cid;
     const ytbID = portVideo.ytbID;
     const [ytbSegments, biliVideoDetail] = await Promise.all([getYoutubeSegments(ytbID), getVideoDetails(bvID, true)]);
+    if (ytbSegments === null) {
+        return PortSyncResult.UpstreamFailed;
+    }
     // get ytb video duration
     let apiYtbDuration = 0 as VideoDuration;
     if (ytbSegments && ytbSegments.length > 0) {
@@ -59,40 +99,39 @@ export async function updateSegmentsFromSB(portVideo: PortVideoDB) {
     }
     // video duration check
     const dbBiliDuration = portVideo.biliDuration;
-    const dbYtbDuration = portVideo.biliDuration;
-    // we need all four durations to match to proceed
+    const dbYtbDuration = portVideo.ytbDuration;
+    // we need all four durations to match, considering the time offset, to proceed
     if (!apiYtbDuration) {
         // if no youtube duration is provided, dont't do anything
-        return;
+        return PortSyncResult.UpstreamFailed;
     }
     const apiBiliDuration = biliVideoDetail?.page.filter((p) => p.cid == cid)[0]?.duration as VideoDuration;
     if (!apiBiliDuration) {
         // if no bili duration is found, dont't do anything
-        return;
+        return PortSyncResult.UpstreamFailed;
     }
 
-    // get all port segments
-    const allDBSegments = await getSegmentsFromDBByVideoID(bvID, Service.YouTube);
+    // get all port segments of this part
+    const allDBSegments = (await getSegmentsFromDBByVideoID(bvID, Service.YouTube)).filter((s) => s.cid == cid);
     const portedSegments = allDBSegments.filter((s) => s.portUUID === portVideo.UUID);
     const existingYoutubeSegmentUUIDs = new Set(portedSegments.map((s) => s.ytbSegmentUUID));
     const ytbSegmentsMap = new Map(ytbSegments.map((s) => [s.UUID, s]));
 
     if (!durationEquals(dbBiliDuration, apiBiliDuration)) {
-        // invalidate all segmetns, including the user submitted ones
+        // invalidate all segmetns of this part, including the user submitted ones
         await hideSegmentsByUUID(
             allDBSegments.map((s) => s.UUID),
             bvID
         );
-        return;
+        return PortSyncResult.Hidden;
     }
-    if (!durationsAllEqual([dbBiliDuration, apiBiliDuration, dbYtbDuration, apiYtbDuration])) {
+    if (
+        !durationEquals(dbYtbDuration, apiYtbDuration) ||
+        !portDurationEquals(apiBiliDuration, apiYtbDuration, portVideo.timeOffset, portVideo.trimEnd)
+    ) {
         // invalidate all ported segmetns, and port video record
-        await hideSegmentsByUUID(
-            portedSegments.map((s) => s.UUID),
-            bvID
-        );
-        await hidePortVideoByUUID(portVideo.UUID, bvID);
-        return;
+        await hidePortVideoByUUID(portVideo, PortHistoryReason.Outdated);
+        return PortSyncResult.Hidden;
     }
 
     // request removed segments again to ensure that they are removed
@@ -103,6 +142,9 @@ export async function updateSegmentsFromSB(portVideo: PortVideoDB) {
         const removedUUID = removedSegments.map((s) => s.ytbSegmentUUID);
         await new Promise((resolve) => setTimeout(resolve, 1000));
         const reAquiredSegments = await getYoutubeSegments(ytbID, removedUUID);
+        if (reAquiredSegments === null) {
+            return PortSyncResult.UpstreamFailed;
+        }
         reAquiredSegments.forEach((s) => ytbSegmentsMap.set(s.UUID, s));
     }
 
@@ -111,18 +153,34 @@ export async function updateSegmentsFromSB(portVideo: PortVideoDB) {
     const allYtbSegments = [...ytbSegmentsMap.values()];
 
     // new and update and to be removed segments
-    const truelyRemovedSegments = portedSegments.filter((s) => !ytbSegmentsMap.has(s.ytbSegmentUUID));
     const newSegments = allYtbSegments.filter((s) => !existingYoutubeSegmentUUIDs.has(s.UUID));
-    const updatingSegments = portedSegments.filter((s) => ytbSegmentsMap.has(s.ytbSegmentUUID));
 
-    // update votes for existing segments
+    // the stored times may predate the offset of the record, so the kept segments are aligned again,
+    // the ones that fall outside of the Bilibili video are removed
+    const alignedTimes = new Map(
+        alignYoutubeSegments(
+            portedSegments.filter((s) => ytbSegmentsMap.has(s.ytbSegmentUUID)).map((s) => ytbSegmentsMap.get(s.ytbSegmentUUID)),
+            portVideo.timeOffset,
+            apiBiliDuration
+        ).map((s) => [s.UUID, s.segment])
+    );
+    const truelyRemovedSegments = portedSegments.filter((s) => !alignedTimes.has(s.ytbSegmentUUID));
+    const updatingSegments = portedSegments.filter((s) => alignedTimes.has(s.ytbSegmentUUID));
+    const misalignedSegments = updatingSegments.filter((s) => {
+        const [startTime, endTime] = alignedTimes.get(s.ytbSegmentUUID);
+        return s.startTime !== startTime || s.endTime !== endTime;
+    });
+
+    // update votes and times for existing segments
     updatingSegments.forEach((s) => {
         s.videoID = bvID;
         s.votes = ytbSegmentsMap.get(s.ytbSegmentUUID).votes;
+        [s.startTime, s.endTime] = alignedTimes.get(s.ytbSegmentUUID);
     });
 
-    // crate new segments
+    // crate new segments, only in the categories chosen for this port video
     const timeSubmitted = Date.now();
+    const categoryFilter = getPortCategoryFilter(portVideo);
 
     const saveSegment: DBSegment[] = createSegmentsFromYTB(
         newSegments,
@@ -132,7 +190,10 @@ export async function updateSegmentsFromSB(portVideo: PortVideoDB) {
         timeSubmitted,
         0, // PORT segment does not have reputation
         portVideo.userAgent,
-        portVideo.UUID
+        portVideo.UUID,
+        portVideo.timeOffset,
+        apiBiliDuration,
+        categoryFilter
     );
 
     // db operations
@@ -147,37 +208,72 @@ export async function updateSegmentsFromSB(portVideo: PortVideoDB) {
 
     Logger.info(`update segments: ${updatingSegments.map((s) => s.UUID)}`);
     await updateVotes(updatingSegments);
+    Logger.info(`re-aligned segments: ${misalignedSegments.map((s) => s.UUID)}`);
+    await updateSegmentTimes(misalignedSegments);
+    await applyCategoryFilter(updatingSegments, categoryFilter, bvID);
+    return PortSyncResult.Updated;
 }
 
 export async function getPortVideo(req: Request, res: Response): Promise<Response> {
     const bvID = req.query.videoID as VideoID;
+    const cid = req.query.cid as string;
+    const allParts = req.query.allParts === "true";
 
     // validate parameters
     if (!validate(bvID)) {
         return res.status(400).send("无效BV号");
     }
+    if (!validateCid(cid).pass) {
+        return res.status(400).send("无效cid");
+    }
 
+    // read the last modified marker before the data, so that a change in between is not hidden behind the ETag
+    const etag = await getEtag("portVideo", bvID, Service.YouTube).catch((): string => null);
     // get cached data from redis
-    const portVideoInfo: PortVideo[] = await getPortVideoByBvIDCached(bvID);
+    const portVideoInfo: PortVideo[] = (await getPortVideoByBvIDCached(bvID)).filter((p) => !cid || p.cid == cid);
 
     if (!portVideoInfo || portVideoInfo.length == 0) {
         return res.sendStatus(404);
-    } else if (portVideoInfo.length >= 2) {
-        // multiple found
-        // TODO: mark the highes vote or latest as the only valid record
-        Logger.error(`Multiple port video matches found for ${bvID}`);
     }
 
-    const portVideo = portVideoInfo[0];
+    const portVideos = groupPortVideoByCid(portVideoInfo);
+    if (etag) res.set("ETag", etag);
+    // the list of all parts is only returned on request, a single record otherwise
+    return res.json(allParts && !cid ? portVideos : portVideos[0]);
+}
+
+/**
+ * keep only one port video record for each part of a video,
+ * conflicts are left for submissions, votes and the repair job to resolve
+ */
+function groupPortVideoByCid<T extends PortConflictCandidate>(portVideos: T[]): PortVideoInterface[] {
+    const groupMap = new Map<string, T[]>();
+    for (const portVideo of portVideos) {
+        const key = `${portVideo.bvID},${portVideo.cid}`;
+        if (!groupMap.has(key)) {
+            groupMap.set(key, []);
+        }
+        groupMap.get(key).push(portVideo);
+    }
+
+    const portVideoMap = new Map<string, T>();
+    for (const [key, group] of groupMap) {
+        if (group.length > 1) {
+            Logger.error(`Multiple port video matches found for ${group[0].bvID}, cid: ${group[0].cid}`);
+        }
+        portVideoMap.set(key, sortByConflictPolicy(group)[0]);
+    }
 
-    return res.json({
+    return [...portVideoMap.values()].map((portVideo) => ({
         bvID: portVideo.bvID,
         cid: portVideo.cid,
         ytbID: portVideo.ytbID,
         UUID: portVideo.UUID,
         votes: portVideo.votes,
         locked: portVideo.locked,
-    } as PortVideoInterface);
+        timeOffset: portVideo.timeOffset,
+        trimEnd: portVideo.trimEnd,
+    }));
 }
 
 export async function getPortVideoByHash(req: Request, res: Response): Promise<Response> {
@@ -188,11 +284,45 @@ export async function getPortVideoByHash(req: Request, res: Response): Promise<R
         return res.status(400).send("无效参数");
     }
 
+    const etag = await getEtag("portVideoHash", hashPrefix, Service.YouTube).catch((): string => null);
     // get data and cache in redis
-    const portVideoInfo: PortVideoInterface[] = await getPortVideoByHashPrefixCached(hashPrefix);
+    const portVideoInfo: PortConflictCandidate[] = await getPortVideoByHashPrefixCached(hashPrefix);
+
+    if (!portVideoInfo || portVideoInfo.length == 0) {
+        return res.sendStatus(404);
+    }
+    if (etag) res.set("ETag", etag);
+    return res.json(groupPortVideoByCid(portVideoInfo));
+}
+
+export async function getPortVideoByYtbID(req: Request, res: Response): Promise<Response> {
+    const ytbID = req.params.ytbID as VideoID;
+
+    // validate parameters
+    if (!youtubeID.validate(ytbID)) {
+        return res.status(400).send("无效YouTube视频ID");
+    }
+
+    const portVideoInfo: PortConflictCandidate[] = await getPortVideoByYtbIDCached(ytbID);
+
+    if (!portVideoInfo || portVideoInfo.length == 0) {
+        return res.sendStatus(404);
+    }
+    return res.json(groupPortVideoByCid(portVideoInfo));
+}
+
+export async function getPortVideoByYtbHash(req: Request, res: Response): Promise<Response> {
+    const hashPrefix = req.params.prefix as HashedValue;
+
+    // validate parameters
+    if (!hashPrefix || !hashPrefixTester(hashPrefix)) {
+        return res.status(400).send("无效参数");
+    }
+
+    const portVideoInfo: PortConflictCandidate[] = await getPortVideoByYtbHashPrefixCached(hashPrefix.toLowerCase());
 
     if (!portVideoInfo || portVideoInfo.length == 0) {
         return res.sendStatus(404);
     }
-    return res.json(portVideoInfo);
+    return res.json(groupPortVideoByCid(portVideoInfo));
 }
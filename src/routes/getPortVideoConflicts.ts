@@ -0,0 +1,32 @@
+import { Request, Response } from "express";
+import { getPortVideoConflicts as getPortVideoConflictsFromDB } from "../dao/portVideo";
+import { isUserVIP } from "../service/VIPUserService";
+import { validate } from "../service/validate/bilibiliID";
+import { VideoID } from "../types/segments.model";
+import { HashedUserID, UserID } from "../types/user.model";
+import { getHashCache } from "../utils/HashCacheUtil";
+import { Logger } from "../utils/logger";
+
+export async function getPortVideoConflicts(req: Request, res: Response): Promise<Response> {
+    const bvID = req.query.videoID as VideoID;
+    const userID = req.query.userID as UserID;
+
+    if (!validate(bvID)) {
+        return res.status(400).send("无效BV号");
+    }
+    if (typeof userID !== "string") {
+        return res.status(400).send("缺少参数");
+    }
+
+    const hashedUserID: HashedUserID = await getHashCache(userID);
+    if (!(await isUserVIP(hashedUserID))) {
+        return res.status(403).send("只有VIP用户可以查看");
+    }
+
+    try {
+        return res.json(await getPortVideoConflictsFromDB(bvID));
+    } catch (e) {
+        Logger.error(e as string);
+        return res.sendStatus(500);
+    }
+}
@@ -0,0 +1,70 @@
+import { Request, Response } from "express";
+import { getAllPortVideoByBvID, getPortVideoHistory as getPortVideoHistoryFromDB, getPortVideoVotes } from "../dao/portVideo";
+import { isUserVIP } from "../service/VIPUserService";
+import { validate } from "../service/validate/bilibiliID";
+import { VideoID, VoteType } from "../types/segments.model";
+import { UserID } from "../types/user.model";
+import { getHashCache } from "../utils/HashCacheUtil";
+import { Logger } from "../utils/logger";
+
+/**
+ * Get every port video record ever submitted for a video, with hide and show history and vote counts.
+ * Hashed IPs are never returned, user IDs are only returned to VIPs.
+ */
+export async function getPortVideoHistory(req: Request, res: Response): Promise<Response> {
+    const bvID = req.query.videoID as VideoID;
+    const paramUserID = req.query.userID as UserID;
+
+    if (!validate(bvID)) {
+        return res.status(400).send("无效BV号");
+    }
+    const isVIP = typeof paramUserID === "string" && (await isUserVIP(await getHashCache(paramUserID)));
+
+    try {
+        const [portVideos, history, votes] = await Promise.all([
+            getAllPortVideoByBvID(bvID),
+            getPortVideoHistoryFromDB(bvID),
+            getPortVideoVotes(bvID),
+        ]);
+        if (portVideos.length == 0) {
+            return res.sendStatus(404);
+        }
+
+        return res.json(
+            portVideos.map((portVideo) => {
+                const portVotes = votes.filter((v) => v.UUID === portVideo.UUID);
+                return {
+                    bvID: portVideo.bvID,
+                    cid: portVideo.cid,
+                    ytbID: portVideo.ytbID,
+                    UUID: portVideo.UUID,
+                    votes: portVideo.votes,
+                    locked: !!portVideo.locked,
+                    hidden: portVideo.hidden,
+                    timeOffset: portVideo.timeOffset,
+                    trimEnd: portVideo.trimEnd,
+                    timeSubmitted: portVideo.timeSubmitted,
+                    userID: isVIP ? portVideo.userID : undefined,
+                    voteCount: {
+                        upvotes: portVotes.filter((v) => v.type == VoteType.Upvote).length,
+                        downvotes: portVotes.filter((v) => v.type == VoteType.Downvote).length,
+                        extraDownvotes: portVotes.filter((v) => v.type == VoteType.ExtraDownvote).length,
+                    },
+                    voters: isVIP ? portVotes.map((v) => ({ userID: v.userID, type: v.type, timeSubmitted: v.timeSubmitted })) : undefined,
+                    history: history
+                        .filter((h) => h.UUID === portVideo.UUID)
+                        .map((h) => ({
+                            action: h.action,
+                            reason: h.reason,
+                            timeSubmitted: h.timeSubmitted,
+                            affectedSegments: JSON.parse(h.affectedSegments || "[]"),
+                            userID: isVIP ? h.userID : undefined,
+                        })),
+                };
+            })
+        );
+    } catch (e) {
+        Logger.error(e as string);
+        return res.sendStatus(500);
+    }
+}
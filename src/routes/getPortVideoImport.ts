@@ -0,0 +1,50 @@
+import { Request, Response } from "express";
+import { formatPortImportReport, getPortVideoImportJob } from "../service/portVideoImportService";
+import { isUserVIP } from "../service/VIPUserService";
+import { PortImportJob } from "../types/portVideo.model";
+import { HashedUserID, UserID } from "../types/user.model";
+import { getHashCache } from "../utils/HashCacheUtil";
+import { Logger } from "../utils/logger";
+
+/**
+ * VIP only, get the progress and per-row report of a port video import job
+ */
+export async function getPortVideoImport(req: Request, res: Response): Promise<Response> {
+    const jobID = req.params.jobID;
+    const paramUserID = req.query.userID as UserID;
+
+    if (typeof paramUserID !== "string") {
+        return res.status(400).send("缺少参数");
+    }
+
+    const userID: HashedUserID = await getHashCache(paramUserID);
+    if (!(await isUserVIP(userID))) {
+        return res.status(403).send("只有VIP用户可以查看");
+    }
+
+    let job: PortImportJob;
+    try {
+        job = await getPortVideoImportJob(jobID);
+    } catch (e) {
+        Logger.error(e as string);
+        return res.sendStatus(500);
+    }
+    if (!job) {
+        return res.sendStatus(404);
+    }
+
+    if (req.query.format === "csv") {
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="portVideoImport-${job.id}.csv"`);
+        return res.send(formatPortImportReport(job));
+    }
+    return res.json({
+        id: job.id,
+        running: job.running,
+        startTime: job.startTime,
+        endTime: job.endTime,
+        total: job.total,
+        processed: job.processed,
+        rows: job.rows,
+    });
+}
@@ -0,0 +1,30 @@
+import { Request, Response } from "express";
+import { config } from "../config";
+import { getSyncJobStatus } from "../cronjob/syncPortedSegments";
+import { getStalePortVideo } from "../dao/portVideo";
+import { Logger } from "../utils/logger";
+
+const HOUR_IN_MS = 1000 * 60 * 60;
+
+export async function getPortVideoSyncStatus(req: Request, res: Response): Promise<Response> {
+    const staleHours = parseFloat(req.query.staleHours as string) || config.crons?.syncPortedSegments?.staleThresholdHours || 72;
+
+    try {
+        const staleRecords = await getStalePortVideo(Date.now() - staleHours * HOUR_IN_MS);
+        return res.json({
+            job: getSyncJobStatus(),
+            stale: staleRecords.map((p) => ({
+                bvID: p.bvID,
+                cid: p.cid,
+                ytbID: p.ytbID,
+                UUID: p.UUID,
+                lastSyncTime: p.lastSyncTime,
+                syncFailCount: p.syncFailCount,
+                lastSyncError: p.lastSyncError,
+            })),
+        });
+    } catch (e) {
+        Logger.error(e as string);
+        return res.sendStatus(500);
+    }
+}
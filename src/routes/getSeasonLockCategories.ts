@@ -0,0 +1,32 @@
+import { Request, Response } from "express";
+import { getSeasonLockCategories as getSeasonLockCategoriesFromDB } from "../dao/season";
+import { resolveSeasonID } from "../service/seasonService";
+import { Logger } from "../utils/logger";
+
+/**
+ * Get the categories locked for a whole season, by `seasonID` or by `videoID` of one of its videos
+ */
+export async function getSeasonLockCategories(req: Request, res: Response): Promise<Response> {
+    if (!req.query.seasonID && !req.query.videoID) {
+        return res.status(400).json({ message: "Bad Format" });
+    }
+
+    try {
+        const seasonID = await resolveSeasonID(req.query.seasonID, req.query.videoID);
+        if (!seasonID) {
+            return res.sendStatus(404);
+        }
+
+        const locks = await getSeasonLockCategoriesFromDB(seasonID);
+        if (locks.length === 0) {
+            return res.sendStatus(404);
+        }
+        return res.json({
+            seasonID,
+            locks: locks.map((lock) => ({ category: lock.category, actionType: lock.actionType, reason: lock.reason })),
+        });
+    } catch (e) {
+        Logger.error(e as string);
+        return res.sendStatus(500);
+    }
+}
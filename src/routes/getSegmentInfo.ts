@@ -1,6 +1,8 @@
 import { Request, Response } from "express";
 import { db } from "../databases/databases";
-import { DBSegment, SegmentUUID } from "../types/segments.model";
+import { DBSegment, SegmentUUID, Service } from "../types/segments.model";
+import { getEtag } from "../middleware/etag";
+import { getSegmentRevisions } from "../dao/segmentRevision";
 
 const isValidSegmentUUID = (str: string): boolean => /^([a-f0-9]{64}|[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12})/.test(str);
 
@@ -59,8 +61,14 @@ async function endpoint(req: Request, res: Response): Promise<Response> {
 
         // If false, res.send has already been called
         if (DBSegments) {
+            // views are not tracked by the ETag, they are updated too often
+            const videoIDs = [...new Set(DBSegments.filter((s) => s).map((s) => s.videoID))].join(",");
+            await getEtag("segmentInfo", videoIDs, Service.YouTube)
+                .then((etag) => res.set("ETag", etag))
+                .catch(() => null);
+            const revisions = await getSegmentRevisions(DBSegments.filter((s) => s).map((s) => s.UUID));
             //send result
-            return res.send(DBSegments);
+            return res.send(DBSegments.map((s) => s && { ...s, revisions: revisions.filter((r) => r.UUID === s.UUID) }));
         }
     } catch (err) /* istanbul ignore next */ {
         if (err instanceof SyntaxError) { // catch JSON.parse error
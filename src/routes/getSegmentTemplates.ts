@@ -0,0 +1,40 @@
+import { Request, Response } from "express";
+import { getSegmentTemplates as getSegmentTemplatesFromDB } from "../dao/season";
+import { resolveSeasonID } from "../service/seasonService";
+import { Logger } from "../utils/logger";
+
+/**
+ * Get the active segment templates of a season, by `seasonID` or by `videoID` of one of its videos
+ */
+export async function getSegmentTemplates(req: Request, res: Response): Promise<Response> {
+    if (!req.query.seasonID && !req.query.videoID) {
+        return res.status(400).json({ message: "Bad Format" });
+    }
+
+    try {
+        const seasonID = await resolveSeasonID(req.query.seasonID, req.query.videoID);
+        if (!seasonID) {
+            return res.sendStatus(404);
+        }
+
+        const templates = await getSegmentTemplatesFromDB(seasonID);
+        if (templates.length === 0) {
+            return res.sendStatus(404);
+        }
+        return res.json(
+            templates.map((template) => ({
+                UUID: template.UUID,
+                seasonID: template.seasonID,
+                category: template.category,
+                actionType: template.actionType,
+                segment: [template.startTime, template.endTime],
+                description: template.description,
+                userID: template.userID,
+                timeSubmitted: template.timeSubmitted,
+            }))
+        );
+    } catch (e) {
+        Logger.error(e as string);
+        return res.sendStatus(500);
+    }
+}
@@ -1,7 +1,9 @@
 import { Request, Response } from "express";
-import { partition } from "lodash";
+import { groupBy, partition } from "lodash";
+import seedrandom from "seedrandom";
 import { config } from "../config";
-import { getSegmentsFromDBByHash } from "../dao/skipSegment";
+import { getSegmentsFromDBByHash, getSegmentsFromDBByVideoID } from "../dao/skipSegment";
+import { getVideoPartsByVideoIDs } from "../dao/videoInfo";
 import { db, privateDB } from "../databases/databases";
 import { Postgres } from "../databases/Postgres";
 import { getEtag } from "../middleware/etag";
@@ -10,16 +12,22 @@ import {
     ActionType,
     Category,
     DBSegment,
+    ExcludedReason,
     HashedIP,
     IPAddress,
     OverlappingSegmentGroup,
     Segment,
     SegmentCache,
+    SegmentCandidateExplanation,
+    SegmentGroupExplanation,
+    SegmentPartExplanation,
     SegmentUUID,
+    SelectionRule,
     Service,
     VideoData,
     VideoID,
     VideoIDHash,
+    VideoPartData,
     Visibility,
     VotableObject,
 } from "../types/segments.model";
@@ -36,6 +44,12 @@ import { QueryCacher } from "../utils/queryCacher";
 import { shadowHiddenIPKey, skipSegmentGroupsKey } from "../service/redis/redisKeys";
 import { getReputation } from "../service/reputationService";
 import { hashPrefixTester } from "../utils/hashPrefixTester";
+import { validateCid } from "../service/validate/validator";
+import { isUserVIP } from "../service/VIPUserService";
+import { UserID } from "../types/user.model";
+import { sendHashPrefixOutput } from "../utils/responseFormat";
+
+const MAX_BATCH_VIDEOS = 100;
 
 async function prepareCategorySegments(
     req: Request,
@@ -230,7 +244,8 @@ function getBestChoice<T extends VotableObject>(
     choices: T[],
     amountOfChoices: number,
     filterLocked = false,
-    predicate?: (choice: T) => void
+    predicate?: (choice: T) => void,
+    random: () => number = Math.random
 ): T[] {
     //trivial case: no need to go through the whole process
     if (amountOfChoices >= choices.length) {
@@ -260,7 +275,8 @@ function getBestChoice<T extends VotableObject>(
 
             const weight = choice.votes + boost;
             return { ...choice, weight };
-        })
+        }),
+        random
     ).sort((a, b) => b.weight - a.weight);
 
     // Nothing to filter for
@@ -291,12 +307,16 @@ async function chooseSegments(
             ? await QueryCacher.get(fetchData, skipSegmentGroupsKey(videoID, cid, service))
             : await fetchData();
 
+    return chooseFromGroups(groups);
+}
+
+function chooseFromGroups(groups: OverlappingSegmentGroup[], random: () => number = Math.random): DBSegment[] {
     // Filter for only 1 item for POI categories and Full video
-    let chosenGroups = getBestChoice(groups, 1, true, (choice) => choice.segments[0].actionType === ActionType.Full);
-    chosenGroups = getBestChoice(chosenGroups, 1, true, (choice) => choice.segments[0].actionType === ActionType.Poi);
+    let chosenGroups = getBestChoice(groups, 1, true, (choice) => choice.segments[0].actionType === ActionType.Full, random);
+    chosenGroups = getBestChoice(chosenGroups, 1, true, (choice) => choice.segments[0].actionType === ActionType.Poi, random);
     return chosenGroups.map(
         // choose 1 good segment per group and return them
-        (group) => getBestChoice(group.segments, 1)[0]
+        (group) => getBestChoice(group.segments, 1, false, undefined, random)[0]
     );
 }
 
@@ -305,6 +325,12 @@ async function chooseSegments(
 //This allows new less voted items to still sometimes appear to give them a chance at getting votes.
 //Segments with less than -1 votes are already ignored before this function is called
 async function buildSegmentGroups(segments: DBSegment[]): Promise<OverlappingSegmentGroup[]> {
+    const groups = await groupOverlappingSegments(segments);
+    groups.forEach(applyGroupRules);
+    return groups;
+}
+
+async function groupOverlappingSegments(segments: DBSegment[]): Promise<OverlappingSegmentGroup[]> {
     const reputationPromises = segments.map((segment) =>
         segment.userID && !db.highLoad() ? getReputation(segment.userID).catch((e) => Logger.error(e)) : null
     );
@@ -314,7 +340,7 @@ async function buildSegmentGroups(segments: DBSegment[]): Promise<OverlappingSeg
     //1. As long as the segments' startTime fall inside the currentGroup, we keep adding them to that group
     //2. If a segment starts after the end of the currentGroup (> cursor), no other segment will ever fall
     //   inside that group (because they're sorted) so we can create a new one
-    let overlappingSegmentsGroups: OverlappingSegmentGroup[] = [];
+    const overlappingSegmentsGroups: OverlappingSegmentGroup[] = [];
     let currentGroup: OverlappingSegmentGroup;
     let cursor = -1; //-1 to make sure that, even if the 1st segment starts at 0, a new group is created
     for (let i = 0; i < segments.length; i++) {
@@ -346,20 +372,18 @@ async function buildSegmentGroups(segments: DBSegment[]): Promise<OverlappingSeg
         cursor = Math.max(cursor, segment.endTime);
     }
 
-    overlappingSegmentsGroups = splitPercentOverlap(overlappingSegmentsGroups);
-    overlappingSegmentsGroups.forEach((group) => {
-        if (group.required) {
-            // Required beats locked
-            group.segments = group.segments.filter((segment) => segment.required);
-        } else if (group.locked) {
-            group.segments = group.segments.filter((segment) => segment.locked);
-        }
+    return splitPercentOverlap(overlappingSegmentsGroups);
+}
 
-        group.reputation = group.reputation / group.segments.length;
-    });
+function applyGroupRules(group: OverlappingSegmentGroup): void {
+    if (group.required) {
+        // Required beats locked
+        group.segments = group.segments.filter((segment) => segment.required);
+    } else if (group.locked) {
+        group.segments = group.segments.filter((segment) => segment.locked);
+    }
 
-    //if there are too many groups, find the best ones
-    return overlappingSegmentsGroups;
+    group.reputation = group.reputation / group.segments.length;
 }
 
 function splitPercentOverlap(groups: OverlappingSegmentGroup[]): OverlappingSegmentGroup[] {
@@ -411,6 +435,153 @@ function splitPercentOverlap(groups: OverlappingSegmentGroup[]): OverlappingSegm
     });
 }
 
+function getExcludedReason(segment: DBSegment): ExcludedReason {
+    // same rules as prepareCategorySegments, without the exception for the submitter's own IP
+    if (segment.required) return undefined;
+    if (segment.hidden) return ExcludedReason.Hidden;
+    if (segment.votes < -1) return ExcludedReason.Downvoted;
+    if (segment.shadowHidden === Visibility.PENDING) return ExcludedReason.Pending;
+    if (segment.shadowHidden !== Visibility.VISIBLE) return ExcludedReason.ShadowHidden;
+    return undefined;
+}
+
+function explainCandidate(segment: DBSegment, chosen: boolean): SegmentCandidateExplanation {
+    return {
+        UUID: segment.UUID,
+        category: segment.category,
+        actionType: segment.actionType,
+        segment: [segment.startTime, segment.endTime],
+        votes: segment.votes,
+        reputation: segment.reputation,
+        weight: segment.votes + segment.reputation,
+        locked: !!segment.locked,
+        required: !!segment.required,
+        hidden: !!segment.hidden,
+        shadowHidden: segment.shadowHidden !== Visibility.VISIBLE,
+        excludedReason: getExcludedReason(segment),
+        chosen,
+    };
+}
+
+function getGroupRule(group: OverlappingSegmentGroup, groups: OverlappingSegmentGroup[]): SelectionRule {
+    const actionType = group.segments[0].actionType;
+    if (actionType !== ActionType.Full && actionType !== ActionType.Poi) {
+        return SelectionRule.AlwaysIncluded;
+    }
+
+    const competitors = groups.filter((g) => g.segments[0].actionType === actionType);
+    const lockedCount = competitors.filter((g) => g.locked).length;
+    if (competitors.length === 1) return SelectionRule.OnlyCandidate;
+    if (lockedCount > 0 && !(group.locked && lockedCount > 1)) return SelectionRule.Locked;
+    return SelectionRule.Weight;
+}
+
+function getSegmentRule(group: OverlappingSegmentGroup, candidates: DBSegment[]): SelectionRule {
+    if (candidates.length === 1) return SelectionRule.OnlyCandidate;
+    if (group.segments.length === 1 && group.required) return SelectionRule.Required;
+    if (group.segments.length === 1 && group.locked) return SelectionRule.Locked;
+    return SelectionRule.Weight;
+}
+
+/**
+ * run the same selection as chooseSegments on one part, and record every candidate and the rule that decided
+ */
+async function explainPart(cid: string, segments: DBSegment[], random: () => number): Promise<SegmentPartExplanation> {
+    const [visibleSegments, excludedSegments] = partition(segments, (segment) => !getExcludedReason(segment));
+
+    const groups = await groupOverlappingSegments(visibleSegments);
+    const candidatesPerGroup = groups.map((group) => [...group.segments]);
+    groups.forEach(applyGroupRules);
+
+    const chosenUUIDs = new Set(chooseFromGroups(groups, random).map((segment) => segment.UUID));
+    const explainedGroups: SegmentGroupExplanation[] = groups.map((group, index) => ({
+        votes: group.votes,
+        reputation: group.reputation,
+        weight: group.votes + group.reputation,
+        locked: group.locked,
+        required: group.required,
+        chosen: group.segments.some((segment) => chosenUUIDs.has(segment.UUID)),
+        groupRule: getGroupRule(group, groups),
+        segmentRule: getSegmentRule(group, candidatesPerGroup[index]),
+        candidates: candidatesPerGroup[index].map((segment) => explainCandidate(segment, chosenUUIDs.has(segment.UUID))),
+    }));
+
+    return {
+        cid,
+        excluded: excludedSegments.map((segment) => explainCandidate(segment, false)),
+        groups: explainedGroups,
+    };
+}
+
+/**
+ * VIP only, explain why each segment of a video was or was not returned.
+ * Pass the returned seed back to reproduce the random tie breaks.
+ */
+async function explainSkipSegments(
+    req: Request,
+    res: Response,
+    videoID: VideoID,
+    cid: string,
+    requiredSegments: SegmentUUID[],
+    service: Service
+): Promise<Response> {
+    const userID = req.query.userID as UserID;
+    if (!userID || !(await isUserVIP(await getHashCache(userID)))) {
+        return res.status(403).json({ message: "Not a VIP" });
+    }
+
+    const seed = req.query.seed === undefined ? Math.floor(Math.random() * 2 ** 31) : Number(req.query.seed);
+    if (!Number.isSafeInteger(seed)) {
+        return res.status(400).send("Invalid seed");
+    }
+    const random = seedrandom(`${seed}`);
+
+    try {
+        const segments = (await getSegmentsFromDBByVideoID(videoID, service))
+            .filter((segment) => !cid || segment.cid == cid)
+            // a stable order, so that the same seed gives the same result
+            .sort((a, b) => a.startTime - b.startTime || a.UUID.localeCompare(b.UUID))
+            .map((segment) => ({ ...segment, required: filterRequiredSegments(segment.UUID, requiredSegments) }));
+        if (segments.length === 0) {
+            return res.sendStatus(404);
+        }
+
+        const segmentsPerCid = Object.entries(groupBy(segments, (segment) => segment.cid)).sort(([a], [b]) => a.localeCompare(b));
+        const parts: SegmentPartExplanation[] = [];
+        for (const [partCid, partSegments] of segmentsPerCid) {
+            // one after another, so that the random numbers are consumed in the same order
+            parts.push(await explainPart(partCid, partSegments, random));
+        }
+        return res.json({ videoID, seed, parts });
+    } catch (e) {
+        Logger.error(`explain skip segments error: ${e}`);
+        return res.sendStatus(500);
+    }
+}
+
+/**
+ * the segments chosen for a video, the same ones returned by getSkipSegments, or null on errors
+ */
+export async function getVideoSegments(
+    req: Request,
+    videoID: VideoID,
+    cid: string,
+    categories: Category[],
+    actionTypes: ActionType[],
+    requiredSegments: SegmentUUID[],
+    service: Service
+): Promise<Segment[] | null> {
+    const hashedVideoID = getHash(videoID, 1).substring(0, 4) as VideoIDHash;
+    const allSegments = await getSegmentsByHash(req, hashedVideoID, categories, actionTypes, requiredSegments, service, cid);
+
+    if (allSegments === null || allSegments === undefined) {
+        return null;
+    }
+
+    const segments = allSegments[videoID]?.segments ?? [];
+    return cid ? segments.filter((s) => s.cid == cid) : segments;
+}
+
 export async function getSkipSegments(req: Request, res: Response): Promise<Response> {
     const videoID = req.query.videoID as VideoID;
     const cid = req.query.cid as string;
@@ -424,22 +595,19 @@ export async function getSkipSegments(req: Request, res: Response): Promise<Resp
     }
 
     const { categories, actionTypes, requiredSegments, service } = parseResult;
-    const hashedVideoID = getHash(videoID, 1).substring(0, 4) as VideoIDHash;
-    const allSegments = await getSegmentsByHash(req, hashedVideoID, categories, actionTypes, requiredSegments, service, cid);
+    if (req.query.explain === "true") {
+        return explainSkipSegments(req, res, videoID, cid, requiredSegments, service);
+    }
 
-    if (allSegments === null || allSegments === undefined) {
+    const segments = await getVideoSegments(req, videoID, cid, categories, actionTypes, requiredSegments, service);
+
+    if (segments === null) {
         return res.sendStatus(500);
     }
-
-    let segments = allSegments[videoID]?.segments;
-    if (!segments || segments.length === 0) {
+    if (segments.length === 0) {
         return res.sendStatus(404);
     }
 
-    if (cid) {
-        segments = segments.filter((s) => s.cid == cid);
-    }
-
     await getEtag("skipSegments", videoID as string, service)
         .then((etag) => res.set("ETag", etag))
         .catch(() => null);
@@ -458,6 +626,7 @@ export async function getSkipSegmentsByHash(req: Request, res: Response): Promis
         return res.status(400).send(parseResult.errors);
     }
     const { categories, actionTypes, requiredSegments, service } = parseResult;
+    const groupByCid = req.query.groupByCid === "true";
 
     // Get all video id's that match hash prefix
     const segments = await getSegmentsByHash(req, hashPrefix, categories, actionTypes, requiredSegments, service);
@@ -466,11 +635,15 @@ export async function getSkipSegmentsByHash(req: Request, res: Response): Promis
         await getEtag("skipSegmentsHash", hashPrefix, service)
             .then((etag) => res.set("ETag", etag))
             .catch(/* istanbul ignore next */ () => null);
+        if (groupByCid) {
+            const output = await groupSegmentsByCid(segments);
+            return sendHashPrefixOutput(req, res, output.length === 0 ? 404 : 200, output);
+        }
         const output = Object.entries(segments).map(([videoID, data]) => ({
             videoID,
             segments: data.segments,
         }));
-        return res.status(output.length === 0 ? 404 : 200).json(output);
+        return sendHashPrefixOutput(req, res, output.length === 0 ? 404 : 200, output);
     } catch (e) /* istanbul ignore next */ {
         Logger.error(`skip segments by hash error: ${e}`);
 
@@ -478,6 +651,83 @@ export async function getSkipSegmentsByHash(req: Request, res: Response): Promis
     }
 }
 
+/**
+ * split the segments of every video into its parts, with page numbers and part titles from the videoInfo table
+ */
+async function groupSegmentsByCid(segments: SBRecord<VideoID, VideoData>): Promise<{ videoID: VideoID; parts: VideoPartData[] }[]> {
+    const partInfos = await getVideoPartsByVideoIDs(Object.keys(segments) as VideoID[]);
+
+    return Object.entries(segments).map(([videoID, data]) => {
+        const parts: VideoPartData[] = [];
+        for (const segment of data.segments) {
+            let part = parts.find((p) => p.cid == segment.cid);
+            if (!part) {
+                const info = partInfos.find((i) => i.videoID === videoID && i.cid == segment.cid);
+                part = { cid: segment.cid, page: info?.part ?? 0, part: info?.partTitile ?? "", segments: [] };
+                parts.push(part);
+            }
+            part.segments.push(segment);
+        }
+        parts.sort((a, b) => a.page - b.page);
+        return { videoID: videoID as VideoID, parts };
+    });
+}
+
+/**
+ * Get segments of many videos at once, the response maps every requested videoID to its segments.
+ * Filters are read from the query string, like the other skipSegments endpoints.
+ */
+export async function getSkipSegmentsBatch(req: Request, res: Response): Promise<Response> {
+    const videos = req.body.videos as { videoID: VideoID; cid?: string }[];
+    if (!Array.isArray(videos) || videos.length === 0) {
+        return res.status(400).send("videos not specified");
+    }
+    if (videos.length > MAX_BATCH_VIDEOS) {
+        return res.status(400).send(`At most ${MAX_BATCH_VIDEOS} videos per request`);
+    }
+    if (videos.some((v) => typeof v?.videoID !== "string" || !v.videoID || (v.cid && !validateCid(`${v.cid}`).pass))) {
+        return res.status(400).send("Invalid videoID or cid");
+    }
+
+    const parseResult = parseSkipSegments(req);
+    if (parseResult.errors.length > 0) {
+        return res.status(400).send(parseResult.errors);
+    }
+    const { categories, actionTypes, requiredSegments, service } = parseResult;
+
+    // group videos by hash prefix, so that every prefix is only read once
+    const videosPerPrefix = new Map<VideoIDHash, { videoID: VideoID; cid?: string }[]>();
+    for (const video of videos) {
+        const hashPrefix = getHash(video.videoID, 1).substring(0, 4) as VideoIDHash;
+        if (!videosPerPrefix.has(hashPrefix)) {
+            videosPerPrefix.set(hashPrefix, []);
+        }
+        videosPerPrefix.get(hashPrefix).push(video);
+    }
+
+    const result: Record<string, Segment[]> = {};
+    const prefixResults = await Promise.all(
+        [...videosPerPrefix.keys()].map((hashPrefix) =>
+            getSegmentsByHash(req, hashPrefix, [...categories], [...actionTypes], requiredSegments, service)
+        )
+    );
+    if (prefixResults.some((segments) => segments === null || segments === undefined)) {
+        return res.sendStatus(500);
+    }
+
+    [...videosPerPrefix.values()].forEach((prefixVideos, index) => {
+        for (const video of prefixVideos) {
+            const segments = prefixResults[index][video.videoID]?.segments ?? [];
+            const cidSegments = video.cid ? segments.filter((s) => s.cid == video.cid) : segments;
+            // the same video may be requested with different cids
+            const existing = result[video.videoID] ?? [];
+            result[video.videoID] = existing.concat(cidSegments.filter((s) => !existing.includes(s)));
+        }
+    });
+
+    return res.json(result);
+}
+
 const filterRequiredSegments = (UUID: SegmentUUID, requiredSegments: SegmentUUID[]): boolean => {
     for (const search of requiredSegments) {
         if (search === UUID || UUID.indexOf(search) == 0) return true;
@@ -0,0 +1,70 @@
+import { Request, Response } from "express";
+import { ActionType, Category, ExportFormat, VideoID } from "../types/segments.model";
+import { formatDanmakuXml } from "../utils/danmaku";
+import { Logger } from "../utils/logger";
+import { parseSkipSegments } from "../utils/parseSkipSegments";
+import { buildTimeline, formatChapterList, formatEDL, formatFFConcat, formatVTT } from "../utils/segmentExport";
+import { getVideoSegments } from "./getSkipSegments";
+
+const DEFAULT_FILE_NAME = "input.mp4";
+
+/**
+ * Export the segments of a video, chosen the same way as getSkipSegments, in formats used by other tools
+ */
+export async function getSkipSegmentsExport(req: Request, res: Response): Promise<Response> {
+    const videoID = req.query.videoID as VideoID;
+    const cid = req.query.cid as string;
+    const format = ((req.query.format as string) ?? ExportFormat.JSON) as ExportFormat;
+    const fileName = (req.query.file as string) || DEFAULT_FILE_NAME;
+    if (!videoID) {
+        return res.status(400).send("videoID not specified");
+    }
+    if (!Object.values(ExportFormat).includes(format)) {
+        return res.status(400).send(`Invalid format, must be one of ${Object.values(ExportFormat).join(", ")}`);
+    }
+
+    const parseResult = parseSkipSegments(req);
+    if (parseResult.errors.length > 0) {
+        return res.status(400).send(parseResult.errors);
+    }
+    const { categories, actionTypes, requiredSegments, service } = parseResult;
+    // chapters are not returned by default by getSkipSegments, but all export formats can use them
+    if (!req.query.category && !req.query.categories) {
+        categories.push("chapter" as Category);
+    }
+    if (!req.query.actionType && !req.query.actionTypes) {
+        actionTypes.push(ActionType.Chapter);
+    }
+
+    try {
+        const segments = await getVideoSegments(req, videoID, cid, categories, actionTypes, requiredSegments, service);
+        if (segments === null) {
+            return res.sendStatus(500);
+        }
+        if (segments.length === 0) {
+            return res.sendStatus(404);
+        }
+        if (!cid && new Set(segments.map((s) => s.cid)).size > 1) {
+            return res.status(400).send("cid not specified for a multi part video");
+        }
+
+        switch (format) {
+            case ExportFormat.VTT:
+                return res.type("text/vtt").send(formatVTT(segments));
+            case ExportFormat.Chapters:
+                return res.type("text/plain").send(formatChapterList(segments));
+            case ExportFormat.EDL:
+                return res.type("text/plain").send(formatEDL(segments, fileName));
+            case ExportFormat.FFConcat:
+                return res.type("text/plain").send(formatFFConcat(segments, fileName));
+            case ExportFormat.Danmaku:
+                return res.type("application/xml").send(formatDanmakuXml(cid ?? segments[0].cid, segments));
+            case ExportFormat.JSON:
+            default:
+                return res.json(buildTimeline(videoID, cid ?? segments[0].cid, segments));
+        }
+    } catch (e) {
+        Logger.error(`export skip segments error: ${e}`);
+        return res.sendStatus(500);
+    }
+}
@@ -6,6 +6,7 @@ import redis, { getRedisStats } from "../service/redis/redis";
 import { promiseOrTimeout } from "../utils/promise";
 import { Postgres } from "../databases/Postgres";
 import { Server } from "http";
+import { getAutoModerationStats } from "../service/autoModerationService";
 
 export async function getStatus(req: Request, res: Response, server: Server): Promise<Response> {
     const startTime = Date.now();
@@ -49,6 +50,7 @@ export async function getStatus(req: Request, res: Response, server: Server): Pr
             postgresStats: (db as Postgres)?.getStats?.(),
             postgresPrivateStats: (privateDB as Postgres)?.getStats?.(),
             redisStats: getRedisStats(),
+            autoModerationStats: getAutoModerationStats(),
         };
         return value ? res.send(JSON.stringify(statusValues[value])) : res.send(statusValues);
     } catch (err) /* istanbul ignore next */ {
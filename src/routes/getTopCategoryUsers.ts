@@ -37,7 +37,7 @@ async function generateTopCategoryUsersStats(sortBy: string, category: string) {
         FROM "sponsorTimes"
             LEFT JOIN "userNames" ON "sponsorTimes"."userID"="userNames"."userID"
             LEFT JOIN "shadowBannedUsers" ON "sponsorTimes"."userID"="shadowBannedUsers"."userID"
-        WHERE "sponsorTimes"."category" = ? AND "sponsorTimes"."votes" > -1 AND "sponsorTimes"."shadowHidden" != 1 AND "shadowBannedUsers"."userID" IS NULL
+        WHERE "sponsorTimes"."category" = ? AND "sponsorTimes"."votes" > -1 AND "sponsorTimes"."shadowHidden" = 0 AND "shadowBannedUsers"."userID" IS NULL
         GROUP BY COALESCE("userName", "sponsorTimes"."userID")
         HAVING SUM("votes") >= 0
         ORDER BY "${sortBy}" DESC LIMIT 100`,
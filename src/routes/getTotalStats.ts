@@ -71,7 +71,7 @@ function getStats(countContributingUsers: boolean): Promise<DBStatsData> {
         return db.prepare(
             "get",
             `SELECT ${countContributingUsers ? userCountQuery : ""} COUNT(*) as "totalSubmissions",
-            SUM("views") as "viewCount", SUM(("endTime" - "startTime") / 60 * "views") as "minutesSaved" FROM "sponsorTimes" WHERE "shadowHidden" != 1 AND "votes" >= 0 AND "actionType" != 'chapter'`,
+            SUM("views") as "viewCount", SUM(("endTime" - "startTime") / 60 * "views") as "minutesSaved" FROM "sponsorTimes" WHERE "shadowHidden" = 0 AND "votes" >= 0 AND "actionType" != 'chapter'`,
             []
         );
     }
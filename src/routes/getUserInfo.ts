@@ -3,12 +3,13 @@ import { config } from "../config";
 import { db } from "../databases/databases";
 import { isUserBanned } from "../service/checkBan";
 import { isUserVIP } from "../service/VIPUserService";
-import { Category, SegmentUUID } from "../types/segments.model";
+import { Category, SegmentUUID, Service } from "../types/segments.model";
 import { HashedUserID, UserID } from "../types/user.model";
 import { getHashCache } from "../utils/HashCacheUtil";
 import { Logger } from "../utils/logger";
 import { canSubmit } from "../utils/permissions";
 import { getReputation } from "../service/reputationService";
+import { getEtag } from "../middleware/etag";
 const maxRewardTime = config.maxRewardTimePerSegmentInSeconds;
 
 async function dbGetSubmittedSegmentSummary(userID: HashedUserID): Promise<{ minutesSaved: number, segmentCount: number }> {
@@ -54,7 +55,7 @@ async function dbGetUsername(userID: HashedUserID) {
 
 async function dbGetViewsForUser(userID: HashedUserID) {
     try {
-        const row = await db.prepare("get", `SELECT SUM("views") as "viewCount" FROM "sponsorTimes" WHERE "userID" = ? AND "votes" > -2 AND "shadowHidden" != 1`, [userID], { useReplica: true });
+        const row = await db.prepare("get", `SELECT SUM("views") as "viewCount" FROM "sponsorTimes" WHERE "userID" = ? AND "votes" > -2 AND "shadowHidden" = 0`, [userID], { useReplica: true });
         return row?.viewCount ?? 0;
     } catch (err) /* istanbul ignore next */ {
         return false;
@@ -187,6 +188,8 @@ async function getUserInfo(req: Request, res: Response): Promise<Response> {
     }
 
     try {
+        // view counts are not tracked by the ETag, they are updated too often
+        const etag = await getEtag("userInfo", hashedUserID, Service.YouTube).catch((): string => null);
         const responseObj = {} as Record<string, string | SegmentUUID | number>;
         for (const property of paramValues) {
             responseObj[property] = await dbGetValue(hashedUserID, property);
@@ -199,6 +202,7 @@ async function getUserInfo(req: Request, res: Response): Promise<Response> {
             responseObj["segmentCount"] = segmentsSummary.segmentCount;
         }
 
+        if (etag) res.set("ETag", etag);
         return res.send(responseObj);
     } catch (err) {
         Logger.error(err as string);
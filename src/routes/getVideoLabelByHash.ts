@@ -3,6 +3,7 @@ import { getLabelsByHash } from "./getVideoLabel";
 import { Request, Response } from "express";
 import { VideoIDHash, Service } from "../types/segments.model";
 import { getService } from "../utils/getService";
+import { sendHashPrefixOutput } from "../utils/responseFormat";
 
 export async function getVideoLabelsByHash(req: Request, res: Response): Promise<Response> {
     let hashPrefix = req.params.prefix as VideoIDHash;
@@ -16,11 +17,11 @@ export async function getVideoLabelsByHash(req: Request, res: Response): Promise
     // Get all video id's that match hash prefix
     const segments = await getLabelsByHash(hashPrefix, service);
 
-    if (!segments) return res.status(404).json([]);
+    if (!segments) return sendHashPrefixOutput(req, res, 404, []);
 
     const output = Object.entries(segments).map(([videoID, data]) => ({
         videoID,
         segments: data.segments.map((s) => ({ cid: s.cid, category: s.category })),
     }));
-    return res.status(output.length === 0 ? 404 : 200).json(output);
+    return sendHashPrefixOutput(req, res, output.length === 0 ? 404 : 200, output);
 }
@@ -6,6 +6,7 @@ import { ActionType, Category, VideoIDHash } from "../types/segments.model";
 import { getHashCache } from "../utils/HashCacheUtil";
 import { getService } from "../utils/getService";
 import { Logger } from "../utils/logger";
+import { QueryCacher } from "../utils/queryCacher";
 
 export async function postLockCategories(req: Request, res: Response): Promise<string[]> {
     // Collect user input data
@@ -107,6 +108,7 @@ export async function postLockCategories(req: Request, res: Response): Promise<s
         }
     }
 
+    QueryCacher.touchLastModified("lockCategoriesHash", hashedVideoID);
     res.status(200).json({
         submitted: deDupArray(validLocks.map((e) => e.category)),
         submittedValues: validLocks,
@@ -118,7 +120,7 @@ const isValidCategoryActionPair = (category: Category, actionType: ActionType):
 
 // filter out any invalid category/action pairs
 type validLockArray = { category: Category; actionType: ActionType }[];
-const createLockArray = (categories: Category[], actionTypes: ActionType[]): validLockArray => {
+export const createLockArray = (categories: Category[], actionTypes: ActionType[]): validLockArray => {
     const validLocks: validLockArray = [];
     categories.forEach((category) => {
         if (category === "poi_highlight") validLocks.push({ category, actionType: ActionType.Poi });
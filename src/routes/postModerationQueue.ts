@@ -0,0 +1,53 @@
+import { Request, Response } from "express";
+import { moderatePendingSegments } from "../service/moderationQueueService";
+import { isUserVIP } from "../service/VIPUserService";
+import { ModerationStatus } from "../types/moderation.model";
+import { SegmentUUID } from "../types/segments.model";
+import { UserID } from "../types/user.model";
+import { getHashCache } from "../utils/HashCacheUtil";
+import { Logger } from "../utils/logger";
+
+const MAX_UUIDS = 100;
+
+async function moderate(req: Request, res: Response, status: ModerationStatus.Approved | ModerationStatus.Rejected): Promise<Response> {
+    const paramUserID = req.body.userID as UserID;
+    const UUIDs = req.body.UUIDs as SegmentUUID[];
+    const note = req.body.note ?? "";
+
+    if (
+        typeof paramUserID !== "string" ||
+        !paramUserID ||
+        !Array.isArray(UUIDs) ||
+        UUIDs.length == 0 ||
+        UUIDs.length > MAX_UUIDS ||
+        UUIDs.some((UUID) => typeof UUID !== "string" || !UUID) ||
+        typeof note !== "string"
+    ) {
+        return res.status(400).json({ message: "Bad Format" });
+    }
+    const userID = await getHashCache(paramUserID);
+    if (!(await isUserVIP(userID))) {
+        return res.status(403).json({ message: "Not a VIP" });
+    }
+
+    try {
+        return res.json(await moderatePendingSegments([...new Set(UUIDs)], status, userID, note));
+    } catch (e) {
+        Logger.error(e as string);
+        return res.sendStatus(500);
+    }
+}
+
+/**
+ * make queued segments visible to everyone
+ */
+export function approveModerationQueue(req: Request, res: Response): Promise<Response> {
+    return moderate(req, res, ModerationStatus.Approved);
+}
+
+/**
+ * remove queued segments
+ */
+export function rejectModerationQueue(req: Request, res: Response): Promise<Response> {
+    return moderate(req, res, ModerationStatus.Rejected);
+}
@@ -6,14 +6,25 @@ import { getHashCache, getHashedIP } from "../utils/HashCacheUtil";
 import { config } from "../config";
 import * as youtubeID from "../service/validate/youtubeID";
 import * as biliID from "../service/validate/bilibiliID";
+import { validateCid } from "../service/validate/validator";
 import { getVideoDetails } from "../service/api/getVideoDetails";
 import { parseUserAgentFromHeaders } from "../utils/userAgent";
 import { getMatchVideoUUID, getPortSegmentUUID } from "../utils/getSubmissionUUID";
 import { Logger } from "../utils/logger";
-import { PortVideo, PortVideoInterface } from "../types/portVideo.model";
+import {
+    PortConflictSource,
+    PortHistoryReason,
+    PortSubmitResult,
+    PortVideo,
+    PortVideoInterface,
+    PortVideoSubmission,
+    PortVideoSubmissionResult,
+} from "../types/portVideo.model";
 import { average } from "../utils/array";
 import { getYoutubeSegments } from "../service/api/sponsorBlockApi";
-import { durationEquals, durationsAllEqual } from "../utils/durationUtil";
+import { durationEquals, portDurationEquals } from "../utils/durationUtil";
+import { isCategoryPorted, parseCategoryList } from "../utils/portCategoryFilter";
+import { alignYoutubeSegments } from "../utils/segmentOffset";
 import { getHash } from "../utils/HashCacheUtil";
 
 import { getReputation } from "../service/reputationService";
@@ -22,8 +33,10 @@ import { QueryCacher } from "../utils/queryCacher";
 import { acquireLock } from "../service/redis/redisLock";
 import { vote as votePortVideo } from "./voteOnPortVideo";
 import { saveVideoInfo } from "../dao/videoInfo";
+import { hidePortVideoByUUID } from "../dao/portVideo";
 import { YouTubeAPI } from "../service/api/youtubeApi";
 import { isUserVIP } from "../service/VIPUserService";
+import { resolvePortVideoConflict } from "../service/portConflictService";
 
 type CheckResult = {
     pass: boolean;
@@ -39,39 +52,90 @@ const CHECK_PASS: CheckResult = {
 
 export const PORT_SEGMENT_USER_ID = "PORT";
 
+const BILI_INFO_FAILED_MESSAGE = `无法获取B站视频信息，请重试。
+如果始终无法提交，您可以前往项目地址反馈：https://github.com/hanydd/BilibiliSponsorBlock/issues/new`;
+
 export async function postPortVideo(req: Request, res: Response): Promise<Response> {
     const bvID = req.query.bvID || req.body.bvID;
-    let cid = req.query.cid || req.body.cid;
+    const cid = req.query.cid || req.body.cid;
     const ytbID = req.query.ytbID || req.body.ytbID;
     const paramUserID = req.query.userID || req.body.userID;
     const paramBiliDuration: VideoDuration = (parseFloat(req.query.biliDuration || req.body.biliDuration) || 0) as VideoDuration;
-    const rawIP = getIP(req);
-
-    const hashedBvID = getHash(bvID, 1);
+    const timeOffset = parseFloat(req.query.timeOffset ?? req.body.timeOffset) || 0;
+    const trimEnd = parseFloat(req.query.trimEnd ?? req.body.trimEnd) || 0;
+    const includedCategories = parseCategoryList(req.query.includedCategories ?? req.body.includedCategories);
+    const excludedCategories = parseCategoryList(req.query.excludedCategories ?? req.body.excludedCategories);
 
     if (!paramUserID) {
         return res.status(400).send("No userID provided");
     }
-    const userID: HashedUserID = await getHashCache(paramUserID);
 
-    const invalidCheckResult = checkInvalidFields(bvID, ytbID, paramUserID);
+    const invalidCheckResult = checkInvalidFields(bvID, cid, ytbID, paramUserID);
     if (!invalidCheckResult.pass) {
         return res.status(invalidCheckResult.errorCode).send(invalidCheckResult.errorMessage);
     }
+    if (!includedCategories || !excludedCategories) {
+        return res.status(400).send("类别有误");
+    }
+    // the duration is read from the player, without it the client failed to load the video
+    if (!paramBiliDuration) {
+        return res.status(400).send(BILI_INFO_FAILED_MESSAGE);
+    }
+
+    const submission = await submitPortVideo({
+        bvID,
+        cid,
+        ytbID,
+        paramUserID,
+        biliDuration: paramBiliDuration,
+        timeOffset,
+        trimEnd,
+        categoryFilter: { includedCategories, excludedCategories },
+        upvoteDuplicate: true,
+        rawIP: getIP(req),
+        userAgent: req.query.userAgent ?? req.body.userAgent ?? parseUserAgentFromHeaders(req.headers) ?? "",
+    });
+    if (submission.portVideo) {
+        return res.json(submission.portVideo);
+    }
+    return res.status(submission.status).send(submission.message);
+}
+
+/**
+ * Bind a YouTube video to a part of a Bilibili video and port its segments,
+ * the fields should be validated with `checkInvalidFields` first.
+ */
+export async function submitPortVideo(submission: PortVideoSubmission): Promise<PortVideoSubmissionResult> {
+    const { bvID, ytbID, paramUserID, timeOffset, trimEnd, categoryFilter, rawIP, userAgent } = submission;
+    let cid = submission.cid;
+    const hashedBvID = getHash(bvID, 1);
+    const userID: HashedUserID = await getHashCache(paramUserID);
 
     const lock = await acquireLock(`postPortVideo:${bvID}.${userID}`);
     if (!lock.status) {
-        return res.status(429).send("已有正在进行的提交！");
+        return submissionFailed(PortSubmitResult.Busy, 429, "已有正在进行的提交！");
     }
 
     const [ytbSegments, biliVideoDetail] = await Promise.all([getYoutubeSegments(ytbID), getVideoDetails(bvID, true)]);
 
+    if (!biliVideoDetail) {
+        lock.unlock();
+        return submissionFailed(PortSubmitResult.UpstreamFailed, 400, BILI_INFO_FAILED_MESSAGE);
+    }
+
     // get default cid
     if (!cid) {
-        if (biliVideoDetail.page.length != 1) {
-            return res.status(400).send("插件暂时不支持绑定分P视频！");
+        if (biliVideoDetail.page.length == 1) {
+            cid = biliVideoDetail.page[0].cid;
+        } else {
+            // multi-part video, use the only part that matches the submitted duration
+            const matchingPages = biliVideoDetail.page.filter((p) => durationEquals(p.duration, submission.biliDuration));
+            if (matchingPages.length != 1) {
+                lock.unlock();
+                return submissionFailed(PortSubmitResult.Invalid, 400, "分P视频请提供cid！");
+            }
+            cid = matchingPages[0].cid;
         }
-        cid = biliVideoDetail.page[0].cid;
     }
 
     // get ytb video duration
@@ -88,72 +152,92 @@ export async function postPortVideo(req: Request, res: Response): Promise<Respon
     // we need all three durations to match to proceed
     if (!ytbDuration) {
         lock.unlock();
-        return res.status(500).send(`无法获取YouTube视频信息，请重试。
-如果始终无法提交，您可以前往项目地址反馈：https://github.com/hanydd/BilibiliSponsorBlock/issues/new`);
+        return submissionFailed(
+            PortSubmitResult.UpstreamFailed,
+            500,
+            `无法获取YouTube视频信息，请重试。
+如果始终无法提交，您可以前往项目地址反馈：https://github.com/hanydd/BilibiliSponsorBlock/issues/new`
+        );
     }
     // check cid
     if (biliVideoDetail?.page.filter((p) => p.cid == cid).length == 0) {
-        return res.status(400).send("cid有误！请刷新页面再试");
+        lock.unlock();
+        return submissionFailed(PortSubmitResult.Invalid, 400, "cid有误！请刷新页面再试");
     }
     // check duration
     const apiBiliDuration = biliVideoDetail?.page.filter((p) => p.cid == cid)[0].duration as VideoDuration;
-    if (!paramBiliDuration || !apiBiliDuration) {
+    if (!apiBiliDuration) {
+        lock.unlock();
+        return submissionFailed(PortSubmitResult.UpstreamFailed, 400, BILI_INFO_FAILED_MESSAGE);
+    }
+    // imports do not submit a duration, only the durations from the APIs are compared for them
+    if (submission.biliDuration !== undefined && !durationEquals(submission.biliDuration, apiBiliDuration)) {
         lock.unlock();
-        return res.status(400).send(`无法获取B站视频信息，请重试。
-如果始终无法提交，您可以前往项目地址反馈：https://github.com/hanydd/BilibiliSponsorBlock/issues/new`);
+        Logger.info(`Submitted bili durations do not match: ${submission.biliDuration}, ${apiBiliDuration}`);
+        return submissionFailed(PortSubmitResult.DurationMismatch, 400, "视频时长异常，请刷新页面重试");
     }
-    if (!durationEquals(paramBiliDuration, apiBiliDuration)) {
+    if (Math.abs(timeOffset) >= apiBiliDuration || Math.abs(trimEnd) >= apiBiliDuration) {
         lock.unlock();
-        Logger.info(`Submitted bili durations do not match: ${paramBiliDuration}, ${apiBiliDuration}`);
-        return res.status(400).send("视频时长异常，请刷新页面重试");
+        return submissionFailed(PortSubmitResult.Invalid, 400, "时间偏移有误！");
     }
-    if (!durationsAllEqual([paramBiliDuration, apiBiliDuration, ytbDuration])) {
+    if (!portDurationEquals(apiBiliDuration, ytbDuration, timeOffset, trimEnd)) {
         lock.unlock();
-        Logger.info(`bili and Ytb durations do not match: ${paramBiliDuration}, ${ytbDuration}`);
-        return res.status(400).send("与YouTube视频时长不一致，无法绑定");
+        Logger.info(`bili and Ytb durations do not match: ${apiBiliDuration}, ${ytbDuration}, offset: ${timeOffset}, trim: ${trimEnd}`);
+        return submissionFailed(PortSubmitResult.DurationMismatch, 400, "与YouTube视频时长不一致，无法绑定");
     }
 
     // check existing matches
     const uuidToHide: Set<string> = new Set();
     const existingMatch: PortVideo[] = await db.prepare(
         "all",
-        `SELECT "bvID", "cid", "ytbID", "UUID", "votes", "locked", "hidden", "biliDuration", "ytbDuration", "timeSubmitted"
+        `SELECT "bvID", "cid", "ytbID", "UUID", "votes", "locked", "hidden", "biliDuration", "ytbDuration", "timeOffset", "trimEnd", "timeSubmitted",
+            "lastSyncTime", "syncFailCount"
         FROM "portVideo" WHERE "bvID" = ? AND "cid" = ?`,
         [bvID, cid]
     );
 
     // check if the existing data is exactly the same as the submitted ones
     const exactMatches = existingMatch.filter(
-        (port) => port.ytbID == ytbID && durationsAllEqual([port.biliDuration, port.ytbDuration, apiBiliDuration, ytbDuration])
+        (port) =>
+            port.ytbID == ytbID &&
+            durationEquals(port.biliDuration, apiBiliDuration) &&
+            durationEquals(port.ytbDuration, ytbDuration) &&
+            durationEquals(port.timeOffset, timeOffset, 1)
     );
     if (exactMatches.length > 0) {
         lock.unlock();
         if (exactMatches.filter((s) => s.hidden != HiddenType.Show).length > 0) {
             // only check hidden flag, not votes
             // if the record is only hidden due to downvotes, re-show it
-            return res.status(409).send("此YouTube视频已被标记为错误的搬运视频！");
+            return submissionFailed(PortSubmitResult.Duplicate, 409, "此YouTube视频已被标记为错误的搬运视频！");
         } else {
             // duplicated submission count as upvote
-            await votePortVideo(exactMatches[0].UUID, bvID, paramUserID, VoteType.Upvote, rawIP);
-            return res.json({
-                bvID: exactMatches[0].bvID,
-                cid: exactMatches[0].cid,
-                ytbID: exactMatches[0].ytbID,
-                UUID: exactMatches[0].UUID,
-                votes: exactMatches[0].votes,
-                locked: exactMatches[0].locked,
-            } as PortVideoInterface);
+            if (submission.upvoteDuplicate) {
+                await votePortVideo(exactMatches[0].UUID, bvID, paramUserID, VoteType.Upvote, rawIP);
+            }
+            return {
+                result: PortSubmitResult.Duplicate,
+                status: 200,
+                portVideo: {
+                    bvID: exactMatches[0].bvID,
+                    cid: exactMatches[0].cid,
+                    ytbID: exactMatches[0].ytbID,
+                    UUID: exactMatches[0].UUID,
+                    votes: exactMatches[0].votes,
+                    locked: exactMatches[0].locked,
+                    timeOffset: exactMatches[0].timeOffset,
+                    trimEnd: exactMatches[0].trimEnd,
+                },
+            };
         }
     }
 
-    const activeMatches = existingMatch.filter((p) => p.votes > -2 && !p.hidden);
-    // one bvid only can have one active match at a time
-    // use the highes voted or latest submission as active
-    if (activeMatches.length >= 2) {
-        activeMatches.sort((a, b) => b.timeSubmitted - a.timeSubmitted);
-        activeMatches.slice(1).forEach((p) => uuidToHide.add(p.UUID));
-        Logger.error(`Multiple PortVideo match found for bvid: ${bvID}`);
-    }
+    // one part of a bvid only can have one active match at a time
+    // the losing matches are hidden by the conflict resolution policy
+    const activeMatches = await resolvePortVideoConflict(
+        existingMatch.filter((p) => p.votes > -2 && !p.hidden),
+        PortConflictSource.Submission
+    );
 
     let hasActive = false;
     if (activeMatches.length > 0) {
@@ -167,7 +251,10 @@ export async function postPortVideo(req: Request, res: Response): Promise<Respon
         } else {
             // check ytb duration
             const activeMatchYtbDuration = await YouTubeAPI.getYoutubeVideoDuraion(activeMatch.ytbID);
-            if (!durationsAllEqual([activeMatch.ytbDuration, activeMatch.biliDuration, activeMatchYtbDuration])) {
+            if (
+                !durationEquals(activeMatch.ytbDuration, activeMatchYtbDuration) ||
+                !portDurationEquals(activeMatch.biliDuration, activeMatchYtbDuration, activeMatch.timeOffset, activeMatch.trimEnd)
+            ) {
                 uuidToHide.add(activeMatch.UUID);
                 hasActive = false;
             }
@@ -175,21 +262,22 @@ export async function postPortVideo(req: Request, res: Response): Promise<Respon
     }
 
     if (uuidToHide.size > 0) {
-        await hideOutdatedMatches(Array.from(uuidToHide));
-        QueryCacher.clearSegmentCache({ videoID: bvID, hashedVideoID: hashedBvID, service: Service.YouTube });
+        for (const outdatedMatch of existingMatch.filter((p) => uuidToHide.has(p.UUID))) {
+            await hidePortVideoByUUID(outdatedMatch, PortHistoryReason.Outdated, HiddenType.Hidden);
+        }
+        QueryCacher.clearSegmentCache({ videoID: bvID, cid, hashedVideoID: hashedBvID, service: Service.YouTube });
     }
 
     // don't allow multiple active port video matches to be submitted
     if (hasActive) {
         lock.unlock();
-        return res.status(409).send("已有搬运视频绑定，请先投票，或在QQ群反馈");
+        return submissionFailed(PortSubmitResult.Conflict, 409, "已有搬运视频绑定，请先投票，或在QQ群反馈");
     }
 
     // prepare to be saved
     const isVIP = await isUserVIP(userID);
-    const userAgent = req.query.userAgent ?? req.body.userAgent ?? parseUserAgentFromHeaders(req.headers) ?? "";
     const timeSubmitted = Date.now();
-    const matchVideoUUID = getMatchVideoUUID(bvID, ytbID, userID, paramBiliDuration, ytbDuration, timeSubmitted);
+    const matchVideoUUID = getMatchVideoUUID(bvID, ytbID, userID, apiBiliDuration, ytbDuration, timeSubmitted);
     const startingVotes = 0;
     const startingLocked = isVIP ? 1 : 0;
     const reputation = await getReputation(userID);
@@ -200,7 +288,9 @@ export async function postPortVideo(req: Request, res: Response): Promise<Respon
         await db.prepare(
             "run",
             `INSERT INTO "portVideo" ("bvID", "cid", "ytbID", "UUID", "votes", "locked", "userID", "timeSubmitted",
-             "biliDuration", "ytbDuration", "userAgent", "hidden", "hashedBvID") VALUES(?,?,?,?,?,?,?,?,?,?,?,?,?)`,
+             "biliDuration", "ytbDuration", "timeOffset", "trimEnd", "userAgent", "hidden", "hashedBvID", "hashedYtbID",
+             "includedCategories", "excludedCategories")
+             VALUES(?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)`,
             [
                 bvID,
                 cid,
@@ -210,11 +300,16 @@ export async function postPortVideo(req: Request, res: Response): Promise<Respon
                 startingLocked,
                 userID,
                 timeSubmitted,
-                paramBiliDuration,
+                apiBiliDuration,
                 ytbDuration,
+                timeOffset,
+                trimEnd,
                 userAgent,
                 0,
                 hashedBvID,
+                getHash(ytbID, 1),
+                JSON.stringify(categoryFilter?.includedCategories ?? []),
+                JSON.stringify(categoryFilter?.excludedCategories ?? []),
             ]
         );
         await privateDB.prepare("run", `INSERT INTO "portVideo" ("bvID", "cid", "UUID", "hashedIP", "timeSubmitted") VALUES (?,?,?,?,?)`, [
@@ -227,28 +322,37 @@ export async function postPortVideo(req: Request, res: Response): Promise<Respon
     } catch (err) {
         lock.unlock();
         Logger.error(err as string);
-        return res.sendStatus(500);
+        return submissionFailed(PortSubmitResult.Error, 500, "Internal Server Error");
     } finally {
-        QueryCacher.clearPortVideoCache(bvID, hashedBvID);
+        QueryCacher.clearPortVideoCache(bvID, hashedBvID, ytbID);
     }
 
-    // save all segments
-    if (ytbSegments?.length == 0) {
+    const createdPortVideo: PortVideoInterface = {
+        bvID,
+        cid,
+        ytbID,
+        UUID: matchVideoUUID,
+        votes: startingVotes,
+        locked: !!startingLocked,
+        timeOffset,
+        trimEnd,
+    };
+
+    // save segments in the chosen categories, shifted to the Bilibili video
+    const portSegments = alignYoutubeSegments(
+        (ytbSegments ?? []).filter((s) => isCategoryPorted(s.category, categoryFilter)),
+        timeOffset,
+        apiBiliDuration
+    );
+    if (portSegments.length == 0) {
         lock.unlock();
-        return res.json({
-            bvID,
-            cid,
-            ytbID,
-            UUID: matchVideoUUID,
-            votes: startingVotes,
-            locked: !!startingLocked,
-        } as PortVideoInterface);
+        return submissionCreated(createdPortVideo);
     }
 
     const sponsorTime = [];
     const privateSponsorTime = [];
 
-    for (const s of ytbSegments) {
+    for (const s of portSegments) {
         const newUUID = getPortSegmentUUID(bvID, ytbID, s.UUID, timeSubmitted);
 
         sponsorTime.push([
@@ -265,7 +369,7 @@ export async function postPortVideo(req: Request, res: Response): Promise<Respon
             s.category,
             s.actionType,
             Service.YouTube,
-            paramBiliDuration,
+            apiBiliDuration,
             reputation,
             0,
             hashedBvID,
@@ -278,7 +382,7 @@ export async function postPortVideo(req: Request, res: Response): Promise<Respon
 
         privateSponsorTime.push([bvID, cid, hashedIP, timeSubmitted, Service.YouTube]);
     }
-    QueryCacher.clearSegmentCache({ videoID: bvID, hashedVideoID: hashedBvID, service: Service.YouTube });
+    QueryCacher.clearSegmentCache({ videoID: bvID, cid, hashedVideoID: hashedBvID, service: Service.YouTube });
 
     try {
         await saveVideoInfo(biliVideoDetail);
@@ -302,17 +406,18 @@ export async function postPortVideo(req: Request, res: Response): Promise<Respon
     }
 
     lock.unlock();
-    return res.json({
-        bvID,
-        cid,
-        ytbID,
-        UUID: matchVideoUUID,
-        votes: startingVotes,
-        locked: !!startingLocked,
-    } as PortVideoInterface);
+    return submissionCreated(createdPortVideo);
+}
+
+function submissionFailed(result: PortSubmitResult, status: number, message: string): PortVideoSubmissionResult {
+    return { result, status, message };
 }
 
-function checkInvalidFields(bvID: string, ytbID: string, paramUserID: string): CheckResult {
+function submissionCreated(portVideo: PortVideoInterface): PortVideoSubmissionResult {
+    return { result: PortSubmitResult.Created, status: 200, portVideo };
+}
+
+export function checkInvalidFields(bvID: string, cid: string, ytbID: string, paramUserID: string): CheckResult {
     const invalidFields = [];
     const errors = [];
 
@@ -323,6 +428,12 @@ function checkInvalidFields(bvID: string, ytbID: string, paramUserID: string): C
         invalidFields.push("bvID");
     }
 
+    const cidCheckResult = validateCid(cid);
+    if (!cidCheckResult.pass) {
+        invalidFields.push("cid");
+        errors.push(cidCheckResult.errorMessage);
+    }
+
     const minLength = config.minUserIDLength;
     if (typeof paramUserID !== "string" || paramUserID?.length < minLength) {
         invalidFields.push("userID");
@@ -356,15 +467,3 @@ function checkInvalidFields(bvID: string, ytbID: string, paramUserID: string): C
 
     return CHECK_PASS;
 }
-
-async function hideOutdatedMatches(uuidToHide: string[]) {
-    try {
-        // delete port video record
-        await db.prepare("run", `UPDATE "portVideo" SET hidden = 1 WHERE "UUID" = ANY(?)`, [uuidToHide]);
-        // delete all related segments
-        await db.prepare("run", `UPDATE "sponsorTimes" SET hidden = 1 WHERE "portUUID" = ANY(?)`, [uuidToHide]);
-    } catch (err) {
-        Logger.error(err as string);
-        throw err;
-    }
-}
@@ -0,0 +1,50 @@
+import { Request, Response } from "express";
+import { getPortVideoRecordByUUID, updatePortVideoCategories } from "../dao/portVideo";
+import { applyCategoryFilter, getSegmentsFromDBByVideoID } from "../dao/skipSegment";
+import { isUserVIP } from "../service/VIPUserService";
+import { PortCategoryFilter, portVideoUUID } from "../types/portVideo.model";
+import { Service } from "../types/segments.model";
+import { HashedUserID, UserID } from "../types/user.model";
+import { getHashCache } from "../utils/HashCacheUtil";
+import { Logger } from "../utils/logger";
+import { parseCategoryList } from "../utils/portCategoryFilter";
+
+/**
+ * VIP only, edit the categories ported with a port video record,
+ * already ported segments are hidden or shown again accordingly
+ */
+export async function postPortVideoCategories(req: Request, res: Response): Promise<Response> {
+    const UUID = req.body.UUID as portVideoUUID;
+    const paramUserID = req.body.userID as UserID;
+    const includedCategories = parseCategoryList(req.body.includedCategories);
+    const excludedCategories = parseCategoryList(req.body.excludedCategories);
+
+    if (typeof UUID !== "string" || typeof paramUserID !== "string") {
+        return res.status(400).send("缺少参数");
+    }
+    if (!includedCategories || !excludedCategories) {
+        return res.status(400).send("类别有误");
+    }
+
+    const userID: HashedUserID = await getHashCache(paramUserID);
+    if (!(await isUserVIP(userID))) {
+        Logger.warn(`Permission violation: User ${userID} attempted to edit categories of port video ${UUID}.`);
+        return res.status(403).send("只有VIP用户可以操作");
+    }
+
+    const portVideo = await getPortVideoRecordByUUID(UUID);
+    if (!portVideo) {
+        return res.sendStatus(404);
+    }
+
+    const categoryFilter: PortCategoryFilter = { includedCategories, excludedCategories };
+    try {
+        await updatePortVideoCategories(UUID, categoryFilter);
+        const portedSegments = (await getSegmentsFromDBByVideoID(portVideo.bvID, Service.YouTube)).filter((s) => s.portUUID === UUID);
+        await applyCategoryFilter(portedSegments, categoryFilter, portVideo.bvID);
+        return res.json(categoryFilter);
+    } catch (e) {
+        Logger.error(e as string);
+        return res.sendStatus(500);
+    }
+}
@@ -0,0 +1,45 @@
+import { Request, Response } from "express";
+import { MAX_IMPORT_ROWS, parsePortImportData, startPortVideoImport } from "../service/portVideoImportService";
+import { isUserVIP } from "../service/VIPUserService";
+import { HashedUserID, UserID } from "../types/user.model";
+import { getHashCache } from "../utils/HashCacheUtil";
+import { getIP } from "../utils/getIP";
+import { Logger } from "../utils/logger";
+import { parseUserAgentFromHeaders } from "../utils/userAgent";
+
+/**
+ * VIP only, import port video bindings in bulk as a background job
+ */
+export async function postPortVideoImport(req: Request, res: Response): Promise<Response> {
+    const paramUserID = req.body.userID as UserID;
+    const data = req.body.data as string;
+
+    if (typeof paramUserID !== "string" || typeof data !== "string") {
+        return res.status(400).send("缺少参数");
+    }
+
+    const userID: HashedUserID = await getHashCache(paramUserID);
+    if (!(await isUserVIP(userID))) {
+        Logger.warn(`Permission violation: User ${userID} attempted to import port videos.`);
+        return res.status(403).send("只有VIP用户可以操作");
+    }
+
+    const { rows, invalidRows } = parsePortImportData(data);
+    if (rows.length + invalidRows.length === 0) {
+        return res.status(400).send("没有可导入的数据");
+    } else if (rows.length + invalidRows.length > MAX_IMPORT_ROWS) {
+        return res.status(400).send(`每次最多导入${MAX_IMPORT_ROWS}条`);
+    }
+
+    const userAgent = req.body.userAgent ?? parseUserAgentFromHeaders(req.headers) ?? "";
+    try {
+        const job = await startPortVideoImport(rows, invalidRows, paramUserID, userID, getIP(req), userAgent);
+        return res.status(202).json({
+            jobID: job.id,
+            total: job.total,
+        });
+    } catch (e) {
+        Logger.error(e as string);
+        return res.sendStatus(500);
+    }
+}
@@ -0,0 +1,41 @@
+import { Request, Response } from "express";
+import { getPortVideoRecordByUUID } from "../dao/portVideo";
+import { overridePortVideoConflict } from "../service/portConflictService";
+import { isUserVIP } from "../service/VIPUserService";
+import { portVideoUUID } from "../types/portVideo.model";
+import { HashedUserID, UserID } from "../types/user.model";
+import { getHashCache } from "../utils/HashCacheUtil";
+import { Logger } from "../utils/logger";
+
+/**
+ * VIP only, make a port video record the only active one of its part
+ */
+export async function postPortVideoOverride(req: Request, res: Response): Promise<Response> {
+    const UUID = req.body.UUID as portVideoUUID;
+    const userID = req.body.userID as UserID;
+
+    if (typeof UUID !== "string" || typeof userID !== "string") {
+        return res.status(400).send("缺少参数");
+    }
+
+    const hashedUserID: HashedUserID = await getHashCache(userID);
+    if (!(await isUserVIP(hashedUserID))) {
+        Logger.warn(`Permission violation: User ${hashedUserID} attempted to override port video ${UUID}.`);
+        return res.status(403).send("只有VIP用户可以操作");
+    }
+
+    const portVideo = await getPortVideoRecordByUUID(UUID);
+    if (!portVideo) {
+        return res.sendStatus(404);
+    } else if (portVideo.votes <= -2) {
+        return res.status(400).send("该搬运视频已被投票隐藏，请先投票");
+    }
+
+    try {
+        await overridePortVideoConflict(portVideo, hashedUserID);
+        return res.sendStatus(200);
+    } catch (e) {
+        Logger.error(e as string);
+        return res.sendStatus(500);
+    }
+}
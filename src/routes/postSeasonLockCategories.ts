@@ -0,0 +1,56 @@
+import { Request, Response } from "express";
+import { saveSeasonLockCategories } from "../dao/season";
+import { resolveSeasonID } from "../service/seasonService";
+import { isUserVIP } from "../service/VIPUserService";
+import { ActionType, Category } from "../types/segments.model";
+import { UserID } from "../types/user.model";
+import { getHashCache } from "../utils/HashCacheUtil";
+import { Logger } from "../utils/logger";
+import { createLockArray } from "./postLockCategories";
+
+/**
+ * Lock categories for every video of a season, given by `seasonID` or by `videoID` of one of its videos.
+ * Unlike video locks, season locks are kept when the duration of a video changes.
+ */
+export async function postSeasonLockCategories(req: Request, res: Response): Promise<Response> {
+    const paramUserID = req.body.userID as UserID;
+    const categories = req.body.categories as Category[];
+    const actionTypes = (req.body.actionTypes as ActionType[]) || [ActionType.Skip, ActionType.Mute];
+    const reason: string = req.body.reason ?? "";
+
+    if (
+        typeof paramUserID !== "string" ||
+        !paramUserID ||
+        (!req.body.seasonID && !req.body.videoID) ||
+        !Array.isArray(categories) ||
+        categories.length === 0 ||
+        !Array.isArray(actionTypes) ||
+        actionTypes.length === 0 ||
+        typeof reason !== "string"
+    ) {
+        return res.status(400).json({ message: "Bad Format" });
+    }
+
+    const userID = await getHashCache(paramUserID);
+    if (!(await isUserVIP(userID))) {
+        return res.status(403).json({ message: "Must be a VIP to lock videos." });
+    }
+
+    try {
+        const seasonID = await resolveSeasonID(req.body.seasonID, req.body.videoID);
+        if (!seasonID) {
+            return res.status(404).json({ message: "Video is not in a season" });
+        }
+
+        const validLocks = createLockArray(categories, actionTypes);
+        await saveSeasonLockCategories(seasonID, validLocks, reason, userID);
+        return res.json({
+            seasonID,
+            submitted: [...new Set(validLocks.map((lock) => lock.category))],
+            submittedValues: validLocks,
+        });
+    } catch (e) {
+        Logger.error(e as string);
+        return res.sendStatus(500);
+    }
+}
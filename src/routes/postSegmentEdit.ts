@@ -0,0 +1,210 @@
+import { Request, Response } from "express";
+import { config } from "../config";
+import { db } from "../databases/databases";
+import { requeueSegment } from "../dao/moderationQueue";
+import { getSeasonLockCategories } from "../dao/season";
+import { editSegment } from "../dao/segmentRevision";
+import { getVideoDetailsByService, VideoDetail } from "../service/api/getVideoDetails";
+import { isUserBanned } from "../service/checkBan";
+import { getUserPendingReason } from "../service/moderationQueueService";
+import { acquireLock } from "../service/redis/redisLock";
+import { getReputation } from "../service/reputationService";
+import { isUserTempVIP, isUserVIP } from "../service/VIPUserService";
+import { ActionType, Category, DBSegment, IncomingSegment, SegmentEdit, SegmentUUID, Visibility } from "../types/segments.model";
+import { HashedUserID, UserID } from "../types/user.model";
+import { getHashCache } from "../utils/HashCacheUtil";
+import { Logger } from "../utils/logger";
+import { canSubmit } from "../utils/permissions";
+import { getSegmentFromDBByUUID } from "./getSegmentInfo";
+import { checkByAutoModerator, checkSegment, getPendingReason, LockedCategory } from "./postSkipSegments";
+
+/**
+ * VIP edits keep all votes. Minor edits by the submitter decay positive votes,
+ * any other edit resets them, downvotes are always kept so that edits can not clear them.
+ */
+function getVotesAfterEdit(segment: DBSegment, edit: SegmentEdit, isVIP: boolean): number {
+    if (isVIP || segment.votes <= 0) {
+        return segment.votes;
+    }
+
+    const { minorEditSeconds, minorEditVoteFactor } = config.segmentEditVotePolicy;
+    const isMinorEdit =
+        edit.category === segment.category &&
+        Math.abs(edit.startTime - segment.startTime) <= minorEditSeconds &&
+        Math.abs(edit.endTime - segment.endTime) <= minorEditSeconds;
+    return isMinorEdit ? Math.floor(segment.votes * minorEditVoteFactor) : 0;
+}
+
+function checkEditDuration(segment: DBSegment, edit: SegmentEdit): string | null {
+    if (segment.videoDuration > 0 && edit.endTime > segment.videoDuration) {
+        return "Segment ends after the end of the video";
+    }
+    return null;
+}
+
+function checkEditCategory(segment: DBSegment, edit: SegmentEdit, userID: HashedUserID): string | null {
+    if (edit.category === segment.category) {
+        return null;
+    }
+
+    const permission = canSubmit(userID, edit.category);
+    return permission.canSubmit ? null : permission.reason;
+}
+
+/**
+ * the locks of the video and its season, only a new category can be locked
+ */
+async function getEditLocks(segment: DBSegment, edit: SegmentEdit, apiVideoDetails: VideoDetail | null): Promise<LockedCategory[]> {
+    if (edit.category === segment.category) {
+        return [];
+    }
+    const videoLocks: LockedCategory[] = await db.prepare(
+        "all",
+        `SELECT "category", "actionType", "reason" FROM "lockCategories" WHERE "videoID" = ? AND "service" = ?`,
+        [segment.videoID, segment.service]
+    );
+    const seasonLocks = apiVideoDetails?.season ? await getSeasonLockCategories(apiVideoDetails.season.id) : [];
+    return [...videoLocks, ...seasonLocks];
+}
+
+/**
+ * Edits go through the same moderation as new submissions. They can hide or queue a visible segment, but never reveal one.
+ */
+async function moderateEdit(
+    segment: DBSegment,
+    edited: IncomingSegment,
+    userID: HashedUserID,
+    apiVideoDetails: VideoDetail
+): Promise<{ rejectReason: string | null; pending: boolean }> {
+    const autoModerateCheckResult = await checkByAutoModerator(
+        segment.videoID,
+        segment.cid,
+        userID,
+        [edited],
+        segment.service,
+        apiVideoDetails,
+        segment.videoDuration
+    );
+    if (!autoModerateCheckResult.pass) {
+        return { rejectReason: autoModerateCheckResult.errorMessage, pending: false };
+    }
+
+    const hits = autoModerateCheckResult.hits;
+    const shadowHide = hits.some((hit) => hit.action === "shadowHide");
+    const userPendingReason = await getUserPendingReason(userID, await getReputation(userID));
+    const pendingReason = getPendingReason(edited, userPendingReason, hits, segment.videoDuration);
+    if (!shadowHide && !pendingReason) {
+        return { rejectReason: null, pending: false };
+    }
+
+    await db.prepare("run", `UPDATE "sponsorTimes" SET "shadowHidden" = ? WHERE "UUID" = ? AND "shadowHidden" = ?`, [
+        shadowHide ? Visibility.HIDDEN : Visibility.PENDING,
+        segment.UUID,
+        Visibility.VISIBLE,
+    ]);
+    const pending = !shadowHide && (segment.shadowHidden === Visibility.VISIBLE || segment.shadowHidden === Visibility.PENDING);
+    if (pending) {
+        await requeueSegment(segment.UUID, segment.videoID, segment.cid, segment.userID as HashedUserID, pendingReason, Date.now());
+    }
+    return { rejectReason: null, pending };
+}
+
+/**
+ * Edit the times, category or description of an existing segment without changing its UUID.
+ * Only the original submitter or a VIP can edit, every edit is stored as a revision.
+ */
+export async function postSegmentEdit(req: Request, res: Response): Promise<Response> {
+    const UUID = req.body.UUID as SegmentUUID;
+    const paramUserID = req.body.userID as UserID;
+    if (typeof UUID !== "string" || !UUID || typeof paramUserID !== "string" || !paramUserID) {
+        return res.status(400).json({ message: "Bad Format" });
+    }
+
+    const userID = await getHashCache(paramUserID);
+    const isVIP = await isUserVIP(userID);
+
+    const lock = await acquireLock(`segmentEdit:${UUID}`);
+    if (!lock.status) {
+        return res.status(429).json({ message: "This segment is being edited" });
+    }
+
+    try {
+        const segment = await getSegmentFromDBByUUID(UUID);
+        if (!segment) {
+            return res.status(404).json({ message: "Segment not found" });
+        }
+        if (!isVIP) {
+            if (segment.userID !== userID || (await isUserBanned(userID))) {
+                return res.status(403).json({ message: "Only the submitter or a VIP can edit this segment" });
+            }
+            if (segment.locked || segment.hidden || segment.votes <= -2) {
+                return res.status(403).json({ message: "Locked, hidden or removed segments can only be edited by a VIP" });
+            }
+        }
+        if (segment.portUUID) {
+            // ported segments are overwritten by the next sync
+            return res.status(400).json({ message: "Ported segments can not be edited" });
+        }
+
+        const edit: SegmentEdit = {
+            startTime: req.body.startTime === undefined ? segment.startTime : parseFloat(req.body.startTime),
+            endTime: req.body.endTime === undefined ? segment.endTime : parseFloat(req.body.endTime),
+            category: (req.body.category ?? segment.category) as Category,
+            description: req.body.description ?? segment.description ?? "",
+        };
+        if (typeof edit.description !== "string" || (edit.description.length !== 0 && segment.actionType !== ActionType.Chapter)) {
+            return res.status(400).json({ message: "Only chapters can have a description" });
+        }
+        if (edit.description.length > 200) {
+            return res.status(400).json({ message: "Chapter name is too long" });
+        }
+        if (
+            edit.startTime === segment.startTime &&
+            edit.endTime === segment.endTime &&
+            edit.category === segment.category &&
+            edit.description === (segment.description ?? "")
+        ) {
+            return res.status(400).json({ message: "Nothing to change" });
+        }
+
+        // an edit is checked like a new submission of the edited segment
+        const edited: IncomingSegment = {
+            category: edit.category,
+            actionType: segment.actionType,
+            segment: [`${edit.startTime}`, `${edit.endTime}`],
+            description: edit.description,
+        };
+        const apiVideoDetails = await getVideoDetailsByService(segment.videoID, segment.service);
+        const isTempVIP = !isVIP && (await isUserTempVIP(userID, segment.videoID, apiVideoDetails));
+        const lockedCategoryList = await getEditLocks(segment, edit, apiVideoDetails);
+        const { result, duplicateUUID } = await checkSegment(edited, segment.videoID, segment.service, isVIP, isTempVIP, lockedCategoryList);
+        if (!result.pass) {
+            return res.status(result.errorCode).json({ message: result.errorMessage });
+        }
+        const invalidReason = checkEditDuration(segment, edit) ?? checkEditCategory(segment, edit, userID);
+        if (invalidReason) {
+            return res.status(400).json({ message: invalidReason });
+        }
+        if (duplicateUUID && duplicateUUID !== segment.UUID) {
+            return res.status(409).json({ message: "This segment has already been submitted" });
+        }
+
+        let pending = false;
+        if (!(isVIP || isTempVIP)) {
+            const moderation = await moderateEdit(segment, edited, userID, apiVideoDetails);
+            if (moderation.rejectReason) {
+                return res.status(403).json({ message: moderation.rejectReason });
+            }
+            pending = moderation.pending;
+        }
+
+        const revision = await editSegment(segment, edit, getVotesAfterEdit(segment, edit, isVIP), userID, isVIP);
+        Logger.info(`Segment ${UUID} edited by ${userID}, revision ${revision.revision}`);
+        return res.json({ ...revision, pending });
+    } catch (e) {
+        Logger.error(e as string);
+        return res.sendStatus(500);
+    } finally {
+        lock.unlock();
+    }
+}
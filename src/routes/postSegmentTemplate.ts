@@ -0,0 +1,81 @@
+import { Request, Response } from "express";
+import { config } from "../config";
+import { deleteSegmentTemplate, saveSegmentTemplate } from "../dao/season";
+import { applySegmentTemplates, getSeasonByVideoID } from "../service/seasonService";
+import { validate } from "../service/validate/bilibiliID";
+import { isUserVIP } from "../service/VIPUserService";
+import { SegmentTemplateDB } from "../types/season.model";
+import { ActionType, Category, VideoID } from "../types/segments.model";
+import { UserID } from "../types/user.model";
+import { getSegmentTemplateUUID } from "../utils/getSubmissionUUID";
+import { getHashCache } from "../utils/HashCacheUtil";
+import { Logger } from "../utils/logger";
+
+/**
+ * Create a segment template for the season of a video.
+ * A segment is created from it at the same times in every episode of the season, and in episodes uploaded later.
+ */
+export async function postSegmentTemplate(req: Request, res: Response): Promise<Response> {
+    const paramUserID = req.body.userID as UserID;
+    const videoID = req.body.videoID as VideoID;
+    const category = req.body.category as Category;
+    const actionType = (req.body.actionType as ActionType) ?? ActionType.Skip;
+    const description: string = req.body.description ?? "";
+    const [startTime, endTime] = Array.isArray(req.body.segment) ? req.body.segment.map(parseFloat) : [NaN, NaN];
+
+    if (
+        typeof paramUserID !== "string" ||
+        !paramUserID ||
+        !validate(videoID) ||
+        !config.categoryList.includes(category) ||
+        !config.categorySupport[category]?.includes(actionType) ||
+        actionType === ActionType.Full ||
+        actionType === ActionType.Poi ||
+        typeof description !== "string" ||
+        !(startTime >= 0) ||
+        !(endTime > startTime)
+    ) {
+        return res.status(400).json({ message: "Bad Format" });
+    }
+
+    const userID = await getHashCache(paramUserID);
+    if (!(await isUserVIP(userID))) {
+        return res.status(403).json({ message: "Not a VIP" });
+    }
+
+    try {
+        const season = await getSeasonByVideoID(videoID, true);
+        if (!season) {
+            return res.status(404).json({ message: "Video is not in a season" });
+        }
+
+        const timeSubmitted = Date.now();
+        const template: SegmentTemplateDB = {
+            UUID: getSegmentTemplateUUID(season.id, category, actionType, startTime, endTime, userID, timeSubmitted),
+            seasonID: season.id,
+            videoID,
+            startTime,
+            endTime,
+            category,
+            actionType,
+            description,
+            userID,
+            hidden: 0,
+            timeSubmitted,
+        };
+        await saveSegmentTemplate(template);
+        let applied: number;
+        try {
+            applied = await applySegmentTemplates(season);
+        } catch (e) {
+            // nothing was applied, without the template the request can be sent again
+            await deleteSegmentTemplate(template.UUID);
+            throw e;
+        }
+
+        return res.json({ UUID: template.UUID, seasonID: season.id, applied });
+    } catch (e) {
+        Logger.error(e as string);
+        return res.sendStatus(500);
+    }
+}
@@ -1,12 +1,23 @@
 import axios from "axios";
 import { Request, Response } from "express";
 import { config } from "../config";
+import { addToModerationQueue } from "../dao/moderationQueue";
+import { getSeasonLockCategories } from "../dao/season";
 import { saveVideoInfo } from "../dao/videoInfo";
 import { db, privateDB } from "../databases/databases";
-import { getVideoDetails, VideoDetail } from "../service/api/getVideoDetails";
+import { getVideoDetailsByService, VideoDetail } from "../service/api/getVideoDetails";
+import {
+    AutoModerationHit,
+    AutoModerationSubmission,
+    evaluateAutoModerationRules,
+    recordAutoModerationHits,
+} from "../service/autoModerationService";
 import { checkBanStatus } from "../service/checkBan";
+import { getSegmentPendingReason, getUserPendingReason } from "../service/moderationQueueService";
 import { acquireLock } from "../service/redis/redisLock";
 import { getReputation } from "../service/reputationService";
+import { applySegmentTemplates } from "../service/seasonService";
+import * as bangumiID from "../service/validate/bangumiID";
 import * as biliID from "../service/validate/bilibiliID";
 import { validateCid, validatePrivateUserID } from "../service/validate/validator";
 import { isUserTempVIP, isUserVIP } from "../service/VIPUserService";
@@ -17,10 +28,15 @@ import {
     IncomingSegment,
     IPAddress,
     SegmentUUID,
+    SegmentVerdict,
     Service,
+    SubmissionError,
+    SubmissionErrorCode,
     VideoDuration,
     VideoID,
+    Visibility,
 } from "../types/segments.model";
+import { PendingReason } from "../types/moderation.model";
 import { HashedUserID, UserID } from "../types/user.model";
 import { durationEquals } from "../utils/durationUtil";
 import { getHash } from "../utils/HashCacheUtil";
@@ -39,6 +55,15 @@ type CheckResult = {
     pass: boolean;
     errorMessage: string;
     errorCode: number;
+    code?: SubmissionErrorCode;
+};
+
+export type LockedCategory = { category: Category; actionType: ActionType; reason: string };
+
+type SegmentCheckResult = {
+    result: CheckResult;
+    duplicateUUID: SegmentUUID | null;
+    lock: LockedCategory | null;
 };
 
 const CHECK_PASS: CheckResult = {
@@ -47,66 +72,43 @@ const CHECK_PASS: CheckResult = {
     errorCode: 0,
 };
 
-// callback:  function(reject: "String containing reason the submission was rejected")
-// returns: string when an error, false otherwise
+// returns the reason the submission was rejected, or false, and every rule hit
 
 // Looks like this was broken for no defined youtube key - fixed but IMO we shouldn't return
 //   false for a pass - it was confusing and lead to this bug - any use of this function in
 //   the future could have the same problem.
 async function autoModerateSubmission(
     apiVideoDetails: VideoDetail,
-    submission: {
-        videoID: VideoID;
-        cid: string;
-        userID: HashedUserID;
-        segments: IncomingSegment[];
-        service: Service;
-        videoDuration: number;
-    }
-) {
+    submission: AutoModerationSubmission
+): Promise<{ rejectReason: string | false; hits: AutoModerationHit[] }> {
     // check if cid exist
     const pageDetail = apiVideoDetails.page.filter((p) => p.cid === submission.cid);
     if (pageDetail.length == 0) {
-        return "分P视频cid错误";
+        return { rejectReason: "分P视频cid错误", hits: [] };
     }
     // get duration from API
     const apiDuration = pageDetail[0].duration;
 
     // if API fail or returns 0, get duration from client
     const duration = apiDuration || submission.videoDuration;
-    // return false on undefined or 0
-    if (!duration) return false;
-
-    const segments = submission.segments;
-    // map all times to float array
-    const allSegmentTimes = segments
-        .filter((s) => s.actionType !== ActionType.Chapter)
-        .map((segment) => [parseFloat(segment.segment[0]), parseFloat(segment.segment[1])]);
 
-    // add previous submissions by this user
-    const allSubmittedByUser = (await db.prepare(
-        "all",
-        `SELECT "startTime", "endTime" FROM "sponsorTimes" WHERE "userID" = ? AND "videoID" = ? AND "votes" > -1 AND "actionType" != 'chapter' AND "hidden" = 0`,
-        [submission.userID, submission.videoID]
-    )) as { startTime: string; endTime: string }[];
+    const hits = await evaluateAutoModerationRules({ ...submission, videoDuration: duration });
+    return { rejectReason: hits.find((hit) => hit.action === "reject")?.message ?? false, hits };
+}
 
-    if (allSubmittedByUser) {
-        //add segments the user has previously submitted
-        const allSubmittedTimes = allSubmittedByUser.map((segment) => [parseFloat(segment.startTime), parseFloat(segment.endTime)]);
-        allSegmentTimes.push(...allSubmittedTimes);
+export function getPendingReason(
+    segment: IncomingSegment,
+    userPendingReason: PendingReason | null,
+    autoModerationHits: AutoModerationHit[],
+    videoDuration: number
+): PendingReason | null {
+    if (userPendingReason) {
+        return userPendingReason;
     }
-
-    //merge all the times into non-overlapping arrays
-    const allSegmentsSorted = mergeTimeSegments(allSegmentTimes.sort((a, b) => a[0] - b[0] || a[1] - b[1]));
-
-    //sum all segment times together
-    const allSegmentDuration = allSegmentsSorted.reduce((acc, curr) => acc + (curr[1] - curr[0]), 0);
-
-    if (allSegmentDuration > (duration / 100) * 80) {
-        // Reject submission if all segments combine are over 80% of the video
-        return "Total length of your submitted segments are over 80% of the video.";
+    if (autoModerationHits.some((hit) => hit.action === "queue" && hit.segments.includes(segment))) {
+        return PendingReason.AutoModerator;
     }
-    return false;
+    return getSegmentPendingReason(segment.category, parseFloat(segment.segment[0]), parseFloat(segment.segment[1]), videoDuration);
 }
 
 async function checkUserActiveWarning(userID: HashedUserID): Promise<CheckResult> {
@@ -134,12 +136,57 @@ async function checkUserActiveWarning(userID: HashedUserID): Promise<CheckResult
             pass: false,
             errorMessage: defaultMessage + (warnings[0]?.reason?.length > 0 ? `\n\nTip message: '${warnings[0].reason}'` : ""),
             errorCode: 403,
+            code: SubmissionErrorCode.ActiveWarning,
         };
     }
 
     return CHECK_PASS;
 }
 
+async function checkSegmentFields(
+    segmentPair: IncomingSegment,
+    hashedUserID: HashedUserID
+): Promise<(SubmissionError & { field: string })[]> {
+    const fieldErrors: (SubmissionError & { field: string })[] = [];
+
+    // validate start and end times (no : marks)
+    const startTime = segmentPair.segment[0];
+    const endTime = segmentPair.segment[1];
+    if ((typeof startTime === "string" && startTime.includes(":")) || (typeof endTime === "string" && endTime.includes(":"))) {
+        fieldErrors.push({ code: SubmissionErrorCode.TimeFormat, field: "segment time", message: "Segment times must be in seconds" });
+    }
+
+    if (
+        typeof segmentPair.description !== "string" ||
+        (segmentPair.description.length !== 0 && segmentPair.actionType !== ActionType.Chapter)
+    ) {
+        fieldErrors.push({
+            code: SubmissionErrorCode.InvalidDescription,
+            field: "segment description",
+            message: "Only chapters can have a description",
+        });
+    }
+
+    if (segmentPair.actionType === ActionType.Chapter && segmentPair.description.length > 200) {
+        fieldErrors.push({
+            code: SubmissionErrorCode.ChapterNameTooLong,
+            field: "chapter name (too long)",
+            message: "Chapter name is too long",
+        });
+    }
+
+    const permission = await canSubmit(hashedUserID, segmentPair.category);
+    if (!permission.canSubmit) {
+        fieldErrors.push({
+            code: SubmissionErrorCode.NoPermission,
+            field: `permission to submit ${segmentPair.category}`,
+            message: permission.reason,
+        });
+    }
+
+    return fieldErrors;
+}
+
 async function checkInvalidFields(
     videoID: VideoID,
     cid: string,
@@ -162,6 +209,10 @@ async function checkInvalidFields(
             errors.push("无法提取BVID");
         }
     }
+    if (service === Service.Bangumi && config.mode !== "test" && !bangumiID.validate(videoID)) {
+        invalidFields.push("videoID");
+        errors.push("无法提取番剧ID");
+    }
 
     let pass: boolean;
     let errorMessage: string;
@@ -181,32 +232,15 @@ async function checkInvalidFields(
     if (!Array.isArray(segments) || segments.length == 0) {
         invalidFields.push("segments");
     }
-    // validate start and end times (no : marks)
     for (const segmentPair of segments) {
-        const startTime = segmentPair.segment[0];
-        const endTime = segmentPair.segment[1];
-        if ((typeof startTime === "string" && startTime.includes(":")) || (typeof endTime === "string" && endTime.includes(":"))) {
-            invalidFields.push("segment time");
-        }
-
-        if (
-            typeof segmentPair.description !== "string" ||
-            (segmentPair.description.length !== 0 && segmentPair.actionType !== ActionType.Chapter)
-        ) {
-            invalidFields.push("segment description");
-        }
-
-        if (segmentPair.actionType === ActionType.Chapter && segmentPair.description.length > 200) {
-            invalidFields.push("chapter name (too long)");
-        }
-
-        const permission = await canSubmit(hashedUserID, segmentPair.category);
-        if (!permission.canSubmit) {
-            Logger.warn(
-                `Rejecting submission due to lack of permissions for category ${segmentPair.category}: ${segmentPair.segment} ${hashedUserID} ${videoID} ${videoDurationParam} ${userAgent}`
-            );
-            invalidFields.push(`permission to submit ${segmentPair.category}`);
-            errors.push(permission.reason);
+        for (const fieldError of await checkSegmentFields(segmentPair, hashedUserID)) {
+            invalidFields.push(fieldError.field);
+            if (fieldError.code === SubmissionErrorCode.NoPermission) {
+                Logger.warn(
+                    `Rejecting submission due to lack of permissions for category ${segmentPair.category}: ${segmentPair.segment} ${hashedUserID} ${videoID} ${videoDurationParam} ${userAgent}`
+                );
+                errors.push(fieldError.message);
+            }
         }
     }
 
@@ -218,167 +252,188 @@ async function checkInvalidFields(
             pass: false,
             errorMessage: `No valid ${formattedFields}.${formattedErrors}`,
             errorCode: 400,
+            code: SubmissionErrorCode.InvalidFields,
         };
     }
 
     return CHECK_PASS;
 }
 
-async function checkEachSegmentValid(
-    rawIP: IPAddress,
-    paramUserID: UserID,
-    userID: HashedUserID,
+/**
+ * check a single segment without side effects, the action type of old clients is fixed in place
+ */
+export async function checkSegment(
+    segment: IncomingSegment,
     videoID: VideoID,
-    cid: string,
-    segments: IncomingSegment[],
     service: Service,
     isVIP: boolean,
     isTempVIP: boolean,
-    lockedCategoryList: Array<any>
-): Promise<CheckResult> {
-    for (let i = 0; i < segments.length; i++) {
-        if (segments[i] === undefined || segments[i].segment === undefined || segments[i].category === undefined) {
-            //invalid request
-            return { pass: false, errorMessage: "One of your segments are invalid", errorCode: 400 };
-        }
+    lockedCategoryList: LockedCategory[]
+): Promise<SegmentCheckResult> {
+    const fail = (code: SubmissionErrorCode, errorMessage: string, errorCode = 400, lock: LockedCategory = null): SegmentCheckResult => ({
+        result: { pass: false, errorMessage, errorCode, code },
+        duplicateUUID: null,
+        lock,
+    });
 
-        if (!config.categoryList.includes(segments[i].category)) {
-            return { pass: false, errorMessage: "Category doesn't exist.", errorCode: 400 };
-        }
+    if (segment === undefined || segment.segment === undefined || segment.category === undefined) {
+        //invalid request
+        return fail(SubmissionErrorCode.InvalidSegment, "One of your segments are invalid");
+    }
 
-        // Reject segment if it's in the locked categories list
-        const lockIndex = lockedCategoryList.findIndex(
-            (c) => segments[i].category === c.category && segments[i].actionType === c.actionType
+    if (!config.categoryList.includes(segment.category)) {
+        return fail(SubmissionErrorCode.InvalidCategory, "Category doesn't exist.");
+    }
+
+    // Reject segment if it's in the locked categories list
+    const lock = lockedCategoryList.find((c) => segment.category === c.category && segment.actionType === c.actionType) ?? null;
+    if (!isVIP && lock) {
+        return fail(
+            SubmissionErrorCode.CategoryLocked,
+            `Users have voted that all the segments required for this video have already been submitted for the following category: ` +
+                `'${segment.category}'\n` +
+                `${lock.reason?.length !== 0 ? `\nReason: '${lock.reason}'\n` : ""}` +
+                `You may need to refresh if you don't see the segments.\n` +
+                `${
+                    segment.category === "sponsor"
+                        ? "\nMaybe the segment you are submitting is a different category that you have not enabled and is not a sponsor. " +
+                          "Categories that aren't sponsor, such as self-promotion can be enabled in the options.\n"
+                        : ""
+                }` +
+                `\nIf you believe this is incorrect, please contact someone on chat.sponsor.ajay.app, discord.gg/SponsorBlock or matrix.to/#/#sponsor:ajay.app`,
+            403,
+            lock
         );
-        if (!isVIP && lockIndex !== -1) {
-            QueryCacher.clearSegmentCache({
-                videoID,
-                cid,
-                hashedVideoID: await getHashCache(videoID, 1),
-                service,
-                userID,
-            });
+    }
 
-            Logger.warn(
-                `Caught a submission for a locked category. userID: '${userID}', videoID: '${videoID}', category: '${segments[i].category}', times: ${segments[i].segment}`
-            );
-            return {
-                pass: false,
-                errorCode: 403,
-                errorMessage:
-                    `Users have voted that all the segments required for this video have already been submitted for the following category: ` +
-                    `'${segments[i].category}'\n` +
-                    `${lockedCategoryList[lockIndex].reason?.length !== 0 ? `\nReason: '${lockedCategoryList[lockIndex].reason}'\n` : ""}` +
-                    `You may need to refresh if you don't see the segments.\n` +
-                    `${
-                        segments[i].category === "sponsor"
-                            ? "\nMaybe the segment you are submitting is a different category that you have not enabled and is not a sponsor. " +
-                              "Categories that aren't sponsor, such as self-promotion can be enabled in the options.\n"
-                            : ""
-                    }` +
-                    `\nIf you believe this is incorrect, please contact someone on chat.sponsor.ajay.app, discord.gg/SponsorBlock or matrix.to/#/#sponsor:ajay.app`,
-            };
-        }
+    // For old clients
+    if (segment.category === "poi_highlight" && segment.actionType !== ActionType.Poi) {
+        segment.actionType = ActionType.Poi;
+    }
 
-        // For old clients
-        if (segments[i].category === "poi_highlight" && segments[i].actionType !== ActionType.Poi) {
-            segments[i].actionType = ActionType.Poi;
-        }
+    if (!config.categorySupport[segment.category]?.includes(segment.actionType)) {
+        return fail(SubmissionErrorCode.ActionTypeNotSupported, "ActionType is not supported with this category.", 400, lock);
+    }
 
-        if (!config.categorySupport[segments[i].category]?.includes(segments[i].actionType)) {
-            return { pass: false, errorMessage: "ActionType is not supported with this category.", errorCode: 400 };
-        }
+    const startTime = parseFloat(segment.segment[0]);
+    const endTime = parseFloat(segment.segment[1]);
+
+    if (
+        isNaN(startTime) ||
+        isNaN(endTime) ||
+        startTime === Infinity ||
+        endTime === Infinity ||
+        startTime < 0 ||
+        startTime > endTime ||
+        (segment.actionType !== ActionType.Poi && segment.actionType !== ActionType.Full && startTime === endTime) ||
+        (segment.actionType === ActionType.Poi && startTime !== endTime) ||
+        (segment.actionType === ActionType.Full && (startTime !== 0 || endTime !== 0))
+    ) {
+        //invalid request
+        return fail(
+            SubmissionErrorCode.InvalidTimes,
+            "One of your segments times are invalid (too short, endTime before startTime, etc.)",
+            400,
+            lock
+        );
+    }
 
-        const startTime = parseFloat(segments[i].segment[0]);
-        const endTime = parseFloat(segments[i].segment[1]);
+    // Check for POI segments before some seconds
+    if (!(isVIP || isTempVIP) && segment.actionType === ActionType.Poi && startTime < config.poiMinimumStartTime) {
+        return fail(SubmissionErrorCode.PoiTooEarly, `POI cannot be that early`, 400, lock);
+    }
 
-        if (
-            isNaN(startTime) ||
-            isNaN(endTime) ||
-            startTime === Infinity ||
-            endTime === Infinity ||
-            startTime < 0 ||
-            startTime > endTime ||
-            (segments[i].actionType !== ActionType.Poi && segments[i].actionType !== ActionType.Full && startTime === endTime) ||
-            (segments[i].actionType === ActionType.Poi && startTime !== endTime) ||
-            (segments[i].actionType === ActionType.Full && (startTime !== 0 || endTime !== 0))
-        ) {
-            //invalid request
-            return {
-                pass: false,
-                errorMessage: "One of your segments times are invalid (too short, endTime before startTime, etc.)",
-                errorCode: 400,
-            };
-        }
+    if (!(isVIP || isTempVIP) && segment.category === "sponsor" && segment.actionType === ActionType.Skip && endTime - startTime < 1) {
+        // Too short
+        return fail(SubmissionErrorCode.TooShort, "Segments must be longer than 1 second long", 400, lock);
+    }
 
-        // Check for POI segments before some seconds
-        if (!(isVIP || isTempVIP) && segments[i].actionType === ActionType.Poi && startTime < config.poiMinimumStartTime) {
-            return { pass: false, errorMessage: `POI cannot be that early`, errorCode: 400 };
-        }
+    //check if this info has already been submitted before
+    const duplicateCheck2Row = await db.prepare(
+        "get",
+        `SELECT "UUID" FROM "sponsorTimes" WHERE "startTime" = ?
+        and "endTime" = ? and "category" = ? and "actionType" = ? and "description" = ? and "videoID" = ? and "service" = ?`,
+        [startTime, endTime, segment.category, segment.actionType, segment.description, videoID, service]
+    );
 
-        if (
-            !(isVIP || isTempVIP) &&
-            segments[i].category === "sponsor" &&
-            segments[i].actionType === ActionType.Skip &&
-            endTime - startTime < 1
-        ) {
-            // Too short
-            return { pass: false, errorMessage: "Segments must be longer than 1 second long", errorCode: 400 };
+    return { result: CHECK_PASS, duplicateUUID: duplicateCheck2Row?.UUID ?? null, lock };
+}
+
+async function checkEachSegmentValid(
+    rawIP: IPAddress,
+    paramUserID: UserID,
+    userID: HashedUserID,
+    videoID: VideoID,
+    cid: string,
+    segments: IncomingSegment[],
+    service: Service,
+    isVIP: boolean,
+    isTempVIP: boolean,
+    lockedCategoryList: LockedCategory[]
+): Promise<CheckResult> {
+    for (let i = 0; i < segments.length; i++) {
+        const { result, duplicateUUID } = await checkSegment(segments[i], videoID, service, isVIP, isTempVIP, lockedCategoryList);
+        if (!result.pass) {
+            if (result.code === SubmissionErrorCode.CategoryLocked) {
+                QueryCacher.clearSegmentCache({
+                    videoID,
+                    cid,
+                    hashedVideoID: await getHashCache(videoID, 1),
+                    service,
+                    userID,
+                });
+
+                Logger.warn(
+                    `Caught a submission for a locked category. userID: '${userID}', videoID: '${videoID}', category: '${segments[i].category}', times: ${segments[i].segment}`
+                );
+            }
+            return result;
         }
 
-        //check if this info has already been submitted before
-        const duplicateCheck2Row = await db.prepare(
-            "get",
-            `SELECT "UUID" FROM "sponsorTimes" WHERE "startTime" = ?
-            and "endTime" = ? and "category" = ? and "actionType" = ? and "description" = ? and "videoID" = ? and "service" = ?`,
-            [startTime, endTime, segments[i].category, segments[i].actionType, segments[i].description, videoID, service]
-        );
-        if (duplicateCheck2Row) {
+        if (duplicateUUID) {
             segments[i].ignoreSegment = true;
 
             if (segments[i].actionType === ActionType.Full) {
                 // Forward as vote
-                await vote(rawIP, duplicateCheck2Row.UUID, paramUserID, 1);
+                await vote(rawIP, duplicateUUID, paramUserID, 1);
                 continue;
             }
         }
     }
 
     if (segments.every((s) => s.ignoreSegment && s.actionType !== ActionType.Full)) {
-        return { pass: false, errorMessage: "该片段已经被提交！", errorCode: 409 };
+        return { pass: false, errorMessage: "该片段已经被提交！", errorCode: 409, code: SubmissionErrorCode.AllDuplicates };
     }
 
     return CHECK_PASS;
 }
 
-async function checkByAutoModerator(
+export async function checkByAutoModerator(
     videoID: VideoID,
     cid: string,
     userID: HashedUserID,
     segments: IncomingSegment[],
     service: Service,
     apiVideoDetails: VideoDetail,
-    videoDuration: number
-): Promise<CheckResult> {
+    videoDuration: number,
+    recordHits = true
+): Promise<CheckResult & { hits: AutoModerationHit[] }> {
     // Auto moderator check
-    if (service == Service.YouTube) {
-        const autoModerateResult = await autoModerateSubmission(apiVideoDetails, {
-            videoID,
-            cid,
-            userID,
-            segments,
-            service,
-            videoDuration,
-        });
-        if (autoModerateResult) {
-            return {
-                pass: false,
-                errorCode: 403,
-                errorMessage: `Submissions rejected: ${autoModerateResult} If this is an issue, send a message on Discord.`,
-            };
-        }
+    const submission = { videoID, cid, userID, segments, service, videoDuration };
+    const { rejectReason, hits } = await autoModerateSubmission(apiVideoDetails, submission);
+    if (recordHits) {
+        recordAutoModerationHits(hits, submission);
     }
-    return CHECK_PASS;
+    if (rejectReason) {
+        return {
+            pass: false,
+            errorCode: 403,
+            errorMessage: `Submissions rejected: ${rejectReason} If this is an issue, send a message on Discord.`,
+            code: SubmissionErrorCode.AutoModerator,
+            hits,
+        };
+    }
+    return { ...CHECK_PASS, hits };
 }
 
 async function updateDataIfVideoDurationChange(
@@ -386,9 +441,10 @@ async function updateDataIfVideoDurationChange(
     cid: string,
     service: Service,
     videoDuration: VideoDuration,
-    videoDurationParam: VideoDuration
+    videoDurationParam: VideoDuration,
+    readOnly = false
 ) {
-    let lockedCategoryList = await db.prepare(
+    let lockedCategoryList: LockedCategory[] = await db.prepare(
         "all",
         'SELECT category, "actionType", reason from "lockCategories" where "videoID" = ? AND "service" = ?',
         [videoID, service]
@@ -413,7 +469,8 @@ async function updateDataIfVideoDurationChange(
 
     // Don't use cache if we don't know the video duration, or the client claims that it has changed
     // const ignoreCache = !cid || !videoDurationParam || previousSubmissions.length === 0 || videoDurationChanged(videoDurationParam);
-    const apiVideoDetails: VideoDetail = await getVideoDetails(videoID, true);
+    // a validation only reads, so it keeps the cached details
+    const apiVideoDetails: VideoDetail = await getVideoDetailsByService(videoID, service, !readOnly);
 
     // if video only has 1 p, use that
     if (!cid && apiVideoDetails?.page.length == 1) {
@@ -434,7 +491,11 @@ async function updateDataIfVideoDurationChange(
     }
 
     // Only treat as difference if both the api duration and submitted duration have changed
-    if (videoDurationChanged(videoDuration) && (!videoDurationParam || videoDurationChanged(videoDurationParam))) {
+    const durationChanged = videoDurationChanged(videoDuration) && (!videoDurationParam || videoDurationChanged(videoDurationParam));
+    if (durationChanged && readOnly) {
+        // report the submission as if the locks were already removed
+        lockedCategoryList = [];
+    } else if (durationChanged) {
         // Hide all previous submissions
         await db.prepare(
             "run",
@@ -449,9 +510,15 @@ async function updateDataIfVideoDurationChange(
         deleteLockCategories(videoID, null, null, service).catch((e) => Logger.error(`deleting lock categories: ${e}`));
     }
 
+    // season locks stay when the duration of one of its videos changes
+    if (apiVideoDetails.season) {
+        lockedCategoryList = [...lockedCategoryList, ...(await getSeasonLockCategories(apiVideoDetails.season.id))];
+    }
+
     return {
         cid,
         videoDuration,
+        durationChanged,
         apiVideoDetails,
         lockedCategoryList,
     };
@@ -523,34 +590,33 @@ export async function postSkipSegments(req: Request, res: Response): Promise<Res
         return;
     }
 
-    const invalidCheckResult = await checkInvalidFields(
-        videoID,
-        cid,
-        paramUserID,
-        userID,
-        segments,
-        videoDurationParam,
-        userAgent,
-        service
-    );
-    if (!invalidCheckResult.pass) {
-        lock.unlock();
-        return res.status(invalidCheckResult.errorCode).send(invalidCheckResult.errorMessage);
-    }
-
-    const userWarningCheckResult = await checkUserActiveWarning(userID);
-    if (!userWarningCheckResult.pass) {
-        Logger.warn(
-            `Caught a submission for a warned user. userID: '${userID}', videoID: '${videoID}', category: '${segments.reduce<string>(
-                (prev, val) => `${prev} ${val.category}`,
-                ""
-            )}', times: ${segments.reduce<string>((prev, val) => `${prev} ${val.segment}`, "")}`
+    // the checks may reject, the lock is released in the finally block
+    try {
+        const invalidCheckResult = await checkInvalidFields(
+            videoID,
+            cid,
+            paramUserID,
+            userID,
+            segments,
+            videoDurationParam,
+            userAgent,
+            service
         );
-        lock.unlock();
-        return res.status(userWarningCheckResult.errorCode).send(userWarningCheckResult.errorMessage);
-    }
+        if (!invalidCheckResult.pass) {
+            return res.status(invalidCheckResult.errorCode).send(invalidCheckResult.errorMessage);
+        }
+
+        const userWarningCheckResult = await checkUserActiveWarning(userID);
+        if (!userWarningCheckResult.pass) {
+            Logger.warn(
+                `Caught a submission for a warned user. userID: '${userID}', videoID: '${videoID}', category: '${segments.reduce<string>(
+                    (prev, val) => `${prev} ${val.category}`,
+                    ""
+                )}', times: ${segments.reduce<string>((prev, val) => `${prev} ${val.segment}`, "")}`
+            );
+            return res.status(userWarningCheckResult.errorCode).send(userWarningCheckResult.errorMessage);
+        }
 
-    try {
         const newData = await updateDataIfVideoDurationChange(videoID, cid, service, videoDuration, videoDurationParam);
         if (!cid && !newData) {
             return res.status(400).send("目前插件暂不支持分P视频！");
@@ -584,6 +650,7 @@ export async function postSkipSegments(req: Request, res: Response): Promise<Res
             return res.status(segmentCheckResult.errorCode).send(segmentCheckResult.errorMessage);
         }
 
+        let autoModerationHits: AutoModerationHit[] = [];
         if (!(isVIP || isTempVIP)) {
             const autoModerateCheckResult = await checkByAutoModerator(
                 videoID,
@@ -598,6 +665,7 @@ export async function postSkipSegments(req: Request, res: Response): Promise<Res
                 lock.unlock();
                 return res.status(autoModerateCheckResult.errorCode).send(autoModerateCheckResult.errorMessage);
             }
+            autoModerationHits = autoModerateCheckResult.hits;
         }
 
         // Will be filled when submitting
@@ -613,6 +681,9 @@ export async function postSkipSegments(req: Request, res: Response): Promise<Res
         const isBanned = await checkBanStatus(userID, hashedIP);
         const startingVotes = 0;
         const reputation = await getReputation(userID);
+        // VIPs are trusted, and banned users are shadow hidden anyway
+        const skipModeration = isVIP || isTempVIP || isBanned;
+        const userPendingReason = skipModeration ? null : await getUserPendingReason(userID, reputation);
 
         for (const segmentInfo of segments) {
             // Full segments are always rejected since there can only be one, so shadow hide wouldn't work
@@ -637,6 +708,11 @@ export async function postSkipSegments(req: Request, res: Response): Promise<Res
             const hashedVideoID = getHash(videoID, 1);
 
             const startingLocked = 0;
+            const pendingReason = skipModeration
+                ? null
+                : getPendingReason(segmentInfo, userPendingReason, autoModerationHits, videoDuration);
+            const shadowHide =
+                isBanned || autoModerationHits.some((hit) => hit.action === "shadowHide" && hit.segments.includes(segmentInfo));
             try {
                 await db.prepare(
                     "run",
@@ -659,7 +735,7 @@ export async function postSkipSegments(req: Request, res: Response): Promise<Res
                         service,
                         videoDuration,
                         reputation,
-                        isBanned ? 1 : 0,
+                        shadowHide ? Visibility.HIDDEN : pendingReason ? Visibility.PENDING : Visibility.VISIBLE,
                         hashedVideoID,
                         userAgent,
                         segmentInfo.description,
@@ -673,6 +749,10 @@ export async function postSkipSegments(req: Request, res: Response): Promise<Res
                     [videoID, cid, hashedIP, timeSubmitted, service]
                 );
 
+                if (pendingReason && !shadowHide) {
+                    await addToModerationQueue(UUID, videoID, cid, userID, pendingReason, timeSubmitted);
+                }
+
                 await saveVideoInfo(apiVideoDetails);
 
                 // Clear redis cache for this video
@@ -697,9 +777,16 @@ export async function postSkipSegments(req: Request, res: Response): Promise<Res
                 UUID: UUID,
                 category: segmentInfo.category,
                 segment: segmentInfo.segment,
+                // shadow hide hits are not revealed to the submitter
+                pending: !!pendingReason,
             });
         }
 
+        // the first submission of a new episode creates the segments of its season templates
+        if (apiVideoDetails.season) {
+            applySegmentTemplates(apiVideoDetails.season, videoID).catch((e) => Logger.error(`applying segment templates: ${e}`));
+        }
+
         return res.json(newSegments);
     } catch (err) {
         Logger.error(err as string);
@@ -709,28 +796,143 @@ export async function postSkipSegments(req: Request, res: Response): Promise<Res
     }
 }
 
-// Takes an array of arrays:
-// ex)
-// [
-//     [3, 40],
-//     [50, 70],
-//     [60, 80],
-//     [100, 150]
-// ]
-// => transforms to combining overlapping segments
-// [
-//     [3, 40],
-//     [50, 80],
-//     [100, 150]
-// ]
-function mergeTimeSegments(ranges: number[][]) {
-    const result: number[][] = [];
-    let last: number[];
-
-    ranges.forEach(function (r) {
-        if (!last || r[0] > last[1]) result.push((last = r));
-        else if (r[1] > last[1]) last[1] = r[1];
-    });
+/**
+ * Run the checks of a submission without writing, hiding or voting anything, and return a verdict for each segment.
+ * `status` is the status code the submission would be answered with right now.
+ */
+export async function validateSkipSegments(req: Request, res: Response): Promise<Response> {
+    // eslint-disable-next-line prefer-const
+    let { videoID, cid, userID: paramUserID, service, videoDuration, videoDurationParam, segments, userAgent } = preprocessInput(req);
+
+    if (!paramUserID) {
+        return res.status(400).send("No userID provided");
+    }
+    const userID: HashedUserID = await getHashCache(paramUserID);
 
-    return result;
+    let status = 200;
+    let durationChanged = false;
+    const errors: SubmissionError[] = [];
+    const addError = (result: CheckResult) => {
+        if (status === 200) status = result.errorCode;
+        errors.push({ code: result.code, message: result.errorMessage });
+    };
+    const verdicts: SegmentVerdict[] = segments.map((segment, index) => ({
+        index,
+        category: segment?.category,
+        actionType: segment?.actionType,
+        segment: segment?.segment,
+        valid: true,
+        errors: [],
+        duplicateUUID: null,
+        lockReason: null,
+        pendingReason: null,
+    }));
+    const respond = () => {
+        verdicts.forEach((verdict) => (verdict.valid = verdict.errors.length === 0));
+        return res.json({ valid: status === 200, status, cid, videoDuration, durationChanged, errors, segments: verdicts });
+    };
+
+    try {
+        const invalidCheckResult = await checkInvalidFields(
+            videoID,
+            cid,
+            paramUserID,
+            userID,
+            segments,
+            videoDurationParam,
+            userAgent,
+            service
+        );
+        if (!invalidCheckResult.pass) {
+            addError(invalidCheckResult);
+            for (const verdict of verdicts) {
+                const fieldErrors = await checkSegmentFields(segments[verdict.index], userID);
+                verdict.errors.push(...fieldErrors.map(({ code, message }) => ({ code, message })));
+            }
+            return respond();
+        }
+
+        const userWarningCheckResult = await checkUserActiveWarning(userID);
+        if (!userWarningCheckResult.pass) {
+            addError(userWarningCheckResult);
+        }
+
+        const newData = await updateDataIfVideoDurationChange(videoID, cid, service, videoDuration, videoDurationParam, true);
+        if (!newData) {
+            if (cid) {
+                addError({ pass: false, errorMessage: "cid有误！请刷新页面再试", errorCode: 400, code: SubmissionErrorCode.InvalidCid });
+            } else {
+                addError({
+                    pass: false,
+                    errorMessage: "目前插件暂不支持分P视频！",
+                    errorCode: 400,
+                    code: SubmissionErrorCode.MultiPartUnsupported,
+                });
+            }
+            return respond();
+        }
+        ({ cid, videoDuration, durationChanged } = newData);
+
+        const isVIP = await isUserVIP(userID);
+        const isTempVIP = await isUserTempVIP(userID, videoID, newData.apiVideoDetails);
+
+        for (const verdict of verdicts) {
+            const segment = segments[verdict.index];
+            const { result, duplicateUUID, lock } = await checkSegment(
+                segment,
+                videoID,
+                service,
+                isVIP,
+                isTempVIP,
+                newData.lockedCategoryList
+            );
+            verdict.actionType = segment?.actionType;
+            verdict.duplicateUUID = duplicateUUID;
+            verdict.lockReason = lock ? (lock.reason ?? "") : null;
+            if (!result.pass) {
+                if (status === 200) status = result.errorCode;
+                verdict.errors.push({ code: result.code, message: result.errorMessage });
+            } else if (duplicateUUID) {
+                segment.ignoreSegment = true;
+            }
+        }
+        if (
+            verdicts.every((verdict) => verdict.errors.length === 0) &&
+            segments.every((s) => s.ignoreSegment && s.actionType !== ActionType.Full)
+        ) {
+            addError({ pass: false, errorMessage: "该片段已经被提交！", errorCode: 409, code: SubmissionErrorCode.AllDuplicates });
+        }
+
+        if (!(isVIP || isTempVIP)) {
+            const autoModerateCheckResult = await checkByAutoModerator(
+                videoID,
+                cid,
+                userID,
+                segments,
+                service,
+                newData.apiVideoDetails,
+                videoDurationParam,
+                false
+            );
+            if (!autoModerateCheckResult.pass) {
+                addError(autoModerateCheckResult);
+            }
+
+            // shadow hide hits are never reported
+            const userPendingReason = await getUserPendingReason(userID, await getReputation(userID));
+            for (const verdict of verdicts.filter((v) => v.errors.length === 0 && !v.duplicateUUID)) {
+                verdict.pendingReason = getPendingReason(
+                    segments[verdict.index],
+                    userPendingReason,
+                    autoModerateCheckResult.hits,
+                    videoDuration
+                );
+            }
+        }
+
+        return respond();
+    } catch (err) {
+        Logger.error(err as string);
+        return res.sendStatus(500);
+    }
 }
@@ -6,6 +6,7 @@ import { getHashCache } from "../utils/HashCacheUtil";
 import { HashedUserID, UserID } from "../types/user.model";
 import { config } from "../config";
 import { WarningType } from "../types/warning.model";
+import { QueryCacher } from "../utils/queryCacher";
 
 type warningEntry = {
     userID: HashedUserID;
@@ -73,6 +74,7 @@ export async function postWarning(req: Request, res: Response): Promise<Response
             resultStatus = "removed from";
         }
 
+        QueryCacher.touchLastModified("userInfo", userID);
         return res.status(200).json({
             message: `Tip ${resultStatus} user '${userID}'.`,
         });
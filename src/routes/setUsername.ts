@@ -7,6 +7,7 @@ import { HashedUserID } from "../types/user.model";
 import { getHashCache } from "../utils/HashCacheUtil";
 import { Logger } from "../utils/logger";
 import { acquireLock } from "../service/redis/redisLock";
+import { QueryCacher } from "../utils/queryCacher";
 
 function logUserNameChange(userID: string, newUserName: string, oldUserName: string, updatedByAdmin: boolean): Promise<Response> {
     return privateDB.prepare(
@@ -126,6 +127,7 @@ export async function setUsername(req: Request, res: Response): Promise<Response
         timings.push(Date.now());
 
         await logUserNameChange(hashedUserID, userName, oldUserName, adminUserIDInput !== undefined);
+        QueryCacher.touchLastModified("userInfo", hashedUserID);
 
         timings.push(Date.now());
 
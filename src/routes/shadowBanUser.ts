@@ -2,7 +2,8 @@ import { db } from "../databases/databases";
 import { getHashCache } from "../utils/HashCacheUtil";
 import { Request, Response } from "express";
 import { config } from "../config";
-import { Category, Service, VideoID, VideoIDHash } from "../types/segments.model";
+import { Category, Service, VideoID, VideoIDHash, Visibility } from "../types/segments.model";
+import { ModerationStatus } from "../types/moderation.model";
 import { UserID } from "../types/user.model";
 import { QueryCacher } from "../utils/queryCacher";
 import { parseCategories } from "../utils/parseParams";
@@ -93,7 +94,12 @@ export async function banUser(userID: UserID, enabled: boolean, unHideOldSubmiss
 async function unHideSubmissionsByUser(categories: string[], userID: UserID, type = 1) {
 
     if (categories.length) {
-        await db.prepare("run", `UPDATE "sponsorTimes" SET "shadowHidden" = '${type}' WHERE "userID" = ? AND "category" in (${categories.map((c) => `'${c}'`).join(",")})
+        // segments still waiting in the moderation queue go back to pending instead of becoming visible
+        let visibility = `'${type}'`;
+        if (type === Visibility.VISIBLE) {
+            visibility = `CASE WHEN "UUID" IN (SELECT "UUID" FROM "moderationQueue" WHERE "status" = '${ModerationStatus.Pending}') THEN ${Visibility.PENDING} ELSE ${type} END`;
+        }
+        await db.prepare("run", `UPDATE "sponsorTimes" SET "shadowHidden" = ${visibility} WHERE "userID" = ? AND "category" in (${categories.map((c) => `'${c}'`).join(",")})
                         AND NOT EXISTS ( SELECT "videoID", "category" FROM "lockCategories" WHERE
                         "sponsorTimes"."videoID" = "lockCategories"."videoID" AND "sponsorTimes"."service" = "lockCategories"."service" AND "sponsorTimes"."category" = "lockCategories"."category")`, [userID]);
     }
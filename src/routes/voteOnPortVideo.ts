@@ -1,8 +1,8 @@
 import { Request, Response } from "express";
 import { config } from "../config";
 import { db, privateDB } from "../databases/databases";
-import { PortVideoDB, PortVideoVotesDB, portVideoUUID } from "../types/portVideo.model";
-import { HiddenType, IPAddress, VideoID, VoteType } from "../types/segments.model";
+import { PortConflictSource, PortHistoryAction, PortHistoryReason, PortVideoDB, PortVideoVotesDB, portVideoUUID } from "../types/portVideo.model";
+import { IPAddress, VideoID, VoteType } from "../types/segments.model";
 import { HashedUserID, UserID } from "../types/user.model";
 import { validate } from "../service/validate/bilibiliID";
 import { getHash } from "../utils/HashCacheUtil";
@@ -13,6 +13,9 @@ import { isUserTempVIP, isUserVIP } from "../service/VIPUserService";
 import { Logger } from "../utils/logger";
 import { QueryCacher } from "../utils/queryCacher";
 import { acquireLock } from "../service/redis/redisLock";
+import { savePortVideoHistory } from "../dao/portVideo";
+import { hidePortedSegments, showPortedSegments } from "../dao/skipSegment";
+import { resolvePortVideoConflictByCid } from "../service/portConflictService";
 
 export async function voteOnPortVideo(req: Request, res: Response): Promise<Response> {
     const UUID = req.body.UUID as portVideoUUID;
@@ -154,26 +157,24 @@ export async function vote(
 
         if (newVote <= -2) {
             // mark all segments as hidden
-            await db.prepare("run", `UPDATE "sponsorTimes" SET "hidden" = ? WHERE "portUUID" = ?`, [
-                HiddenType.MismatchHidden,
-                UUID,
-            ]);
+            const affectedSegments = await hidePortedSegments(UUID, bvID);
+            await savePortVideoHistory(portVideo, PortHistoryAction.Hidden, PortHistoryReason.Downvoted, affectedSegments, userID);
             // clear redis cache
-            QueryCacher.clearPortVideoCache(bvID, getHash(bvID, 1));
-            QueryCacher.clearSegmentCacheByID(bvID);
+            QueryCacher.clearPortVideoCache(bvID, getHash(bvID, 1), portVideo.ytbID);
+            QueryCacher.clearSegmentCacheByID(bvID, portVideo.cid);
         } else if (newVote > -2 && oldVote <= -2) {
-            await db.prepare("run", `UPDATE "sponsorTimes" SET "hidden" = ? WHERE "portUUID" = ? AND hidden = ?`, [
-                HiddenType.Show,
-                UUID,
-                HiddenType.MismatchHidden,
-            ]);
+            const affectedSegments = await showPortedSegments(UUID, bvID);
+            await savePortVideoHistory(portVideo, PortHistoryAction.Shown, PortHistoryReason.Upvoted, affectedSegments, userID);
             // clear redis cache
-            QueryCacher.clearPortVideoCache(bvID, getHash(bvID, 1));
-            QueryCacher.clearSegmentCacheByID(bvID);
+            QueryCacher.clearPortVideoCache(bvID, getHash(bvID, 1), portVideo.ytbID);
+            QueryCacher.clearSegmentCacheByID(bvID, portVideo.cid);
         }
     } catch (err) {
         Logger.error(err as string);
         return { status: 500 };
     }
+
+    // the vote may change which record of the part wins
+    await resolvePortVideoConflictByCid(bvID, portVideo.cid, PortConflictSource.Vote);
     return { status: 200 };
 }
@@ -18,13 +18,16 @@ import { HashedUserID, UserID } from "../types/user.model";
 import { checkBanStatus } from "../service/checkBan";
 import { getHashCache } from "../utils/HashCacheUtil";
 import { getIP } from "../utils/getIP";
-import { getVideoDetails, VideoDetail } from "../service/api/getVideoDetails";
+import { getVideoDetailsByService, VideoDetail } from "../service/api/getVideoDetails";
 import { isUserTempVIP } from "../service/VIPUserService";
 import { isUserVIP } from "../service/VIPUserService";
 import { Logger } from "../utils/logger";
 import { QueryCacher } from "../utils/queryCacher";
 import { acquireLock } from "../service/redis/redisLock";
 import { deleteLockCategories } from "./deleteLockCategories";
+import { getSeasonLockCategories } from "../dao/season";
+import { getSeasonIDByVideoID } from "../dao/videoInfo";
+import { approveUpvotedSegment } from "../service/moderationQueueService";
 
 const voteTypes = {
     normal: 0,
@@ -53,11 +56,8 @@ async function updateSegmentVideoDuration(UUID: SegmentUUID) {
         `select "videoDuration", "videoID", "cid", "service" from "sponsorTimes" where "UUID" = ?`,
         [UUID]
     );
-    let apiVideoDetails: VideoDetail = null;
-    if (service == Service.YouTube) {
-        // don't use cache since we have no information about the video length
-        apiVideoDetails = await getVideoDetails(videoID, true);
-    }
+    // don't use cache since we have no information about the video length
+    const apiVideoDetails: VideoDetail = await getVideoDetailsByService(videoID, service, true);
     const apiVideoDuration = apiVideoDetails?.page.filter((p) => p.cid == cid)[0].duration as VideoDuration;
     if (videoDurationChanged(videoDuration, apiVideoDuration)) {
         Logger.info(`Video duration changed for ${videoID} from ${videoDuration} to ${apiVideoDuration}`);
@@ -69,11 +69,8 @@ async function checkVideoDuration(UUID: SegmentUUID) {
     const { videoID, cid, service } = await db.prepare("get", `select "videoID", "cid", "service" from "sponsorTimes" where "UUID" = ?`, [
         UUID,
     ]);
-    let apiVideoDetails: VideoDetail = null;
-    if (service == Service.YouTube) {
-        // don't use cache since we have no information about the video length
-        apiVideoDetails = await getVideoDetails(videoID, true);
-    }
+    // don't use cache since we have no information about the video length
+    const apiVideoDetails: VideoDetail = await getVideoDetailsByService(videoID, service, true);
     const apiVideoDuration = apiVideoDetails?.page.filter((p) => p.cid == cid)[0].duration as VideoDuration;
     // if no videoDuration return early
     if (isNaN(apiVideoDuration)) return;
@@ -159,6 +156,11 @@ async function categoryVote(
     if (nextCategoryLocked && !isVIP) {
         return { status: 200 };
     }
+    const seasonID = isVIP ? null : await getSeasonIDByVideoID(segmentInfo.videoID);
+    const seasonLocks = seasonID ? await getSeasonLockCategories(seasonID) : [];
+    if (seasonLocks.some((lock) => lock.category === category && lock.actionType === segmentInfo.actionType)) {
+        return { status: 200 };
+    }
 
     // Ignore vote if the segment is locked
     if (!isVIP && segmentInfo.locked === 1) {
@@ -546,6 +548,7 @@ export async function vote(
                 await db.prepare("run", 'UPDATE "sponsorTimes" SET "locked" = 1, "hidden" = 0, "shadowHidden" = 0 WHERE "UUID" = ?', [
                     UUID,
                 ]);
+                await approveUpvotedSegment(UUID, nonAnonUserID);
                 // on VIP downvote/ undovote, also unlock submission
             } else if (isVIP && incrementAmount <= 0 && voteTypeEnum === voteTypes.normal) {
                 await db.prepare("run", 'UPDATE "sponsorTimes" SET "locked" = 0 WHERE "UUID" = ?', [UUID]);
@@ -1,5 +1,6 @@
 import axios from "axios";
 import { BilibiliPagelistDetail } from "../../types/bilibiliPagelist.model";
+import { BilibiliPgcSeasonView } from "../../types/bilibiliPgcApi.model";
 import { BilibiliVideoDetailView } from "../../types/bilibiliViewApi.model";
 import { Logger } from "../../utils/logger";
 import { ApiQueue } from "./ApiRateQueue";
@@ -10,6 +11,11 @@ export class BilibiliAPI {
     static getVideoDetailView(videoID: string): Promise<BilibiliVideoDetailView> {
         return this.apiQueue.callApi(videoID, () => getVideoDetailView(videoID));
     }
+
+    static getPgcSeasonView(params: { season_id: number } | { ep_id: number }): Promise<BilibiliPgcSeasonView> {
+        const key = "season_id" in params ? `ss${params.season_id}` : `ep${params.ep_id}`;
+        return this.apiQueue.callApi(key, () => getPgcSeasonView(params));
+    }
 }
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -39,3 +45,15 @@ async function getVideoDetailView(videoID: string): Promise<BilibiliVideoDetailV
         return Promise.reject(`Bilibili Pagelist API non-200 response of ${videoID}: ${result.data.message}`);
     }
 }
+
+async function getPgcSeasonView(params: { season_id: number } | { ep_id: number }): Promise<BilibiliPgcSeasonView> {
+    Logger.info(`Getting season detail from PGC season API: ${JSON.stringify(params)}`);
+    const url = "https://api.bilibili.com/pgc/view/web/season";
+    const result = await axios.get(url, { params, timeout: 20000 });
+
+    if (result.status === 200 && result.data.code === 0) {
+        return result.data.result;
+    } else {
+        return Promise.reject(`Bilibili PGC season API non-200 response of ${JSON.stringify(params)}: ${result.data.message}`);
+    }
+}
@@ -0,0 +1,74 @@
+import { BilibiliPgcSeasonView } from "../../types/bilibiliPgcApi.model";
+import { VideoID } from "../../types/segments.model";
+import { Logger } from "../../utils/logger";
+import { QueryCacher } from "../../utils/queryCacher";
+import { bangumiDetailCacheKey, bangumiEpisodeCacheKey } from "../redis/redisKeys";
+import { BilibiliAPI } from "./bilibiliApi";
+import { VideoDetail } from "./getVideoDetails";
+
+export interface BangumiEpisode {
+    seasonID: VideoID;
+    cid: string;
+}
+
+/**
+ * a season is treated as a video, and its episodes as the parts of the video
+ */
+const convertFromSeasonViewAPI = (seasonID: string, input: BilibiliPgcSeasonView): VideoDetail => {
+    return {
+        videoId: seasonID,
+        authorId: input.up_info?.mid?.toString() ?? "",
+        authorName: input.up_info?.uname ?? "",
+        title: input.season_title || input.title,
+        published: input.episodes[0]?.pub_time ?? 0,
+        page: input.episodes.map((episode, index) => ({
+            cid: `${episode.cid}`,
+            page: index + 1,
+            part: episode.show_title || [episode.title, episode.long_title].filter((t) => !!t).join(" "),
+            duration: episode.duration / 1000,
+        })),
+        season: null,
+    };
+};
+
+export function getBangumiDetails(seasonID: string, ignoreCache = false): Promise<VideoDetail | null> {
+    if (ignoreCache) {
+        QueryCacher.clearKey(bangumiDetailCacheKey(seasonID));
+    }
+
+    async function getBangumiDetailsFromAPI(seasonID: string): Promise<VideoDetail> {
+        const data = await BilibiliAPI.getPgcSeasonView({ season_id: parseInt(seasonID.substring(2)) });
+        return convertFromSeasonViewAPI(seasonID, data);
+    }
+
+    try {
+        // cached with the default expiry, so that new episodes of airing seasons show up
+        return QueryCacher.get(() => getBangumiDetailsFromAPI(seasonID), bangumiDetailCacheKey(seasonID));
+    } catch (e: any) {
+        Logger.error(e.message);
+        return null;
+    }
+}
+
+/**
+ * resolve an episode ID into its season ID and cid
+ */
+export async function getBangumiEpisode(episodeID: number): Promise<BangumiEpisode | null> {
+    async function getBangumiEpisodeFromAPI(episodeID: number): Promise<BangumiEpisode> {
+        const data = await BilibiliAPI.getPgcSeasonView({ ep_id: episodeID });
+        // extras such as PVs are not part of the season details,
+        // throw instead of returning null so that the miss is not cached
+        const episode = data.episodes.find((e) => e.id === episodeID);
+        if (!episode) {
+            throw new Error(`not an episode of season ss${data.season_id}`);
+        }
+        return { seasonID: `ss${data.season_id}` as VideoID, cid: `${episode.cid}` };
+    }
+
+    try {
+        return await QueryCacher.get(() => getBangumiEpisodeFromAPI(episodeID), bangumiEpisodeCacheKey(episodeID), -1);
+    } catch (e) {
+        Logger.error(`Failed to resolve episode ep${episodeID}: ${e}`);
+        return null;
+    }
+}
@@ -1,8 +1,11 @@
 import { BilibiliVideoDetailView } from "../../types/bilibiliViewApi.model";
+import { SeasonID, VideoSeason } from "../../types/season.model";
+import { Service, VideoDuration, VideoID } from "../../types/segments.model";
 import { Logger } from "../../utils/logger";
 import { QueryCacher } from "../../utils/queryCacher";
 import { videoDetailCacheKey } from "../redis/redisKeys";
 import { BilibiliAPI } from "./bilibiliApi";
+import { getBangumiDetails } from "./getBangumiDetails";
 
 export interface VideoPageDetail {
     cid: string;
@@ -18,8 +21,26 @@ export interface VideoDetail {
     title: string;
     published: number;
     page: VideoPageDetail[];
+    season: VideoSeason | null;
 }
 
+const convertFromUgcSeason = (input: BilibiliVideoDetailView["ugc_season"]): VideoSeason | null => {
+    if (!input) {
+        return null;
+    }
+    return {
+        id: `${input.id}` as SeasonID,
+        title: input.title,
+        episodes: input.sections.flatMap((section) =>
+            section.episodes.map((episode) => ({
+                videoID: episode.bvid as VideoID,
+                cid: `${episode.cid}`,
+                duration: (episode.page?.duration ?? episode.arc.duration) as VideoDuration,
+            }))
+        ),
+    };
+};
+
 const convertFromVideoViewAPI = (videoId: string, input: BilibiliVideoDetailView): VideoDetail => {
     return {
         videoId: videoId,
@@ -28,6 +49,7 @@ const convertFromVideoViewAPI = (videoId: string, input: BilibiliVideoDetailView
         title: input.title,
         published: input.pubdate,
         page: input.pages.map((page) => ({ cid: `${page.cid}`, page: page.page, part: page.part, duration: page.duration })),
+        season: convertFromUgcSeason(input.ugc_season),
     };
 };
 
@@ -48,3 +70,13 @@ export function getVideoDetails(videoId: string, ignoreCache = false): Promise<V
         return null;
     }
 }
+
+/**
+ * get the details of a video from the provider of its service
+ */
+export function getVideoDetailsByService(videoId: string, service: Service, ignoreCache = false): Promise<VideoDetail | null> {
+    if (service === Service.Bangumi) {
+        return getBangumiDetails(videoId, ignoreCache);
+    }
+    return getVideoDetails(videoId, ignoreCache);
+}
@@ -0,0 +1,108 @@
+import axios, { AxiosError } from "axios";
+import fs from "fs";
+import path from "path";
+import { UpstreamProviderConfig } from "../../types/config.model";
+import { ActionType, Segment, SegmentUUID } from "../../types/segments.model";
+import { getHash } from "../../utils/HashCacheUtil";
+import { Logger } from "../../utils/logger";
+
+export interface SegmentRequest {
+    ytbID: string;
+    categories: string[];
+    actionTypes: ActionType[];
+    requiredSegments: SegmentUUID[];
+}
+
+/**
+ * A source of YouTube segments to be ported.
+ * Returns an empty array if the video has no segments, or null if the provider failed.
+ */
+export interface SegmentProvider {
+    readonly name: string;
+    getSegments(request: SegmentRequest): Promise<Segment[] | null>;
+}
+
+/**
+ * Any server compatible with the SponsorBlock skipSegments API
+ */
+export class SponsorBlockProvider implements SegmentProvider {
+    readonly name: string;
+
+    constructor(private baseURL: string, private timeout = 10000, private useHashPrefix = true) {
+        this.name = baseURL;
+    }
+
+    async getSegments(request: SegmentRequest): Promise<Segment[] | null> {
+        const params = {
+            categories: JSON.stringify(request.categories),
+            actionTypes: JSON.stringify(request.actionTypes),
+            requiredSegments: JSON.stringify(request.requiredSegments),
+        };
+
+        try {
+            if (this.useHashPrefix) {
+                const hashPrefix = getHash(request.ytbID, 1).substring(0, 4);
+                const res = await axios.get(`${this.baseURL}/api/skipSegments/${hashPrefix}`, { params, timeout: this.timeout });
+                const videoData = (res?.data as { videoID: string; segments: Segment[] }[])?.find((v) => v.videoID === request.ytbID);
+                return videoData?.segments ?? [];
+            } else {
+                const res = await axios.get(`${this.baseURL}/api/skipSegments`, {
+                    params: { videoID: request.ytbID, ...params },
+                    timeout: this.timeout,
+                });
+                return res?.data;
+            }
+        } catch (error) {
+            const axiosError = error as AxiosError;
+            if (axiosError.response && axiosError.response.status == 404) {
+                return [];
+            }
+            Logger.error(`Cannot get segments of ${request.ytbID} from ${this.name}: ${axiosError.message}`);
+            return null;
+        }
+    }
+}
+
+/**
+ * Reads segments from `<folder>/<ytbID>.json`, used for offline development and tests.
+ * A missing file means the video is unavailable, an empty file means it has no segments.
+ */
+export class FileSegmentProvider implements SegmentProvider {
+    readonly name: string;
+
+    constructor(private folder: string) {
+        this.name = `file:${folder}`;
+    }
+
+    async getSegments(request: SegmentRequest): Promise<Segment[] | null> {
+        const filePath = path.join(this.folder, `${path.basename(request.ytbID)}.json`);
+        try {
+            const content = await fs.promises.readFile(filePath, "utf8");
+            if (!content.trim()) {
+                return [];
+            }
+            const segments = JSON.parse(content) as Segment[];
+            return segments.filter(
+                (s) =>
+                    (request.categories.includes(s.category) && request.actionTypes.includes(s.actionType)) ||
+                    request.requiredSegments.includes(s.UUID)
+            );
+        } catch (e) {
+            if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+                return null;
+            }
+            Logger.error(`Cannot read segments of ${request.ytbID} from ${filePath}: ${e}`);
+            return null;
+        }
+    }
+}
+
+export function createSegmentProvider(providerConfig: UpstreamProviderConfig): SegmentProvider {
+    switch (providerConfig.type) {
+        case "file":
+            return new FileSegmentProvider(providerConfig.path);
+        case "sponsorBlock":
+        default:
+            return new SponsorBlockProvider(providerConfig.baseURL, providerConfig.timeout, providerConfig.useHashPrefix ?? true);
+    }
+}
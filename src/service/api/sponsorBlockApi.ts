@@ -1,26 +1,34 @@
-import axios, { AxiosError } from "axios";
+import { config } from "../../config";
 import { Segment, SegmentUUID } from "../../types/segments.model";
+import { ALL_ACTION_TYPES } from "../../utils/constant";
 import { Logger } from "../../utils/logger";
+import { createSegmentProvider, SegmentProvider } from "./segmentProvider";
 
-export async function getYoutubeSegments(ytbID: string, requiredSegments: SegmentUUID[] = [], timeout = 10000): Promise<Segment[] | null> {
-    Logger.info(`Getting segments from the SB service: ${ytbID}`);
-    const params = {
-        videoID: ytbID,
-        categories: `["sponsor","poi_highlight","exclusive_access","selfpromo","interaction","intro","outro","preview","filler","music_offtopic"]`,
-        actionTypes: `["skip","poi","mute","full"]`,
-        requiredSegments: `[${requiredSegments.map((id) => `"${id}"`).join(",")}]`,
+const providers: SegmentProvider[] = (config.upstreamProviders ?? []).map(createSegmentProvider);
+
+/**
+ * Get segments of a YouTube video from the configured upstream providers.
+ * Providers are tried in order, the next one is only used if the previous one failed.
+ */
+export async function getYoutubeSegments(ytbID: string, requiredSegments: SegmentUUID[] = []): Promise<Segment[] | null> {
+    Logger.info(`Getting segments from the upstream providers: ${ytbID}`);
+    const request = {
+        ytbID,
+        categories: config.categoryList,
+        actionTypes: ALL_ACTION_TYPES,
+        requiredSegments,
     };
-    try {
-        const res = await axios.get(`https://sponsor.ajay.app/api/skipSegments`, { params: params, timeout: timeout });
-        return res?.data;
-    } catch (error) {
-        const axiosError = error as AxiosError;
-        if (axiosError.response && axiosError.response.status == 404) {
-            Logger.info(`No segments found from SB service: ${ytbID}`);
-            return [];
+
+    for (const provider of providers) {
+        const segments = await provider.getSegments(request);
+        if (segments !== null) {
+            if (segments.length == 0) {
+                Logger.info(`No segments found from ${provider.name}: ${ytbID}`);
+            }
+            return segments;
         }
-        Logger.error(`Cannot get segments from the SB service ${ytbID}`);
-        Logger.error(axiosError.message);
-        return null;
     }
+
+    Logger.error(`Cannot get segments from any upstream provider: ${ytbID}`);
+    return null;
 }
@@ -0,0 +1,200 @@
+import { config } from "../config";
+import { db } from "../databases/databases";
+import { AutoModerationAction, AutoModerationRuleConfig } from "../types/config.model";
+import { ActionType, IncomingSegment, Service, VideoID } from "../types/segments.model";
+import { HashedUserID } from "../types/user.model";
+import { Logger } from "../utils/logger";
+import { getReputation } from "./reputationService";
+
+export interface AutoModerationSubmission {
+    videoID: VideoID;
+    cid: string;
+    userID: HashedUserID;
+    segments: IncomingSegment[];
+    service: Service;
+    videoDuration: number;
+}
+
+export interface AutoModerationHit {
+    rule: string;
+    action: AutoModerationAction;
+    message: string;
+    segments: IncomingSegment[];
+}
+
+/**
+ * returns the segments that break the rule, only segments of the rule's categories are passed in
+ */
+type RuleEvaluator = (
+    rule: AutoModerationRuleConfig,
+    submission: AutoModerationSubmission,
+    segments: IncomingSegment[]
+) => Promise<IncomingSegment[]>;
+
+const ruleStats: Record<string, { hits: number; segments: number; lastHit: number }> = {};
+
+function matchesCategory(rule: AutoModerationRuleConfig, category: string): boolean {
+    return !rule.categories?.length || rule.categories.includes(category);
+}
+
+function getTimes(segment: { segment: string[] }): [number, number] {
+    return [parseFloat(segment.segment[0]), parseFloat(segment.segment[1])];
+}
+
+// Takes an array of arrays:
+// ex)
+// [
+//     [3, 40],
+//     [50, 70],
+//     [60, 80],
+//     [100, 150]
+// ]
+// => transforms to combining overlapping segments
+// [
+//     [3, 40],
+//     [50, 80],
+//     [100, 150]
+// ]
+function mergeTimeSegments(ranges: number[][]) {
+    const result: number[][] = [];
+    let last: number[];
+
+    ranges.forEach(function (r) {
+        if (!last || r[0] > last[1]) result.push((last = r));
+        else if (r[1] > last[1]) last[1] = r[1];
+    });
+
+    return result;
+}
+
+/**
+ * segments of the user, including previous submissions, cover too much of the video
+ */
+const coverage: RuleEvaluator = async (rule, submission, segments) => {
+    // pass when the duration is unknown
+    if (!submission.videoDuration) return [];
+
+    // map all times to float array
+    const allSegmentTimes = segments.filter((s) => s.actionType !== ActionType.Chapter).map(getTimes);
+
+    // add previous submissions by this user
+    const allSubmittedByUser = (await db.prepare(
+        "all",
+        `SELECT "startTime", "endTime", "category" FROM "sponsorTimes" WHERE "userID" = ? AND "videoID" = ? AND "votes" > -1 AND "actionType" != 'chapter' AND "hidden" = 0`,
+        [submission.userID, submission.videoID]
+    )) as { startTime: string; endTime: string; category: string }[];
+    //add segments the user has previously submitted
+    const allSubmittedTimes = allSubmittedByUser
+        .filter((s) => matchesCategory(rule, s.category))
+        .map((s): [number, number] => [parseFloat(s.startTime), parseFloat(s.endTime)]);
+    allSegmentTimes.push(...allSubmittedTimes);
+
+    //merge all the times into non-overlapping arrays
+    const allSegmentsSorted = mergeTimeSegments(allSegmentTimes.sort((a, b) => a[0] - b[0] || a[1] - b[1]));
+
+    //sum all segment times together
+    const allSegmentDuration = allSegmentsSorted.reduce((acc, curr) => acc + (curr[1] - curr[0]), 0);
+
+    return allSegmentDuration > (submission.videoDuration / 100) * rule.maxPercent ? segments : [];
+};
+
+/**
+ * the user submitted too many segments recently
+ */
+const submissionRate: RuleEvaluator = async (rule, submission, segments) => {
+    const categories = rule.categories ?? [];
+    const categoryFilter = categories.length ? `AND "category" IN (${categories.map(() => "?").join(",")})` : "";
+    const row = await db.prepare(
+        "get",
+        `SELECT COUNT(*) AS "count" FROM "sponsorTimes" WHERE "userID" = ? AND "timeSubmitted" > ? ${categoryFilter}`,
+        [submission.userID, Date.now() - rule.windowMinutes * 60 * 1000, ...categories]
+    );
+    return (row?.count ?? 0) + segments.length > rule.maxSubmissions ? segments : [];
+};
+
+/**
+ * segments mostly covering a locked segment are likely to be wrong
+ */
+const lockedOverlap: RuleEvaluator = async (rule, submission, segments) => {
+    const lockedSegments = (await db.prepare(
+        "all",
+        `SELECT "startTime", "endTime" FROM "sponsorTimes" WHERE "videoID" = ? AND "cid" = ? AND "service" = ?
+        AND "locked" = 1 AND "hidden" = 0 AND "votes" > -2 AND "actionType" != 'chapter'`,
+        [submission.videoID, submission.cid, submission.service]
+    )) as { startTime: number; endTime: number }[];
+
+    return segments.filter((segment) => {
+        const [startTime, endTime] = getTimes(segment);
+        const length = endTime - startTime;
+        return (
+            length > 0 &&
+            lockedSegments.some(
+                (l) => ((Math.min(endTime, l.endTime) - Math.max(startTime, l.startTime)) / length) * 100 >= rule.minOverlapPercent
+            )
+        );
+    });
+};
+
+/**
+ * segments starting right at the beginning of the video
+ */
+const nearStart: RuleEvaluator = (rule, submission, segments) =>
+    Promise.resolve(segments.filter((segment) => segment.actionType !== ActionType.Full && getTimes(segment)[0] <= rule.maxStartTime));
+
+const evaluators: Record<AutoModerationRuleConfig["type"], RuleEvaluator> = {
+    coverage,
+    submissionRate,
+    lockedOverlap,
+    nearStart,
+};
+
+/**
+ * check a submission against the configured rules, in order
+ */
+export async function evaluateAutoModerationRules(submission: AutoModerationSubmission): Promise<AutoModerationHit[]> {
+    const hits: AutoModerationHit[] = [];
+    let reputation: number;
+
+    for (const rule of config.autoModerationRules) {
+        const evaluate = evaluators[rule.type];
+        if (!evaluate) {
+            Logger.warn(`Unknown auto moderation rule type: ${rule.type}`);
+            continue;
+        }
+        // nothing can be queued while the queue is disabled, the submission is accepted as it would be without the rule
+        if (rule.action === "queue" && !config.moderationQueue.enabled) continue;
+        if (rule.maxReputation !== undefined) {
+            reputation ??= await getReputation(submission.userID);
+            if (reputation >= rule.maxReputation) continue;
+        }
+
+        const segments = submission.segments.filter((s) => matchesCategory(rule, s.category));
+        if (segments.length == 0) continue;
+
+        const hitSegments = await evaluate(rule, submission, segments);
+        if (hitSegments.length > 0) {
+            hits.push({ rule: rule.name, action: rule.action, message: rule.message, segments: hitSegments });
+        }
+    }
+    return hits;
+}
+
+/**
+ * log and count rule hits, so that rules can be tuned
+ */
+export function recordAutoModerationHits(hits: AutoModerationHit[], submission: AutoModerationSubmission): void {
+    for (const hit of hits) {
+        Logger.warn(
+            `Auto moderation rule '${hit.rule}' (${hit.action}) hit. userID: '${submission.userID}', videoID: '${submission.videoID}', ` +
+                `cid: '${submission.cid}', segments: ${hit.segments.map((s) => `${s.category} ${s.segment}`).join("; ")}`
+        );
+        const stats = (ruleStats[hit.rule] ??= { hits: 0, segments: 0, lastHit: 0 });
+        stats.hits++;
+        stats.segments += hit.segments.length;
+        stats.lastHit = Date.now();
+    }
+}
+
+export function getAutoModerationStats(): Record<string, { hits: number; segments: number; lastHit: number }> {
+    return ruleStats;
+}
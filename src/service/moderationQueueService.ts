@@ -0,0 +1,125 @@
+import { config } from "../config";
+import { getModerationQueueEntries, setModerationDecision } from "../dao/moderationQueue";
+import { db } from "../databases/databases";
+import { ModerationStatus, PendingReason } from "../types/moderation.model";
+import { Category, DBSegment, SegmentUUID, Visibility } from "../types/segments.model";
+import { HashedUserID } from "../types/user.model";
+import { Logger } from "../utils/logger";
+import { QueryCacher } from "../utils/queryCacher";
+
+export type ModerationResult = ModerationStatus.Approved | ModerationStatus.Rejected | "notPending" | "notFound";
+
+/**
+ * the reason all submissions of a user go into the moderation queue, or null if they are accepted directly
+ */
+export async function getUserPendingReason(userID: HashedUserID, reputation: number): Promise<PendingReason | null> {
+    const { enabled, minReputation, minSubmissions } = config.moderationQueue;
+    if (!enabled) {
+        return null;
+    }
+    if (reputation < minReputation) {
+        return PendingReason.LowReputation;
+    }
+    if (minSubmissions > 0) {
+        const row = await db.prepare(
+            "get",
+            `SELECT COUNT(*) AS "count" FROM "sponsorTimes" WHERE "userID" = ? AND "votes" > -2 AND "hidden" = 0 AND "shadowHidden" = 0`,
+            [userID]
+        );
+        if ((row?.count ?? 0) < minSubmissions) {
+            return PendingReason.NewUser;
+        }
+    }
+    return null;
+}
+
+/**
+ * the reason a single segment goes into the moderation queue, or null if it is accepted directly
+ */
+export function getSegmentPendingReason(
+    category: Category,
+    startTime: number,
+    endTime: number,
+    videoDuration: number
+): PendingReason | null {
+    const { enabled, categories, maxVideoPercent } = config.moderationQueue;
+    if (!enabled) {
+        return null;
+    }
+    if (categories.includes(category)) {
+        return PendingReason.Category;
+    }
+    if (maxVideoPercent > 0 && videoDuration > 0 && ((endTime - startTime) / videoDuration) * 100 > maxVideoPercent) {
+        return PendingReason.LongSegment;
+    }
+    return null;
+}
+
+/**
+ * Approve or reject queued segments. Approved segments become visible to everyone,
+ * rejected segments are removed as if they had been downvoted by a VIP.
+ */
+export async function moderatePendingSegments(
+    UUIDs: SegmentUUID[],
+    status: ModerationStatus.Approved | ModerationStatus.Rejected,
+    moderatorUserID: HashedUserID,
+    note: string
+): Promise<{ UUID: SegmentUUID; result: ModerationResult }[]> {
+    const entries = await getModerationQueueEntries(UUIDs);
+
+    const results: { UUID: SegmentUUID; result: ModerationResult }[] = [];
+    for (const UUID of UUIDs) {
+        const entry = entries.find((e) => e.UUID === UUID);
+        if (!entry) {
+            results.push({ UUID, result: "notFound" });
+            continue;
+        }
+        if (entry.status !== ModerationStatus.Pending) {
+            results.push({ UUID, result: "notPending" });
+            continue;
+        }
+
+        const segment: DBSegment = await db.prepare(
+            "get",
+            `SELECT "videoID", "cid", "hashedVideoID", "service", "userID" FROM "sponsorTimes" WHERE "UUID" = ?`,
+            [UUID]
+        );
+        if (!segment) {
+            results.push({ UUID, result: "notFound" });
+            continue;
+        }
+
+        if (status === ModerationStatus.Rejected) {
+            await db.prepare("run", `UPDATE "sponsorTimes" SET "votes" = -2 WHERE "UUID" = ?`, [UUID]);
+        }
+        // segments of users shadow banned in the meantime stay shadow hidden
+        await db.prepare("run", `UPDATE "sponsorTimes" SET "shadowHidden" = ? WHERE "UUID" = ? AND "shadowHidden" = ?`, [
+            Visibility.VISIBLE,
+            UUID,
+            Visibility.PENDING,
+        ]);
+        await setModerationDecision(UUID, status, moderatorUserID, note);
+        Logger.info(`Moderation queue: ${UUID} ${status} by ${moderatorUserID}`);
+
+        QueryCacher.clearSegmentCache({
+            videoID: segment.videoID,
+            cid: segment.cid,
+            hashedVideoID: segment.hashedVideoID,
+            service: segment.service,
+            userID: segment.userID,
+        });
+        results.push({ UUID, result: status });
+    }
+    return results;
+}
+
+/**
+ * A VIP upvote makes a segment visible, so its pending entry is approved with it
+ */
+export async function approveUpvotedSegment(UUID: SegmentUUID, vipUserID: HashedUserID): Promise<void> {
+    const [entry] = await getModerationQueueEntries([UUID]);
+    if (entry?.status === ModerationStatus.Pending) {
+        await setModerationDecision(UUID, ModerationStatus.Approved, vipUserID, "VIP upvote");
+        Logger.info(`Moderation queue: ${UUID} approved by VIP upvote of ${vipUserID}`);
+    }
+}
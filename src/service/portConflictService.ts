@@ -0,0 +1,131 @@
+import { getActivePortVideoByCid, hidePortVideoByUUID, savePortVideoConflicts, showPortVideoByUUID } from "../dao/portVideo";
+import {
+    PortConflictCandidate,
+    PortConflictReason,
+    PortConflictSource,
+    PortHistoryReason,
+    PortVideo,
+    PortVideoDB,
+} from "../types/portVideo.model";
+import { HiddenType, VideoID } from "../types/segments.model";
+import { HashedUserID } from "../types/user.model";
+import { Logger } from "../utils/logger";
+import { acquireLock } from "./redis/redisLock";
+
+/**
+ * records that have been synced with the upstream server without errors have verified durations
+ */
+function isVerified(portVideo: PortConflictCandidate): boolean {
+    return !!portVideo.lastSyncTime && !portVideo.syncFailCount;
+}
+
+/**
+ * the resolution policy, in order: locked, votes, recency, verified durations
+ */
+const policy: [PortConflictReason, (a: PortConflictCandidate, b: PortConflictCandidate) => number][] = [
+    [PortConflictReason.Locked, (a, b) => Number(!!b.locked) - Number(!!a.locked)],
+    [PortConflictReason.Votes, (a, b) => b.votes - a.votes],
+    [PortConflictReason.Recency, (a, b) => (b.timeSubmitted ?? 0) - (a.timeSubmitted ?? 0)],
+    [PortConflictReason.Verified, (a, b) => Number(isVerified(b)) - Number(isVerified(a))],
+];
+
+/**
+ * compare two port video records of the same part, the winner is sorted first
+ */
+export function comparePortVideo(a: PortConflictCandidate, b: PortConflictCandidate): number {
+    for (const [, compare] of policy) {
+        const result = compare(a, b);
+        if (result !== 0) return result;
+    }
+    return 0;
+}
+
+function decisionReason(winner: PortConflictCandidate, loser: PortConflictCandidate): PortConflictReason {
+    return policy.find(([, compare]) => compare(winner, loser) !== 0)?.[0] ?? PortConflictReason.Recency;
+}
+
+/**
+ * sort port video records of the same part by the resolution policy, the first one is the winner
+ */
+export function sortByConflictPolicy<T extends PortConflictCandidate>(portVideos: T[]): T[] {
+    return [...portVideos].sort(comparePortVideo);
+}
+
+/**
+ * Resolve conflicts among the active port video records of the same part.
+ * Losing records and their ported segments are hidden, and the decision is recorded.
+ *
+ * @returns the records sorted by the resolution policy, only the first one stays active
+ */
+export async function resolvePortVideoConflict<T extends PortVideo>(portVideos: T[], source: PortConflictSource): Promise<T[]> {
+    const sorted = sortByConflictPolicy(portVideos);
+    if (sorted.length < 2) {
+        return sorted;
+    }
+
+    const [winner, ...losers] = sorted;
+    Logger.info(`Resolving port video conflict for ${winner.bvID}, cid: ${winner.cid}, winner: ${winner.UUID}`);
+
+    for (const loser of losers) {
+        await hidePortVideoByUUID(loser, PortHistoryReason.Conflict);
+    }
+
+    const timeSubmitted = Date.now();
+    await savePortVideoConflicts(
+        losers.map((loser) => ({
+            bvID: winner.bvID,
+            cid: winner.cid,
+            winnerUUID: winner.UUID,
+            loserUUID: loser.UUID,
+            reason: decisionReason(winner, loser),
+            source,
+            userID: null,
+            timeSubmitted,
+        }))
+    );
+    return sorted;
+}
+
+/**
+ * load the active port video records of a part and resolve conflicts among them
+ */
+export async function resolvePortVideoConflictByCid(bvID: VideoID, cid: string, source: PortConflictSource): Promise<void> {
+    const lock = await acquireLock(`resolvePortConflict:${bvID}.${cid}`);
+    if (!lock.status) {
+        return;
+    }
+
+    try {
+        await resolvePortVideoConflict(await getActivePortVideoByCid(bvID, cid), source);
+    } catch (e) {
+        Logger.error(`Failed to resolve port video conflict for ${bvID}, cid: ${cid}: ${e}`);
+    } finally {
+        lock.unlock();
+    }
+}
+
+/**
+ * Make the given port video record the only active one of its part, and lock it
+ * so that later resolutions keep it.
+ */
+export async function overridePortVideoConflict(chosen: PortVideoDB, userID: HashedUserID): Promise<void> {
+    const losers = (await getActivePortVideoByCid(chosen.bvID, chosen.cid)).filter((p) => p.UUID !== chosen.UUID);
+    for (const loser of losers) {
+        await hidePortVideoByUUID(loser, PortHistoryReason.Conflict, HiddenType.MismatchHidden, userID);
+    }
+    await showPortVideoByUUID(chosen, PortHistoryReason.VIPOverride, userID, true);
+
+    const timeSubmitted = Date.now();
+    await savePortVideoConflicts(
+        losers.map((loser) => ({
+            bvID: chosen.bvID,
+            cid: chosen.cid,
+            winnerUUID: chosen.UUID,
+            loserUUID: loser.UUID,
+            reason: PortConflictReason.VIPOverride,
+            source: PortConflictSource.VIP,
+            userID,
+            timeSubmitted,
+        }))
+    );
+}
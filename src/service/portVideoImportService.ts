@@ -0,0 +1,187 @@
+import crypto from "crypto";
+import { deleteOldPortImportJobs, getPortImportJob, savePortImportJob, updatePortImportJob } from "../dao/portVideoImport";
+import { checkInvalidFields, submitPortVideo } from "../routes/postPortVideo";
+import { PortImportJob, PortImportRow, PortImportRowResult, PortSubmitResult } from "../types/portVideo.model";
+import { IPAddress, VideoID } from "../types/segments.model";
+import { HashedUserID, UserID } from "../types/user.model";
+import { Logger } from "../utils/logger";
+
+export const MAX_IMPORT_ROWS = 1000;
+// respect the rate limit of upstream servers
+const ROW_INTERVAL_MS = 1000;
+// a running job without progress for this long was stopped by a restart
+const INTERRUPTED_AFTER_MS = 10 * 60 * 1000;
+const JOB_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Parse import data, one binding per line, either CSV `bvID,cid,ytbID` or a JSON object with the same fields.
+ * An optional CSV header is skipped, and lines that cannot be parsed are reported as invalid.
+ */
+export function parsePortImportData(data: string): { rows: PortImportRow[]; invalidRows: PortImportRowResult[] } {
+    const rows: PortImportRow[] = [];
+    const invalidRows: PortImportRowResult[] = [];
+
+    data.split(/\r?\n/).forEach((rawLine, index) => {
+        const line = rawLine.trim();
+        const lineNumber = index + 1;
+        if (!line || (index === 0 && line.toLowerCase().startsWith("bvid,"))) {
+            return;
+        }
+
+        let fields: { bvID?: unknown; cid?: unknown; ytbID?: unknown };
+        if (line.startsWith("{")) {
+            try {
+                fields = JSON.parse(line);
+            } catch (e) {
+                fields = null;
+            }
+        } else {
+            const columns = line.split(",").map((c) => c.trim());
+            fields = columns.length === 3 ? { bvID: columns[0], cid: columns[1], ytbID: columns[2] } : null;
+        }
+
+        if (!fields || typeof fields.bvID !== "string" || typeof fields.ytbID !== "string") {
+            invalidRows.push({
+                line: lineNumber,
+                bvID: "" as VideoID,
+                cid: "",
+                ytbID: "" as VideoID,
+                result: PortSubmitResult.Invalid,
+                message: "无法解析此行",
+            });
+            return;
+        }
+        rows.push({
+            line: lineNumber,
+            bvID: fields.bvID as VideoID,
+            cid: fields.cid ? `${fields.cid}` : "",
+            ytbID: fields.ytbID as VideoID,
+        });
+    });
+
+    return { rows, invalidRows };
+}
+
+/**
+ * Start a background job that submits the bindings one by one, as if they were submitted by the VIP.
+ * The progress is saved to the database, so that the report can be read from every instance.
+ */
+export async function startPortVideoImport(
+    rows: PortImportRow[],
+    invalidRows: PortImportRowResult[],
+    paramUserID: UserID,
+    userID: HashedUserID,
+    rawIP: IPAddress,
+    userAgent: string
+): Promise<PortImportJob> {
+    const job: PortImportJob = {
+        id: crypto.randomUUID(),
+        userID,
+        running: true,
+        startTime: Date.now(),
+        endTime: 0,
+        total: rows.length + invalidRows.length,
+        processed: invalidRows.length,
+        rows: [...invalidRows],
+    };
+    await deleteOldPortImportJobs(job.startTime - JOB_RETENTION_MS);
+    await savePortImportJob(job);
+
+    void runPortVideoImport(job, rows, paramUserID, rawIP, userAgent);
+    return job;
+}
+
+/**
+ * get an import job, a job interrupted by a restart is reported as finished with the rows processed so far
+ */
+export async function getPortVideoImportJob(id: string): Promise<PortImportJob | null> {
+    const jobDB = await getPortImportJob(id);
+    if (!jobDB) {
+        return null;
+    }
+
+    const interrupted = !!jobDB.running && jobDB.updateTime < Date.now() - INTERRUPTED_AFTER_MS;
+    return {
+        id: jobDB.id,
+        userID: jobDB.userID,
+        running: !!jobDB.running && !interrupted,
+        startTime: jobDB.startTime,
+        endTime: interrupted ? jobDB.updateTime : jobDB.endTime,
+        total: jobDB.total,
+        processed: jobDB.processed,
+        rows: JSON.parse(jobDB.rows),
+    };
+}
+
+async function runPortVideoImport(
+    job: PortImportJob,
+    rows: PortImportRow[],
+    paramUserID: UserID,
+    rawIP: IPAddress,
+    userAgent: string
+): Promise<void> {
+    Logger.info(`Importing ${rows.length} port video bindings, job: ${job.id}`);
+    try {
+        for (const row of rows) {
+            job.rows.push(await importRow(row, paramUserID, rawIP, userAgent));
+            job.processed++;
+            await updatePortImportJob(job);
+            await new Promise((resolve) => setTimeout(resolve, ROW_INTERVAL_MS));
+        }
+    } catch (e) {
+        Logger.error(`Port video import ${job.id} failed: ${e}`);
+    } finally {
+        job.rows.sort((a, b) => a.line - b.line);
+        job.running = false;
+        job.endTime = Date.now();
+        await updatePortImportJob(job).catch((e) => Logger.error(`Failed to save port video import ${job.id}: ${e}`));
+        Logger.info(`Port video import ${job.id} finished, ${job.processed} of ${job.total} processed`);
+    }
+}
+
+async function importRow(row: PortImportRow, paramUserID: UserID, rawIP: IPAddress, userAgent: string): Promise<PortImportRowResult> {
+    const invalidCheckResult = checkInvalidFields(row.bvID, row.cid, row.ytbID, paramUserID);
+    if (!invalidCheckResult.pass) {
+        return { ...row, result: PortSubmitResult.Invalid, message: invalidCheckResult.errorMessage };
+    }
+
+    try {
+        const submission = await submitPortVideo({
+            bvID: row.bvID,
+            cid: row.cid,
+            ytbID: row.ytbID,
+            paramUserID,
+            timeOffset: 0,
+            trimEnd: 0,
+            // a binding that already exists is only reported
+            upvoteDuplicate: false,
+            rawIP,
+            userAgent,
+        });
+        return {
+            ...row,
+            cid: submission.portVideo?.cid ?? row.cid,
+            result: submission.result,
+            message: submission.message ?? "",
+            UUID: submission.portVideo?.UUID,
+        };
+    } catch (e) {
+        Logger.error(`Failed to import port video ${row.bvID} - ${row.ytbID}: ${e}`);
+        return { ...row, result: PortSubmitResult.Error, message: `${e}` };
+    }
+}
+
+function escapeCsv(value: string | number): string {
+    let text = `${value ?? ""}`;
+    // spreadsheets would evaluate the cell as a formula
+    if (/^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatPortImportReport(job: PortImportJob): string {
+    const header = "line,bvID,cid,ytbID,result,UUID,message";
+    const lines = job.rows.map((r) => [r.line, r.bvID, r.cid, r.ytbID, r.result, r.UUID, r.message].map(escapeCsv).join(","));
+    return `${[header, ...lines].join("\n")}\n`;
+}
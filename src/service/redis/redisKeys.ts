@@ -31,6 +31,9 @@ export const shadowHiddenIPKey = (videoID: VideoID, timeSubmitted: number, servi
 
 export const reputationKey = (userID: UserID): string => `reputation.v1.user.${userID}`;
 
+export const submissionRateLimitKey = (route: string, type: "user" | "ip", key: string): string =>
+    `rateLimit.v1.submission.${route}.${type}.${key}`;
+
 export function ratingHashKey(hashPrefix: VideoIDHash, service: Service): string {
     hashPrefix = hashPrefix.substring(0, 4) as VideoIDHash;
     if (hashPrefix.length !== 4) Logger.warn(`Redis rating hash-prefix key is not length 4! ${hashPrefix}`);
@@ -79,10 +82,35 @@ export function portVideoByHashCacheKey(hashPrefix: string) {
     return `port.video.v1.${hashPrefix.substring(0, 3)}`;
 }
 
+export function portVideoByYtbIDCacheKey(ytbID: VideoID) {
+    return `port.video.v1.ytbID.${ytbID}`;
+}
+
+export function portVideoByYtbHashCacheKey(hashPrefix: string) {
+    return `port.video.v1.ytbHash.${hashPrefix.substring(0, 3)}`;
+}
+
 export function portVideoUserCountKey() {
     return `port.video.count`;
 }
 
 export function videoDetailCacheKey(videoID: string) {
-    return `video.detail.v2.videoID.${videoID}`;
+    return `video.detail.v3.videoID.${videoID}`;
+}
+
+export function bangumiDetailCacheKey(seasonID: string) {
+    return `bangumi.detail.v1.seasonID.${seasonID}`;
+}
+
+export function bangumiEpisodeCacheKey(episodeID: number) {
+    return `bangumi.episode.v1.episodeID.${episodeID}`;
+}
+
+export type LastModifiedType = "portVideo" | "portVideoHash" | "lockCategoriesHash" | "segmentInfo" | "userInfo";
+
+export function lastModifiedKey(type: LastModifiedType, key: string): string {
+    // hash prefixes share one marker, with the same length as their cached values
+    if (type === "portVideoHash") key = key.substring(0, 3);
+    else if (type === "lockCategoriesHash") key = key.substring(0, 4);
+    return `lastModified.v1.${type}.${key}`;
 }
@@ -0,0 +1,144 @@
+import { getAppliedTemplates, getSegmentTemplates } from "../dao/season";
+import { deleteNewSegments, saveNewSegments } from "../dao/skipSegment";
+import { getSeasonIDByVideoID } from "../dao/videoInfo";
+import { SeasonEpisode, SeasonID, SegmentTemplateDB, VideoSeason } from "../types/season.model";
+import { DBSegment, HiddenType, Service, VideoID, Visibility } from "../types/segments.model";
+import { getTemplateSegmentUUID } from "../utils/getSubmissionUUID";
+import { getHash } from "../utils/HashCacheUtil";
+import { Logger } from "../utils/logger";
+import { getVideoDetails } from "./api/getVideoDetails";
+import { acquireLock } from "./redis/redisLock";
+import { validate } from "./validate/bilibiliID";
+
+const TEMPLATE_USER_AGENT = "segmentTemplate";
+// keep the IN clauses of large seasons short
+const EPISODE_BATCH_SIZE = 100;
+const APPLY_LOCK_TIMEOUT = 10 * 60 * 1000;
+
+export const isValidSeasonID = (seasonID: unknown): seasonID is SeasonID => typeof seasonID === "string" && /^\d+$/.test(seasonID);
+
+/**
+ * get the season of a video, from the saved video info first
+ */
+export async function getSeasonIDOfVideo(videoID: VideoID): Promise<SeasonID | null> {
+    return (await getSeasonIDByVideoID(videoID)) ?? (await getVideoDetails(videoID))?.season?.id ?? null;
+}
+
+/**
+ * the season of a request, given either by its ID or by one of its videos
+ */
+export async function resolveSeasonID(seasonID: unknown, videoID: unknown): Promise<SeasonID | null> {
+    const id = typeof seasonID === "number" ? `${seasonID}` : seasonID;
+    if (isValidSeasonID(id)) {
+        return id;
+    }
+    if (typeof videoID === "string" && validate(videoID)) {
+        return await getSeasonIDOfVideo(videoID as VideoID);
+    }
+    return null;
+}
+
+/**
+ * get a season with its episodes, from the details of one of its videos
+ */
+export async function getSeasonByVideoID(videoID: VideoID, ignoreCache = false): Promise<VideoSeason | null> {
+    return (await getVideoDetails(videoID, ignoreCache))?.season ?? null;
+}
+
+function createTemplateSegment(template: SegmentTemplateDB, episode: SeasonEpisode, timeSubmitted: number): DBSegment {
+    return {
+        videoID: episode.videoID,
+        cid: episode.cid,
+        startTime: template.startTime,
+        endTime: template.endTime,
+        votes: 0,
+        locked: false,
+        UUID: getTemplateSegmentUUID(template.UUID, episode.videoID, episode.cid),
+        userID: template.userID,
+        timeSubmitted,
+        views: 0,
+        category: template.category,
+        actionType: template.actionType,
+        service: Service.YouTube,
+        videoDuration: episode.duration,
+        hidden: HiddenType.Show,
+        reputation: 0,
+        shadowHidden: Visibility.VISIBLE,
+        hashedVideoID: getHash(episode.videoID, 1),
+        userAgent: TEMPLATE_USER_AGENT,
+        description: template.description,
+        ytbID: null,
+        ytbSegmentUUID: null,
+        portUUID: null,
+        templateUUID: template.UUID,
+        required: false,
+    };
+}
+
+/**
+ * Create segments from the active templates of a season, for every episode that does not have them yet.
+ * A template is never applied twice to the same part, even if the segment was hidden since.
+ *
+ * Runs of the same season are not concurrent, a run is skipped while another one is applying the templates.
+ * A run that fails keeps none of its segments.
+ *
+ * @param videoID only apply the templates to this episode
+ * @returns the number of segments created
+ */
+export async function applySegmentTemplates(season: VideoSeason, videoID?: VideoID): Promise<number> {
+    const templates = await getSegmentTemplates(season.id);
+    const episodes = videoID ? season.episodes.filter((e) => e.videoID === videoID) : season.episodes;
+    if (templates.length === 0 || episodes.length === 0) {
+        return 0;
+    }
+
+    // the segment UUIDs are derived from the templates, so concurrent runs would insert the same segments
+    const lock = await acquireLock(`applySegmentTemplates:${season.id}`, APPLY_LOCK_TIMEOUT);
+    if (!lock.status) {
+        Logger.info(`Segment templates of season ${season.id} are already being applied`);
+        return 0;
+    }
+
+    let created = 0;
+    const timeSubmitted = Date.now();
+    try {
+        // every batch is read before anything is saved, so that a failed read leaves the season as it was
+        const segmentBatches: DBSegment[][] = [];
+        for (let i = 0; i < episodes.length; i += EPISODE_BATCH_SIZE) {
+            const batch = episodes.slice(i, i + EPISODE_BATCH_SIZE);
+            const applied = await getAppliedTemplates([...new Set(batch.map((e) => e.videoID))]);
+
+            segmentBatches.push(
+                batch.flatMap((episode) =>
+                    templates
+                        .filter((template) => !episode.duration || template.endTime <= episode.duration)
+                        .filter(
+                            (template) =>
+                                !applied.some((a) => a.templateUUID === template.UUID && a.videoID === episode.videoID && a.cid === episode.cid)
+                        )
+                        .map((template) => createTemplateSegment(template, episode, timeSubmitted))
+                )
+            );
+        }
+
+        for (let i = 0; i < segmentBatches.length; i++) {
+            try {
+                await saveNewSegments(segmentBatches[i]);
+            } catch (e) {
+                // the next run applies the templates again, to all episodes
+                for (const segments of segmentBatches.slice(0, i + 1)) {
+                    await deleteNewSegments(segments);
+                }
+                throw e;
+            }
+            created += segmentBatches[i].length;
+        }
+    } finally {
+        lock.unlock();
+    }
+
+    if (created > 0) {
+        Logger.info(`Created ${created} segments from the templates of season ${season.id}`);
+    }
+    return created;
+}
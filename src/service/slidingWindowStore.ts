@@ -0,0 +1,96 @@
+import { config } from "../config";
+import { Logger } from "../utils/logger";
+import redis from "./redis/redis";
+
+export interface SlidingWindowResult {
+    allowed: boolean;
+    count: number; // hits within the window, including this one if allowed
+    resetMs: number; // time until the oldest hit leaves the window
+}
+
+/**
+ * Counts hits per key within a sliding window. A hit is only recorded if the key is below the limit.
+ */
+export interface SlidingWindowStore {
+    hit(key: string, windowMs: number, max: number): Promise<SlidingWindowResult>;
+}
+
+// sweep expired keys once the map grows beyond this
+const MAX_MEMORY_KEYS = 10000;
+
+export class MemorySlidingWindowStore implements SlidingWindowStore {
+    private hits = new Map<string, { timestamps: number[]; windowMs: number }>();
+
+    hit(key: string, windowMs: number, max: number): Promise<SlidingWindowResult> {
+        const now = Date.now();
+        const entry = this.hits.get(key) ?? { timestamps: [], windowMs };
+        entry.timestamps = entry.timestamps.filter((t) => t > now - windowMs);
+        entry.windowMs = windowMs;
+
+        const allowed = entry.timestamps.length < max;
+        if (allowed) {
+            entry.timestamps.push(now);
+        }
+        this.hits.set(key, entry);
+        if (this.hits.size > MAX_MEMORY_KEYS) {
+            this.sweep(now);
+        }
+
+        return Promise.resolve({ allowed, count: entry.timestamps.length, resetMs: entry.timestamps[0] + windowMs - now });
+    }
+
+    private sweep(now: number): void {
+        for (const [key, entry] of this.hits) {
+            if (entry.timestamps.every((t) => t <= now - entry.windowMs)) {
+                this.hits.delete(key);
+            }
+        }
+    }
+}
+
+// keeps the hits of a key in a sorted set scored by time
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+redis.call("ZREMRANGEBYSCORE", KEYS[1], "-inf", now - window)
+local count = redis.call("ZCARD", KEYS[1])
+local allowed = 0
+if count < tonumber(ARGV[3]) then
+    redis.call("ZADD", KEYS[1], now, ARGV[4])
+    redis.call("PEXPIRE", KEYS[1], window)
+    count = count + 1
+    allowed = 1
+end
+local oldest = redis.call("ZRANGE", KEYS[1], 0, 0, "WITHSCORES")
+return { allowed, count, oldest[2] or tostring(now) }`;
+
+/**
+ * shares the windows between instances, falls back to the memory store if redis fails
+ */
+export class RedisSlidingWindowStore implements SlidingWindowStore {
+    private fallback = new MemorySlidingWindowStore();
+
+    async hit(key: string, windowMs: number, max: number): Promise<SlidingWindowResult> {
+        const now = Date.now();
+        try {
+            const reply = (await redis.sendCommand([
+                "EVAL",
+                SLIDING_WINDOW_SCRIPT,
+                "1",
+                key,
+                `${now}`,
+                `${windowMs}`,
+                `${max}`,
+                `${now}.${Math.random()}`,
+            ])) as [number, number, string];
+            return { allowed: reply[0] === 1, count: reply[1], resetMs: parseFloat(reply[2]) + windowMs - now };
+        } catch (e) {
+            Logger.error(`Sliding window redis error: ${e}`);
+            return this.fallback.hit(key, windowMs, max);
+        }
+    }
+}
+
+export function createSlidingWindowStore(): SlidingWindowStore {
+    return config.redis?.enabled ? new RedisSlidingWindowStore() : new MemorySlidingWindowStore();
+}
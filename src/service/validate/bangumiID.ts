@@ -0,0 +1,31 @@
+import { VideoID } from "../../types/segments.model";
+
+const exclusiveSeasonIDRegex = /^ss\d+$/;
+const seasonOrEpisodeRegex = /^(ss|ep)(\d+)$/i;
+// episode pages and share links that contain the ID itself
+const linkRegex = /^(?:https?:\/\/)?(?:[\w-]+\.)*(?:bilibili\.com|b23\.tv)\/(?:[^?#]*\/)?((?:ss|ep)\d+)\/?(?:[?#]|$)/i;
+
+/**
+ * Bangumi segments are stored by season ID, episodes are told apart by their cid
+ */
+export function validate(seasonID: string): boolean {
+    return exclusiveSeasonIDRegex.test(seasonID);
+}
+
+/**
+ * Parse a season ID, an episode ID, or an episode link into a season ID or an episode ID.
+ * Episode IDs need a request to be resolved into a season ID and a cid.
+ */
+export function parseBangumiID(input: string): { seasonID: VideoID } | { episodeID: number } | null {
+    const value = input.trim();
+    const match = (value.match(linkRegex)?.[1] ?? value).match(seasonOrEpisodeRegex);
+    if (!match) {
+        return null;
+    }
+
+    const id = parseInt(match[2]);
+    if (!(id > 0)) {
+        return null;
+    }
+    return match[1].toLowerCase() === "ss" ? { seasonID: `ss${id}` as VideoID } : { episodeID: id };
+}
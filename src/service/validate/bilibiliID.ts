@@ -3,6 +3,17 @@ import { VideoID } from "../../types/segments.model";
 const bvidRegex = new RegExp(/(BV[0-9A-Za-z]{10})/);
 const exclusiveBvidRegex = new RegExp(`^${bvidRegex.source}$`);
 const urlRegex = new RegExp(`video/${bvidRegex.source}($|/)`);
+const exclusiveAvidRegex = /^av(\d+)$/i;
+// video pages and share links that contain the ID itself, b23.tv links to other IDs need a request to resolve
+const linkRegex = /^(?:https?:\/\/)?(?:[\w-]+\.)*(?:bilibili\.com|b23\.tv)\/(?:[^?#]*\/)?(BV[0-9A-Za-z]{10}|av\d+)\/?(?:[?#]|$)/i;
+const pageRegex = /[?&]p=(\d+)/;
+
+// https://github.com/SocialSisterYi/bilibili-API-collect/blob/master/docs/misc/bvid_desc.md
+const XOR_CODE = 23442827791579n;
+const MASK_CODE = 2251799813685247n;
+const MAX_AID = 1n << 51n;
+const BASE = 58n;
+const ALPHABET = "FcwAPNKTMug3GV5Lj7EJnHpWsx4tb8haYeviqBz6rkCy12mUSDQX9RdoZf";
 
 export function validate(bvid: string): boolean {
     return exclusiveBvidRegex.test(bvid);
@@ -14,5 +25,55 @@ export function sanitize(bvid: string): VideoID | null {
     const strictMatch = bvid.match(exclusiveBvidRegex)?.[1];
     const urlMatch = bvid.match(urlRegex)?.[1];
 
-    return strictMatch ? (strictMatch as VideoID) : urlMatch ? (urlMatch as VideoID) : null;
+    return strictMatch ? (strictMatch as VideoID) : urlMatch ? (urlMatch as VideoID) : (parseVideoID(bvid)?.bvID ?? null);
+}
+
+function swap(chars: string[]): void {
+    [chars[3], chars[9]] = [chars[9], chars[3]];
+    [chars[4], chars[7]] = [chars[7], chars[4]];
+}
+
+export function av2bv(aid: number): VideoID {
+    const chars = "BV1000000000".split("");
+    let tmp = (MAX_AID | BigInt(aid)) ^ XOR_CODE;
+    for (let i = chars.length - 1; tmp > 0n; i--) {
+        chars[i] = ALPHABET[Number(tmp % BASE)];
+        tmp /= BASE;
+    }
+    swap(chars);
+    return chars.join("") as VideoID;
+}
+
+export function bv2av(bvid: VideoID): number {
+    const chars = bvid.split("");
+    swap(chars);
+    const tmp = chars.slice(3).reduce((acc, c) => acc * BASE + BigInt(ALPHABET.indexOf(c)), 0n);
+    return Number((tmp & MASK_CODE) ^ XOR_CODE);
+}
+
+/**
+ * Parse a BV ID, an av number, or a video link with an optional `?p=` page into a BV ID.
+ * Returns null for anything that can not be resolved without a request, such as b23.tv short codes.
+ */
+export function parseVideoID(input: string): { bvID: VideoID; page: number | null } | null {
+    const value = input.trim();
+    if (validate(value)) {
+        return { bvID: value as VideoID, page: null };
+    }
+
+    const id = value.match(exclusiveAvidRegex)?.[0] ?? value.match(linkRegex)?.[1];
+    if (!id) {
+        return null;
+    }
+    let bvID = id as VideoID;
+    if (/^av/i.test(id)) {
+        // BV IDs can only encode aids below MAX_AID
+        const aid = BigInt(id.substring(2));
+        if (aid <= 0n || aid >= MAX_AID) {
+            return null;
+        }
+        bvID = av2bv(Number(aid));
+    }
+    const page = parseInt(value.match(pageRegex)?.[1]);
+    return validate(bvID) ? { bvID, page: page > 0 ? page : null } : null;
 }
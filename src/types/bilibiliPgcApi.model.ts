@@ -0,0 +1,51 @@
+// https://api.bilibili.com/pgc/view/web/season
+export interface BilibiliPgcSeasonViewResponse {
+    code: number;
+    message: string;
+    result?: BilibiliPgcSeasonView;
+}
+
+export interface BilibiliPgcSeasonView {
+    season_id: number;
+    media_id: number;
+    season_title: string;
+    title: string;
+    type: number;
+    evaluate: string;
+    cover: string;
+    episodes: BilibiliPgcEpisode[];
+    section?: BilibiliPgcSection[];
+    publish: {
+        is_finish: number;
+        is_started: number;
+        pub_time: string;
+        pub_time_show: string;
+    };
+    up_info?: {
+        mid: number;
+        uname: string;
+        avatar: string;
+    };
+}
+
+export interface BilibiliPgcEpisode {
+    id: number;
+    aid: number;
+    bvid: string;
+    cid: number;
+    // in milliseconds
+    duration: number;
+    title: string;
+    long_title: string;
+    show_title?: string;
+    pub_time: number;
+    badge: string;
+    status: number;
+}
+
+export interface BilibiliPgcSection {
+    id: number;
+    title: string;
+    type: number;
+    episodes: BilibiliPgcEpisode[];
+}
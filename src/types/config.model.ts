@@ -82,6 +82,11 @@ export interface SBSConfig {
     redis?: RedisConfig;
     redisRead?: RedisReadOnlyConfig;
     redisRateLimit: boolean;
+    submissionRateLimit: {
+        skipSegments?: SubmissionRateLimitConfig;
+        portVideo?: SubmissionRateLimitConfig;
+        votePort?: SubmissionRateLimitConfig;
+    };
     maxRewardTimePerSegmentInSeconds?: number;
     postgres?: CustomWritePostgresConfig;
     postgresReadOnly?: CustomPostgresReadOnlyConfig;
@@ -89,6 +94,20 @@ export interface SBSConfig {
     dumpDatabase?: DumpDatabase;
     diskCacheURL: string;
     crons: CronJobOptions;
+    upstreamProviders: UpstreamProviderConfig[];
+    danmakuColors: Record<string, string>;
+    autoModerationRules: AutoModerationRuleConfig[]; // checked in order for submissions of non-VIP users
+    moderationQueue: {
+        enabled: boolean;
+        minReputation: number; // submissions from users below this reputation are queued
+        minSubmissions: number; // submissions from users with fewer visible segments are queued
+        categories: string[]; // submissions of these categories are always queued
+        maxVideoPercent: number; // segments longer than this percent of the video are queued, 0 to disable
+    };
+    segmentEditVotePolicy: {
+        minorEditSeconds: number; // edits moving each time by at most this much, without a category change, only decay votes
+        minorEditVoteFactor: number;
+    };
     patreon: {
         clientId: string;
         clientSecret: string;
@@ -112,6 +131,38 @@ export interface WebhookConfig {
     scopes: string[];
 }
 
+export interface UpstreamProviderConfig {
+    type: "sponsorBlock" | "file";
+    baseURL?: string;
+    timeout?: number;
+    useHashPrefix?: boolean;
+    path?: string;
+}
+
+export interface SubmissionRateLimitConfig {
+    windowMs: number; // sliding window
+    userMax: number; // requests per hashed user ID within the window, 0 for no limit
+    ipMax: number; // requests per hashed IP within the window, 0 for no limit
+    message: string;
+    statusCode: number;
+}
+
+export type AutoModerationAction = "reject" | "queue" | "shadowHide";
+
+export interface AutoModerationRuleConfig {
+    name: string; // used in logs and hit counts
+    type: "coverage" | "submissionRate" | "lockedOverlap" | "nearStart";
+    action: AutoModerationAction;
+    message: string; // shown to the submitter on reject
+    categories?: string[]; // only check segments of these categories, all when empty
+    maxReputation?: number; // only check users below this reputation
+    maxPercent?: number; // coverage: segments of the user cover more than this percent of the video
+    maxSubmissions?: number; // submissionRate: more segments than this within the window
+    windowMinutes?: number; // submissionRate
+    minOverlapPercent?: number; // lockedOverlap: a segment overlaps a locked segment by at least this percent of its length
+    maxStartTime?: number; // nearStart: a segment starts at or before this time
+}
+
 export interface RateLimitConfig {
     windowMs: number;
     max: number;
@@ -148,9 +199,19 @@ export interface CronJobDefault {
 export interface CronJobOptions {
     enabled: boolean;
     downvoteSegmentArchive: CronJobDefault & DownvoteSegmentArchiveCron;
+    syncPortedSegments?: CronJobDefault & SyncPortedSegmentsCron;
+    resolvePortVideoConflicts?: CronJobDefault;
+    applySegmentTemplates?: CronJobDefault;
 }
 
 export interface DownvoteSegmentArchiveCron {
     voteThreshold: number;
     timeThresholdInDays: number;
 }
+
+export interface SyncPortedSegmentsCron {
+    maxVideosPerRun: number;
+    requestIntervalMs: number;
+    minSyncIntervalHours: number;
+    staleThresholdHours: number;
+}
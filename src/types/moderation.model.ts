@@ -0,0 +1,29 @@
+import { SegmentUUID, VideoID } from "./segments.model";
+import { HashedUserID } from "./user.model";
+
+export enum ModerationStatus {
+    Pending = "pending",
+    Approved = "approved",
+    Rejected = "rejected",
+}
+
+export enum PendingReason {
+    LowReputation = "lowReputation",
+    NewUser = "newUser",
+    Category = "category",
+    LongSegment = "longSegment",
+    AutoModerator = "autoModerator",
+}
+
+export interface ModerationQueueDB {
+    UUID: SegmentUUID;
+    videoID: VideoID;
+    cid: string;
+    userID: HashedUserID;
+    reason: PendingReason;
+    status: ModerationStatus;
+    moderatorUserID: HashedUserID;
+    note: string;
+    timeSubmitted: number;
+    timeModerated: number;
+}
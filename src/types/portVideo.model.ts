@@ -1,6 +1,6 @@
 import { HashedValue } from "./hash.model";
-import { HashedIP, HiddenType, VideoDuration, VideoID, VoteType } from "./segments.model";
-import { HashedUserID } from "./user.model";
+import { HashedIP, HiddenType, IPAddress, VideoDuration, VideoID, VoteType } from "./segments.model";
+import { HashedUserID, UserID } from "./user.model";
 
 export type portVideoUUID = string & { __portVideoUUIDBrand: unknown };
 
@@ -14,6 +14,8 @@ export interface PortVideoInterface {
     UUID: string;
     votes: number;
     locked: boolean;
+    timeOffset: number;
+    trimEnd: number;
 }
 
 export interface PortVideo {
@@ -26,13 +28,171 @@ export interface PortVideo {
     hidden: HiddenType;
     biliDuration: VideoDuration;
     ytbDuration: VideoDuration;
+    /** seconds to add to YouTube segment times to get Bilibili times */
+    timeOffset: number;
+    /** seconds of extra content at the end of the Bilibili video, negative if the YouTube video is cut short */
+    trimEnd: number;
     timeSubmitted: number;
     hashedBvID: HashedValue;
+    hashedYtbID: HashedValue;
 }
 
 export interface PortVideoDB extends PortVideo {
     userID: HashedUserID;
     userAgent: string;
+    lastSyncTime?: number;
+    syncFailCount?: number;
+    lastSyncError?: string;
+    /** JSON array of categories to port, all categories are ported if empty */
+    includedCategories?: string;
+    /** JSON array of categories not to port */
+    excludedCategories?: string;
+}
+
+/**
+ * the fields of a port video record used to resolve conflicts between records of the same part
+ */
+export type PortConflictCandidate = PortVideoInterface & Partial<Pick<PortVideoDB, "timeSubmitted" | "lastSyncTime" | "syncFailCount">>;
+
+export interface PortCategoryFilter {
+    includedCategories: string[];
+    excludedCategories: string[];
+}
+
+export enum PortSyncResult {
+    Updated = "updated",
+    Hidden = "hidden", // the record is outdated and hidden
+    UpstreamFailed = "upstreamFailed",
+    Error = "error",
+}
+
+export interface PortSyncJobStatus {
+    running: boolean;
+    startTime: number;
+    endTime: number;
+    total: number;
+    processed: number;
+    failed: number;
+}
+
+export interface PortVideoSubmission {
+    bvID: VideoID;
+    cid: string;
+    ytbID: VideoID;
+    paramUserID: UserID;
+    /** submitted duration of the part, checked against the Bilibili API if provided */
+    biliDuration?: VideoDuration;
+    timeOffset: number;
+    trimEnd: number;
+    categoryFilter?: PortCategoryFilter;
+    /** count a duplicate submission as an upvote of the existing binding */
+    upvoteDuplicate: boolean;
+    rawIP: IPAddress;
+    userAgent: string;
+}
+
+export interface PortVideoSubmissionResult {
+    result: PortSubmitResult;
+    status: number;
+    message?: string;
+    portVideo?: PortVideoInterface;
+}
+
+export enum PortSubmitResult {
+    Created = "created",
+    Duplicate = "duplicate",
+    DurationMismatch = "durationMismatch",
+    UpstreamFailed = "upstreamFailed",
+    Conflict = "conflict", // another active binding exists
+    Invalid = "invalid",
+    Busy = "busy",
+    Error = "error",
+}
+
+export interface PortImportRow {
+    line: number;
+    bvID: VideoID;
+    cid: string;
+    ytbID: VideoID;
+}
+
+export interface PortImportRowResult extends PortImportRow {
+    result: PortSubmitResult;
+    message: string;
+    UUID?: string;
+}
+
+export interface PortImportJob {
+    id: string;
+    userID: HashedUserID;
+    running: boolean;
+    startTime: number;
+    endTime: number;
+    total: number;
+    processed: number;
+    rows: PortImportRowResult[];
+}
+
+export interface PortImportJobDB extends Omit<PortImportJob, "running" | "rows"> {
+    running: number;
+    /** last time the progress was saved */
+    updateTime: number;
+    /** JSON array of the row results */
+    rows: string;
+}
+
+export enum PortConflictSource {
+    Submission = "submission",
+    Vote = "vote",
+    Repair = "repair",
+    VIP = "vip",
+}
+
+/**
+ * the first rule of the resolution policy that decided the winner
+ */
+export enum PortConflictReason {
+    Locked = "locked",
+    Votes = "votes",
+    Recency = "recency",
+    Verified = "verified",
+    VIPOverride = "vipOverride",
+}
+
+export interface PortVideoConflictDB {
+    bvID: VideoID;
+    cid: string;
+    winnerUUID: portVideoUUID;
+    loserUUID: portVideoUUID;
+    reason: PortConflictReason;
+    source: PortConflictSource;
+    userID: HashedUserID;
+    timeSubmitted: number;
+}
+
+export enum PortHistoryAction {
+    Hidden = "hidden",
+    Shown = "shown",
+}
+
+export enum PortHistoryReason {
+    Outdated = "outdated", // video durations do not match anymore
+    Downvoted = "downvoted",
+    Upvoted = "upvoted",
+    Conflict = "conflict", // lost to another binding of the same part
+    VIPOverride = "vipOverride",
+}
+
+export interface PortVideoHistoryDB {
+    bvID: VideoID;
+    cid: string;
+    UUID: portVideoUUID;
+    action: PortHistoryAction;
+    reason: PortHistoryReason;
+    /** JSON array of the ported segment UUIDs hidden or shown with the record */
+    affectedSegments: string;
+    userID: HashedUserID;
+    timeSubmitted: number;
 }
 
 export interface PortVideoVotesDB {
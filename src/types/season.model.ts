@@ -0,0 +1,42 @@
+import { HashedValue } from "./hash.model";
+import { ActionType, Category, VideoDuration, VideoID } from "./segments.model";
+import { HashedUserID } from "./user.model";
+
+// id of a ugc_season (合集)
+export type SeasonID = string & { __seasonIDBrand: unknown };
+export type SegmentTemplateUUID = HashedValue & { __segmentTemplateUUIDBrand: unknown };
+
+export interface SeasonEpisode {
+    videoID: VideoID;
+    cid: string;
+    duration: VideoDuration;
+}
+
+export interface VideoSeason {
+    id: SeasonID;
+    title: string;
+    episodes: SeasonEpisode[];
+}
+
+export interface SeasonLockCategoryDB {
+    seasonID: SeasonID;
+    userID: HashedUserID;
+    actionType: ActionType;
+    category: Category;
+    reason: string;
+    timeSubmitted: number;
+}
+
+export interface SegmentTemplateDB {
+    UUID: SegmentTemplateUUID;
+    seasonID: SeasonID;
+    videoID: VideoID; // the video the template was created from, used to look up the episodes of the season
+    startTime: number;
+    endTime: number;
+    category: Category;
+    actionType: ActionType;
+    description: string;
+    userID: HashedUserID;
+    hidden: number;
+    timeSubmitted: number;
+}
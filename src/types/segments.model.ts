@@ -1,6 +1,8 @@
 import { HashedValue } from "./hash.model";
 import { SBRecord } from "./lib.model";
+import { PendingReason } from "./moderation.model";
 import { portVideoUUID } from "./portVideo.model";
+import { SegmentTemplateUUID } from "./season.model";
 import { HashedUserID, UserID } from "./user.model";
 
 export type SegmentUUID = string & { __segmentUUIDBrand: unknown };
@@ -34,6 +36,8 @@ export enum ActionType {
 // Uncomment as needed
 export enum Service {
     YouTube = "YouTube",
+    // bilibili PGC episodes, stored by season ID
+    Bangumi = "Bangumi",
 }
 
 export interface IncomingSegment {
@@ -46,6 +50,48 @@ export interface IncomingSegment {
     ignoreSegment?: boolean;
 }
 
+/**
+ * machine readable reasons a submission is rejected, returned by the validation endpoint
+ */
+export enum SubmissionErrorCode {
+    InvalidFields = "invalidFields",
+    ActiveWarning = "activeWarning",
+    MultiPartUnsupported = "multiPartUnsupported",
+    InvalidCid = "invalidCid",
+    AllDuplicates = "allDuplicates",
+    AutoModerator = "autoModerator",
+    // segment fields
+    TimeFormat = "timeFormat",
+    InvalidDescription = "invalidDescription",
+    ChapterNameTooLong = "chapterNameTooLong",
+    NoPermission = "noPermission",
+    // segment checks
+    InvalidSegment = "invalidSegment",
+    InvalidCategory = "invalidCategory",
+    CategoryLocked = "categoryLocked",
+    ActionTypeNotSupported = "actionTypeNotSupported",
+    InvalidTimes = "invalidTimes",
+    PoiTooEarly = "poiTooEarly",
+    TooShort = "tooShort",
+}
+
+export interface SubmissionError {
+    code: SubmissionErrorCode;
+    message: string;
+}
+
+export interface SegmentVerdict {
+    index: number;
+    category: Category;
+    actionType: ActionType;
+    segment: string[];
+    valid: boolean;
+    errors: SubmissionError[];
+    duplicateUUID: SegmentUUID | null; // duplicates are skipped instead of rejected
+    lockReason: string | null; // set when the category is locked, even for VIPs who can still submit
+    pendingReason: PendingReason | null; // set when the segment would wait in the moderation queue
+}
+
 export interface VideoLabel {
     cid: string;
     category: Category;
@@ -71,6 +117,7 @@ export enum Visibility {
     VISIBLE = 0,
     HIDDEN = 1,
     MORE_HIDDEN = 2,
+    PENDING = 3, // waiting in the moderation queue, only shown to the submitter
 }
 
 export interface DBSegment {
@@ -101,10 +148,36 @@ export interface DBSegment {
     ytbID: VideoID;
     ytbSegmentUUID: SegmentUUID;
     portUUID: portVideoUUID;
+    templateUUID?: SegmentTemplateUUID;
 
     required: boolean; // Requested specifically from the client
 }
 
+export interface SegmentEdit {
+    startTime: number;
+    endTime: number;
+    category: Category;
+    description: string;
+}
+
+export interface SegmentRevisionDB {
+    UUID: SegmentUUID;
+    revision: number;
+    userID: HashedUserID;
+    isVIP: boolean;
+    oldStartTime: number;
+    oldEndTime: number;
+    oldCategory: Category;
+    oldDescription: string;
+    oldVotes: number;
+    startTime: number;
+    endTime: number;
+    category: Category;
+    description: string;
+    votes: number;
+    timeSubmitted: number;
+}
+
 export interface OverlappingSegmentGroup {
     segments: DBSegment[];
     votes: number;
@@ -113,6 +186,75 @@ export interface OverlappingSegmentGroup {
     reputation: number;
 }
 
+export enum SelectionRule {
+    AlwaysIncluded = "alwaysIncluded", // not competing with other groups
+    OnlyCandidate = "onlyCandidate",
+    Required = "required",
+    Locked = "locked",
+    Weight = "weight", // highest votes + reputation, ties are broken by the random shuffle
+}
+
+export enum ExcludedReason {
+    Hidden = "hidden",
+    Downvoted = "downvoted",
+    ShadowHidden = "shadowHidden",
+    Pending = "pending",
+}
+
+export interface SegmentCandidateExplanation {
+    UUID: SegmentUUID;
+    category: Category;
+    actionType: ActionType;
+    segment: number[];
+    votes: number;
+    reputation: number;
+    weight: number;
+    locked: boolean;
+    required: boolean;
+    hidden: boolean;
+    shadowHidden: boolean;
+    excludedReason?: ExcludedReason;
+    chosen: boolean;
+}
+
+export interface SegmentGroupExplanation {
+    votes: number;
+    reputation: number;
+    weight: number;
+    locked: boolean;
+    required: boolean;
+    chosen: boolean;
+    groupRule: SelectionRule; // why this group was kept or dropped among groups of the same kind
+    segmentRule: SelectionRule; // how the winner inside the group was picked
+    candidates: SegmentCandidateExplanation[];
+}
+
+export interface SegmentPartExplanation {
+    cid: string;
+    excluded: SegmentCandidateExplanation[];
+    groups: SegmentGroupExplanation[];
+}
+
+export enum ExportFormat {
+    VTT = "vtt",
+    Chapters = "chapters",
+    EDL = "edl", // mpv EDL, only keeps the parts that are not skipped
+    FFConcat = "ffconcat",
+    JSON = "json",
+    Danmaku = "danmaku", // Bilibili danmaku XML
+}
+
+export interface SegmentTimeline {
+    videoID: VideoID;
+    cid: string;
+    duration: number;
+    keep: number[][];
+    skip: number[][];
+    mute: number[][];
+    chapters: { segment: number[]; title: string }[];
+    highlights: number[];
+}
+
 export interface VotableObject {
     votes: number;
     reputation: number;
@@ -131,6 +273,20 @@ export interface VideoData {
     segments: Segment[];
 }
 
+export interface VideoPartInfo {
+    videoID: VideoID;
+    cid: string;
+    part: number;
+    partTitile: string;
+}
+
+export interface VideoPartData {
+    cid: string;
+    page: number;
+    part: string;
+    segments: Segment[];
+}
+
 export interface SegmentCache {
     shadowHiddenSegmentIPs: SBRecord<VideoID, SBRecord<string, Promise<{ hashedIP: HashedIP }[] | null>>>;
     userHashedIP?: HashedIP;
@@ -167,4 +323,6 @@ export enum HiddenType {
     Show = 0,
     Hidden = 1,
     MismatchHidden = 2, // hidden due to port video downvote, or ported segments deletion
+    CategoryHidden = 3, // hidden due to the category filter of the port video
+    TemplateHidden = 4, // hidden because the segment template was removed
 }
@@ -0,0 +1,61 @@
+import { config } from "../config";
+import { ActionType, Segment } from "../types/segments.model";
+import { formatChapterTime, getSegmentTitle } from "./segmentExport";
+
+// mode 5 is a comment fixed at the top of the player, 25 is the default font size
+const DANMAKU_MODE_TOP = 5;
+const DANMAKU_FONT_SIZE = 25;
+const DEFAULT_COLOR = 0xffffff;
+
+function escapeXml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+}
+
+function getCategoryColor(category: string): number {
+    const color = parseInt((config.danmakuColors?.[category] ?? "").replace("#", ""), 16);
+    return Number.isNaN(color) ? DEFAULT_COLOR : color;
+}
+
+function getDanmakuText(segment: Segment): string {
+    const [start, end] = segment.segment;
+    switch (segment.actionType) {
+        case ActionType.Poi:
+            return `【${getSegmentTitle(segment)}】`;
+        case ActionType.Chapter:
+            return `【章节】${getSegmentTitle(segment)}`;
+        case ActionType.Full:
+            return `【${getSegmentTitle(segment)}】整个视频`;
+        default:
+            return `【${getSegmentTitle(segment)}】时长 ${formatChapterTime(end - start)}，跳至 ${formatChapterTime(end)}`;
+    }
+}
+
+/**
+ * Build a Bilibili compatible danmaku XML document, one top comment at the start of every segment
+ */
+export function formatDanmakuXml(cid: string, segments: Segment[]): string {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const comments = [...segments]
+        .sort((a, b) => a.segment[0] - b.segment[0])
+        .map((segment, index) => {
+            const time = segment.actionType === ActionType.Full ? 0 : segment.segment[0];
+            // p: time, mode, font size, colour, send time, pool, sender hash, danmaku ID
+            const p = [time, DANMAKU_MODE_TOP, DANMAKU_FONT_SIZE, getCategoryColor(segment.category), timestamp, 0, "0", index + 1];
+            return `    <d p="${p.join(",")}">${escapeXml(getDanmakuText(segment))}</d>`;
+        });
+
+    return [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        "<i>",
+        "    <chatserver>chat.bilibili.com</chatserver>",
+        `    <chatid>${escapeXml(cid)}</chatid>`,
+        "    <mission>0</mission>",
+        `    <maxlimit>${comments.length}</maxlimit>`,
+        "    <state>0</state>",
+        "    <real_name>0</real_name>",
+        "    <source>k-v</source>",
+        ...comments,
+        "</i>",
+        "",
+    ].join("\n");
+}
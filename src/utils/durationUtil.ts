@@ -36,3 +36,11 @@ export function durationsAllEqual(durations: number[], tolerance = 2): boolean {
     }
     return Math.max(...durations) - Math.min(...durations) < tolerance;
 }
+
+/**
+ * check the durations of a port video binding,
+ * the Bilibili video contains the YouTube video shifted by timeOffset, plus trimEnd seconds at the end
+ */
+export function portDurationEquals(biliDuration: number, ytbDuration: number, timeOffset = 0, trimEnd = 0, tolerance = 2): boolean {
+    return durationEquals(ytbDuration, biliDuration - timeOffset - trimEnd, tolerance);
+}
@@ -1,4 +1,5 @@
 import { HashedValue } from "../types/hash.model";
+import { SeasonID, SegmentTemplateUUID } from "../types/season.model";
 import { ActionType, Category, SegmentUUID, Service, VideoDuration, VideoID } from "../types/segments.model";
 import { HashedUserID } from "../types/user.model";
 import { getHash } from "./HashCacheUtil";
@@ -31,3 +32,19 @@ export function getMatchVideoUUID(
 export function getPortSegmentUUID(bvID: VideoID, ytbID: VideoID, ytbUUID: string, timeSubmitted: number): SegmentUUID {
     return `${getHash(`${bvID}${ytbID}${ytbUUID}${timeSubmitted}`)}9` as SegmentUUID;
 }
+
+export function getSegmentTemplateUUID(
+    seasonID: SeasonID,
+    category: Category,
+    actionType: ActionType,
+    startTime: number,
+    endTime: number,
+    userID: HashedUserID,
+    timeSubmitted: number
+): SegmentTemplateUUID {
+    return `${getHash(`${seasonID}${category}${actionType}${startTime}${endTime}${userID}${timeSubmitted}`, 1)}5` as SegmentTemplateUUID;
+}
+
+export function getTemplateSegmentUUID(templateUUID: SegmentTemplateUUID, videoID: VideoID, cid: string): SegmentUUID {
+    return `${getHash(`${templateUUID}${videoID}${cid}`, 1)}6` as SegmentUUID;
+}
@@ -0,0 +1,40 @@
+import { PortCategoryFilter, PortVideoDB } from "../types/portVideo.model";
+import { validateCategories } from "./parseParams";
+
+/**
+ * parse a category list from a JSON string or an array, returns undefined if it is invalid
+ */
+export function parseCategoryList(value: unknown): string[] | undefined {
+    let categories = value ?? [];
+    if (typeof categories === "string") {
+        try {
+            categories = categories ? JSON.parse(categories) : [];
+        } catch (e) {
+            return undefined;
+        }
+    }
+    if (!Array.isArray(categories) || !categories.every((c) => typeof c === "string") || !validateCategories(categories)) {
+        return undefined;
+    }
+    return [...new Set(categories as string[])];
+}
+
+export function getPortCategoryFilter(portVideo: Pick<PortVideoDB, "includedCategories" | "excludedCategories">): PortCategoryFilter {
+    return {
+        includedCategories: parseCategoryList(portVideo.includedCategories) ?? [],
+        excludedCategories: parseCategoryList(portVideo.excludedCategories) ?? [],
+    };
+}
+
+/**
+ * an empty include list means all categories are included, excluded categories are never ported
+ */
+export function isCategoryPorted(category: string, filter?: PortCategoryFilter): boolean {
+    if (!filter) {
+        return true;
+    }
+    if (filter.includedCategories.length > 0 && !filter.includedCategories.includes(category)) {
+        return false;
+    }
+    return !filter.excludedCategories.includes(category);
+}
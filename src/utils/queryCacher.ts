@@ -4,7 +4,11 @@ import { Feature, HashedUserID, UserID } from "../types/user.model";
 import { Logger } from "../utils/logger";
 import redis, { TooManyActiveConnectionsError } from "../service/redis/redis";
 import {
+    lastModifiedKey,
+    LastModifiedType,
     portVideoByHashCacheKey,
+    portVideoByYtbHashCacheKey,
+    portVideoByYtbIDCacheKey,
     portVideoCacheKey,
     ratingHashKey,
     reputationKey,
@@ -17,6 +21,9 @@ import {
 } from "../service/redis/redisKeys";
 import { getHash } from "./HashCacheUtil";
 
+// markers are refreshed on every change, an expired marker only costs one full response
+const LAST_MODIFIED_MARKER_TTL = 7 * 24 * 60 * 60;
+
 async function get<T>(fetchFromDB: () => Promise<T>, key: string, ttl = 0): Promise<T> {
     try {
         const reply = await redis.getWithCache(key);
@@ -169,6 +176,8 @@ function clearSegmentCache(videoInfo: {
         redis.del(videoLabelsKey(videoInfo.hashedVideoID, videoInfo.service)).catch((err) => Logger.error(err));
         redis.del(videoLabelsHashKey(videoInfo.hashedVideoID, videoInfo.service)).catch((err) => Logger.error(err));
         if (videoInfo.userID) redis.del(reputationKey(videoInfo.userID)).catch((err) => Logger.error(err));
+        touchLastModified("segmentInfo", videoInfo.videoID);
+        if (videoInfo.userID) touchLastModified("userInfo", videoInfo.userID);
     }
 }
 
@@ -191,6 +200,26 @@ async function getKeyLastModified(key: string): Promise<Date> {
         .catch(() => Promise.reject("ETag - Redis error"));
 }
 
+/**
+ * Record that the data behind a key has changed, for ETags of values that are not cached with a fixed TTL
+ */
+function touchLastModified(type: LastModifiedType, key: string): void {
+    redis.setEx(lastModifiedKey(type, key), LAST_MODIFIED_MARKER_TTL, `${Date.now()}`).catch((err) => Logger.error(err));
+}
+
+/**
+ * @returns null if nothing changed since the marker expired, the last change is unknown then
+ */
+async function getLastModifiedMarker(type: LastModifiedType, key: string): Promise<Date | null> {
+    if (!config.redis?.enabled) return Promise.reject("ETag - Redis not enabled");
+    try {
+        const marker = await redis.get(lastModifiedKey(type, key));
+        return marker ? new Date(Number(marker)) : null;
+    } catch (e) {
+        return Promise.reject("ETag - Redis error");
+    }
+}
+
 function clearRatingCache(videoInfo: { hashedVideoID: VideoIDHash; service: Service }): void {
     if (videoInfo) {
         redis.del(ratingHashKey(videoInfo.hashedVideoID, videoInfo.service)).catch((err) => Logger.error(err));
@@ -201,10 +230,16 @@ function clearFeatureCache(userID: HashedUserID, feature: Feature): void {
     redis.del(userFeatureKey(userID, feature)).catch((err) => Logger.error(err));
 }
 
-function clearPortVideoCache(videoID: VideoID, prefix: string): void {
+function clearPortVideoCache(videoID: VideoID, prefix: string, ytbID?: VideoID): void {
     redis.del(portVideoCacheKey(videoID)).catch((err) => Logger.error(err));
     redis.del(portVideoByHashCacheKey(prefix)).catch((err) => Logger.error(err));
-    redis.del(`updatePortSegment:${videoID}`).catch((err) => Logger.error(err));
+    if (ytbID) {
+        redis.del(portVideoByYtbIDCacheKey(ytbID)).catch((err) => Logger.error(err));
+        redis.del(portVideoByYtbHashCacheKey(getHash(ytbID, 1))).catch((err) => Logger.error(err));
+    }
+    clearKeyPattern(`updatePortSegment:${videoID}.*`);
+    touchLastModified("portVideo", videoID);
+    touchLastModified("portVideoHash", prefix);
 }
 
 function clearTopUserCache(): void {
@@ -230,6 +265,8 @@ export const QueryCacher = {
     clearSegmentCache,
     clearSegmentCacheByID,
     getKeyLastModified,
+    touchLastModified,
+    getLastModifiedMarker,
     clearRatingCache,
     clearFeatureCache,
     clearPortVideoCache,
@@ -0,0 +1,73 @@
+import { encode } from "@msgpack/msgpack";
+import { Request, Response } from "express";
+
+export enum ResponseFormat {
+    JSON = "application/json",
+    NDJSON = "application/x-ndjson",
+    MessagePack = "application/x-msgpack",
+}
+
+const acceptedTypes = [
+    ResponseFormat.JSON,
+    ResponseFormat.NDJSON,
+    ResponseFormat.MessagePack,
+    "application/msgpack",
+    "application/vnd.msgpack",
+];
+
+export function getResponseFormat(req: Request): ResponseFormat {
+    const accepted = req.accepts(acceptedTypes);
+    if (accepted === ResponseFormat.NDJSON) return ResponseFormat.NDJSON;
+    if (accepted && accepted !== ResponseFormat.JSON) return ResponseFormat.MessagePack;
+    return ResponseFormat.JSON;
+}
+
+/**
+ * replace every category and actionType string with its index in a shared dictionary
+ */
+function compactValue(value: unknown, dictionary: { categories: string[]; actionTypes: string[] }): unknown {
+    if (Array.isArray(value)) {
+        return value.map((v) => compactValue(v, dictionary));
+    }
+    if (value === null || typeof value !== "object") {
+        return value;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) {
+        if ((key === "category" || key === "actionType") && typeof v === "string") {
+            const list = key === "category" ? dictionary.categories : dictionary.actionTypes;
+            if (!list.includes(v)) list.push(v);
+            result[key] = list.indexOf(v);
+        } else if (v !== undefined) {
+            result[key] = compactValue(v, dictionary);
+        }
+    }
+    return result;
+}
+
+/**
+ * Send the output of a hash prefix lookup in the format negotiated with the Accept header:
+ * JSON by default, one video per line for NDJSON, or MessagePack with a category and actionType dictionary.
+ */
+export function sendHashPrefixOutput(req: Request, res: Response, status: number, output: unknown[]): Response {
+    res.vary("Accept");
+    switch (getResponseFormat(req)) {
+        case ResponseFormat.NDJSON:
+            return res
+                .status(status)
+                .type(ResponseFormat.NDJSON)
+                .send(output.map((video) => `${JSON.stringify(video)}\n`).join(""));
+        case ResponseFormat.MessagePack: {
+            const dictionary = { categories: [] as string[], actionTypes: [] as string[] };
+            const videos = compactValue(output, dictionary);
+            const payload = encode({ ...dictionary, videos });
+            return res
+                .status(status)
+                .type(ResponseFormat.MessagePack)
+                .send(Buffer.from(payload.buffer, payload.byteOffset, payload.byteLength));
+        }
+        default:
+            return res.status(status).json(output);
+    }
+}
@@ -0,0 +1,134 @@
+import { ActionType, Segment, SegmentTimeline, VideoID } from "../types/segments.model";
+
+const categoryTitles: Record<string, string> = {
+    sponsor: "赞助/恰饭",
+    selfpromo: "自我推广",
+    exclusive_access: "品牌合作",
+    interaction: "三连/订阅提醒",
+    intro: "开场/片头",
+    outro: "鸣谢/片尾",
+    preview: "回顾/预览",
+    music_offtopic: "音乐:非音乐部分",
+    filler: "离题闲聊",
+    poi_highlight: "精彩时刻",
+    chapter: "章节",
+};
+
+export function getSegmentTitle(segment: Segment): string {
+    if (segment.actionType === ActionType.Chapter && segment.description) {
+        return segment.description;
+    }
+    return categoryTitles[segment.category] ?? segment.category;
+}
+
+function padTime(value: number, length = 2): string {
+    return `${value}`.padStart(length, "0");
+}
+
+/**
+ * hh:mm:ss.mmm, as used by WebVTT
+ */
+function formatVTTTime(totalSeconds: number): string {
+    const totalMs = Math.round(totalSeconds * 1000);
+    const hours = Math.floor(totalMs / 3600000);
+    const minutes = Math.floor(totalMs / 60000) % 60;
+    const seconds = Math.floor(totalMs / 1000) % 60;
+    return `${padTime(hours)}:${padTime(minutes)}:${padTime(seconds)}.${padTime(totalMs % 1000, 3)}`;
+}
+
+/**
+ * mm:ss, or h:mm:ss for long videos, as used by chapter lists in video descriptions
+ */
+export function formatChapterTime(totalSeconds: number): string {
+    const total = Math.floor(totalSeconds);
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor(total / 60) % 60;
+    const seconds = total % 60;
+    return hours > 0 ? `${hours}:${padTime(minutes)}:${padTime(seconds)}` : `${padTime(minutes)}:${padTime(seconds)}`;
+}
+
+function sortByStartTime(segments: Segment[]): Segment[] {
+    return [...segments].sort((a, b) => a.segment[0] - b.segment[0] || a.segment[1] - b.segment[1]);
+}
+
+function mergeRanges(ranges: number[][]): number[][] {
+    const merged: number[][] = [];
+    for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+        const last = merged[merged.length - 1];
+        if (last && start <= last[1]) {
+            last[1] = Math.max(last[1], end);
+        } else {
+            merged.push([start, end]);
+        }
+    }
+    return merged;
+}
+
+function getVideoDuration(segments: Segment[]): number {
+    return Math.max(0, ...segments.map((s) => s.videoDuration || 0));
+}
+
+/**
+ * the parts of the video left after removing skip segments, the last part is open ended (-1) if the duration is unknown
+ */
+function getKeepRanges(segments: Segment[], duration: number): number[][] {
+    const skipRanges = mergeRanges(segments.filter((s) => s.actionType === ActionType.Skip).map((s) => s.segment));
+    const keep: number[][] = [];
+    let cursor = 0;
+    for (const [start, end] of skipRanges) {
+        if (start > cursor) keep.push([cursor, start]);
+        cursor = Math.max(cursor, end);
+    }
+    if (duration <= 0) {
+        keep.push([cursor, -1]);
+    } else if (cursor < duration) {
+        keep.push([cursor, duration]);
+    }
+    return keep;
+}
+
+export function formatVTT(segments: Segment[]): string {
+    const cues = sortByStartTime(segments).map((segment, index) => {
+        // points of interest have no length, give them a second so that players can display them
+        const end = segment.segment[1] > segment.segment[0] ? segment.segment[1] : segment.segment[0] + 1;
+        return `${index + 1}\n${formatVTTTime(segment.segment[0])} --> ${formatVTTTime(end)}\n${getSegmentTitle(segment)}\n`;
+    });
+    return ["WEBVTT\n", ...cues].join("\n");
+}
+
+export function formatChapterList(segments: Segment[]): string {
+    return sortByStartTime(segments.filter((s) => s.actionType !== ActionType.Full))
+        .map((segment) => `${formatChapterTime(segment.segment[0])} ${getSegmentTitle(segment)}\n`)
+        .join("");
+}
+
+export function formatEDL(segments: Segment[], fileName: string): string {
+    const file = `%${Buffer.byteLength(fileName)}%${fileName}`;
+    const lines = getKeepRanges(segments, getVideoDuration(segments)).map(([start, end]) =>
+        end < 0 ? `${file},${start}` : `${file},${start},${end - start}`
+    );
+    return `# mpv EDL v0\n${lines.join("\n")}\n`;
+}
+
+export function formatFFConcat(segments: Segment[], fileName: string): string {
+    const file = `file '${fileName.replace(/'/g, "'\\''")}'`;
+    const entries = getKeepRanges(segments, getVideoDuration(segments)).map(([start, end]) =>
+        end < 0 ? `${file}\ninpoint ${start}` : `${file}\ninpoint ${start}\noutpoint ${end}`
+    );
+    return `ffconcat version 1.0\n${entries.join("\n")}\n`;
+}
+
+export function buildTimeline(videoID: VideoID, cid: string, segments: Segment[]): SegmentTimeline {
+    const duration = getVideoDuration(segments);
+    const ofType = (actionType: ActionType) => sortByStartTime(segments.filter((s) => s.actionType === actionType));
+    return {
+        videoID,
+        cid: cid ?? "",
+        duration,
+        keep: getKeepRanges(segments, duration),
+        skip: mergeRanges(ofType(ActionType.Skip).map((s) => s.segment)),
+        mute: mergeRanges(ofType(ActionType.Mute).map((s) => s.segment)),
+        chapters: ofType(ActionType.Chapter).map((s) => ({ segment: s.segment, title: getSegmentTitle(s) })),
+        highlights: ofType(ActionType.Poi).map((s) => s.segment[0]),
+    };
+}
@@ -0,0 +1,35 @@
+import { ActionType, Segment } from "../types/segments.model";
+
+/**
+ * Shift YouTube segments by the time offset of a port video binding.
+ * Segments that fall outside of the Bilibili video are dropped, the rest are clamped to the video.
+ */
+export function alignYoutubeSegments(ytbSegments: Segment[], timeOffset: number, biliDuration: number): Segment[] {
+    if (!timeOffset && !biliDuration) {
+        return ytbSegments;
+    }
+
+    const alignedSegments: Segment[] = [];
+    for (const ytbSegment of ytbSegments) {
+        // full video labels have no time range
+        if (ytbSegment.actionType === ActionType.Full) {
+            alignedSegments.push(ytbSegment);
+            continue;
+        }
+
+        let startTime = ytbSegment.segment[0] + timeOffset;
+        let endTime = ytbSegment.segment[1] + timeOffset;
+        const maxTime = biliDuration || Infinity;
+
+        if (ytbSegment.actionType === ActionType.Poi) {
+            if (startTime < 0 || startTime > maxTime) continue;
+        } else {
+            if (endTime <= 0 || startTime >= maxTime) continue;
+            startTime = Math.max(0, startTime);
+            endTime = Math.min(maxTime, endTime);
+        }
+
+        alignedSegments.push({ ...ytbSegment, segment: [startTime, endTime] });
+    }
+    return alignedSegments;
+}
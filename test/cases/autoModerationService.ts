@@ -0,0 +1,166 @@
+import assert from "assert";
+import { config } from "../../src/config";
+import { db } from "../../src/databases/databases";
+import {
+    AutoModerationSubmission,
+    evaluateAutoModerationRules,
+    getAutoModerationStats,
+    recordAutoModerationHits,
+} from "../../src/service/autoModerationService";
+import { AutoModerationRuleConfig } from "../../src/types/config.model";
+import { ActionType, Category, IncomingSegment, Service, VideoID } from "../../src/types/segments.model";
+import { HashedUserID } from "../../src/types/user.model";
+import { genUser } from "../utils/genUser";
+import { insertSegment } from "../utils/queryGen";
+
+const segment = (startTime: number, endTime: number, category = "sponsor", actionType = ActionType.Skip): IncomingSegment => ({
+    category: category as Category,
+    actionType,
+    segment: [`${startTime}`, `${endTime}`],
+});
+
+describe("autoModerationService", () => {
+    const user = genUser("autoModerationService", "user");
+    const videoID = "BV1AutoMod001" as VideoID;
+    const autoModerationRules = config.autoModerationRules;
+    const moderationQueue = config.moderationQueue;
+
+    const evaluate = (rules: Partial<AutoModerationRuleConfig>[], segments: IncomingSegment[], submission: Partial<AutoModerationSubmission> = {}) => {
+        config.autoModerationRules = rules.map((rule) => ({ name: rule.type, action: "reject", message: "", ...rule }) as AutoModerationRuleConfig);
+        return evaluateAutoModerationRules({
+            videoID,
+            cid: "1",
+            userID: user.pubID,
+            segments,
+            service: Service.YouTube,
+            videoDuration: 100,
+            ...submission,
+        });
+    };
+    const hitSegments = async (rule: Partial<AutoModerationRuleConfig>, segments: IncomingSegment[], submission?: Partial<AutoModerationSubmission>) =>
+        (await evaluate([rule], segments, submission))[0]?.segments ?? [];
+
+    before(async () => {
+        config.moderationQueue = { ...moderationQueue, enabled: true };
+        const defaults = { videoID, userID: user.pubID, cid: "1", videoDuration: 100 };
+        await insertSegment(db, { ...defaults, UUID: "automod-previous", startTime: 0, endTime: 30 });
+        await insertSegment(db, { ...defaults, UUID: "automod-previous-intro", startTime: 30, endTime: 50, category: "intro" });
+        await insertSegment(db, { ...defaults, UUID: "automod-downvoted", startTime: 50, endTime: 100, votes: -1 });
+        await insertSegment(db, { ...defaults, UUID: "automod-recent", startTime: 0, endTime: 1, timeSubmitted: Date.now() });
+        await insertSegment(db, { ...defaults, UUID: "automod-locked", userID: "automod-other" as HashedUserID, startTime: 60, endTime: 80, locked: true });
+    });
+
+    after(() => {
+        config.autoModerationRules = autoModerationRules;
+        config.moderationQueue = moderationQueue;
+    });
+
+    describe("coverage", () => {
+        const rule: Partial<AutoModerationRuleConfig> = { type: "coverage", maxPercent: 50 };
+
+        it("Should count the previous segments of the user", async () => {
+            // 0-30 and 30-50 are already submitted
+            assert.strictEqual((await hitSegments(rule, [segment(50, 55)])).length, 1);
+            assert.strictEqual((await hitSegments(rule, [segment(20, 45)])).length, 0);
+        });
+
+        it("Should only count the segments of the rule's categories", async () => {
+            assert.strictEqual((await hitSegments({ ...rule, categories: ["sponsor"] }, [segment(50, 65)])).length, 0);
+            assert.strictEqual((await hitSegments({ ...rule, categories: ["sponsor"] }, [segment(50, 75)])).length, 1);
+        });
+
+        it("Should not count chapters", async () => {
+            assert.strictEqual((await hitSegments(rule, [segment(50, 100, "chapter", ActionType.Chapter)])).length, 0);
+        });
+
+        it("Should pass when the duration is unknown", async () => {
+            assert.strictEqual((await hitSegments(rule, [segment(50, 100)], { videoDuration: 0 })).length, 0);
+        });
+    });
+
+    describe("submissionRate", () => {
+        const rule: Partial<AutoModerationRuleConfig> = { type: "submissionRate", maxSubmissions: 2, windowMinutes: 60 };
+
+        it("Should count the recent submissions of the user", async () => {
+            // one recent submission, the others are outside of the window
+            assert.strictEqual((await hitSegments(rule, [segment(10, 20)])).length, 0);
+            assert.strictEqual((await hitSegments(rule, [segment(10, 20), segment(30, 40)])).length, 2);
+        });
+
+        it("Should only count the submissions of the rule's categories", async () => {
+            const introRule = { ...rule, maxSubmissions: 1, categories: ["intro"] };
+            assert.strictEqual((await hitSegments(introRule, [segment(10, 20, "intro")])).length, 0);
+            assert.strictEqual((await hitSegments({ ...introRule, categories: [] }, [segment(10, 20, "intro")])).length, 1);
+        });
+    });
+
+    describe("lockedOverlap", () => {
+        const rule: Partial<AutoModerationRuleConfig> = { type: "lockedOverlap", minOverlapPercent: 50 };
+
+        it("Should return the segments mostly covering a locked segment", async () => {
+            const overlapping = segment(62, 80);
+            const hits = await hitSegments(rule, [overlapping, segment(70, 100), segment(10, 20)]);
+            assert.deepStrictEqual(hits, [overlapping]);
+        });
+
+        it("Should only compare with the locked segments of the same part", async () => {
+            assert.strictEqual((await hitSegments(rule, [segment(62, 80)], { cid: "2" })).length, 0);
+        });
+    });
+
+    describe("nearStart", () => {
+        const rule: Partial<AutoModerationRuleConfig> = { type: "nearStart", maxStartTime: 0.5, categories: ["intro"] };
+
+        it("Should return the segments starting at the beginning", async () => {
+            const atStart = segment(0.5, 10, "intro");
+            assert.deepStrictEqual(await hitSegments(rule, [atStart, segment(1, 10, "intro"), segment(0, 10)]), [atStart]);
+        });
+
+        it("Should not return full video labels", async () => {
+            assert.strictEqual((await hitSegments(rule, [segment(0, 0, "intro", ActionType.Full)])).length, 0);
+        });
+    });
+
+    describe("rules", () => {
+        const nearStart: Partial<AutoModerationRuleConfig> = { type: "nearStart", maxStartTime: 0.5 };
+
+        it("Should only check users below the reputation of a rule", async () => {
+            assert.strictEqual((await hitSegments({ ...nearStart, maxReputation: 1 }, [segment(0, 10)])).length, 1);
+            assert.strictEqual((await hitSegments({ ...nearStart, maxReputation: 0 }, [segment(0, 10)])).length, 0);
+        });
+
+        it("Should return a hit for every rule that was broken, in order", async () => {
+            const hits = await evaluate([
+                { ...nearStart, name: "first", action: "shadowHide", message: "first message" },
+                { type: "lockedOverlap", name: "not broken", minOverlapPercent: 50 },
+                { ...nearStart, name: "second", action: "queue" },
+            ], [segment(0, 10)]);
+            assert.deepStrictEqual(hits.map((hit) => [hit.rule, hit.action]), [["first", "shadowHide"], ["second", "queue"]]);
+            assert.strictEqual(hits[0].message, "first message");
+        });
+
+        it("Should skip queue rules while the moderation queue is disabled", async () => {
+            config.moderationQueue = { ...moderationQueue, enabled: false };
+            try {
+                const hits = await evaluate([{ ...nearStart, action: "queue" }, { ...nearStart, action: "reject" }], [segment(0, 10)]);
+                assert.deepStrictEqual(hits.map((hit) => hit.action), ["reject"]);
+            } finally {
+                config.moderationQueue = { ...moderationQueue, enabled: true };
+            }
+        });
+
+        it("Should skip rules of an unknown type", async () => {
+            const hits = await evaluate([{ type: "unknown" as AutoModerationRuleConfig["type"] }], [segment(0, 10)]);
+            assert.deepStrictEqual(hits, []);
+        });
+
+        it("Should count the hits of each rule", async () => {
+            const hits = await evaluate([{ ...nearStart, name: "automod-stats" }], [segment(0, 10), segment(0.2, 10)]);
+            recordAutoModerationHits(hits, { videoID, cid: "1", userID: "automod" as HashedUserID, segments: [], service: Service.YouTube, videoDuration: 100 });
+            recordAutoModerationHits(hits, { videoID, cid: "1", userID: "automod" as HashedUserID, segments: [], service: Service.YouTube, videoDuration: 100 });
+            const stats = getAutoModerationStats()["automod-stats"];
+            assert.strictEqual(stats.hits, 2);
+            assert.strictEqual(stats.segments, 4);
+        });
+    });
+});
@@ -0,0 +1,42 @@
+import assert from "assert";
+import { av2bv, bv2av, parseVideoID } from "../../src/service/validate/bilibiliID";
+import { VideoID } from "../../src/types/segments.model";
+
+describe("parseVideoID", () => {
+    it("Should return BV IDs as is", () => {
+        assert.deepStrictEqual(parseVideoID("BV17x411w7KC"), { bvID: "BV17x411w7KC", page: null });
+    });
+
+    it("Should convert av numbers", () => {
+        assert.deepStrictEqual(parseVideoID("av170001"), { bvID: "BV17x411w7KC", page: null });
+        assert.deepStrictEqual(parseVideoID("AV170001"), { bvID: "BV17x411w7KC", page: null });
+    });
+
+    it("Should parse video links with a page", () => {
+        assert.deepStrictEqual(parseVideoID("https://www.bilibili.com/video/BV17x411w7KC/?p=3"), { bvID: "BV17x411w7KC", page: 3 });
+        assert.deepStrictEqual(parseVideoID("https://www.bilibili.com/video/av170001?p=0"), { bvID: "BV17x411w7KC", page: null });
+    });
+
+    it("Should not resolve short links", () => {
+        assert.strictEqual(parseVideoID("https://b23.tv/abcdefg"), null);
+    });
+
+    it("Should convert the largest av number", () => {
+        const aid = 2 ** 51 - 1;
+        const result = parseVideoID(`av${aid}`);
+        assert.ok(result);
+        assert.strictEqual(bv2av(result.bvID), aid);
+    });
+
+    it("Should reject av numbers that can not be encoded", () => {
+        assert.strictEqual(parseVideoID("av0"), null);
+        assert.strictEqual(parseVideoID(`av${2 ** 51}`), null);
+        assert.strictEqual(parseVideoID(`av${"9".repeat(400)}`), null);
+        assert.strictEqual(parseVideoID(`https://www.bilibili.com/video/av${"9".repeat(400)}`), null);
+    });
+
+    it("Should convert between av and BV", () => {
+        assert.strictEqual(av2bv(170001), "BV17x411w7KC");
+        assert.strictEqual(bv2av("BV17x411w7KC" as VideoID), 170001);
+    });
+});
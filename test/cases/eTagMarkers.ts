@@ -0,0 +1,97 @@
+import assert from "assert";
+import { client } from "../utils/httpClient";
+import redis from "../../src/service/redis/redis";
+import { config } from "../../src/config";
+import { lastModifiedKey } from "../../src/service/redis/redisKeys";
+import { db } from "../../src/databases/databases";
+import { insertSegment } from "../utils/queryGen";
+import { getHash } from "../../src/utils/HashCacheUtil";
+import { VideoIDHash } from "../../src/types/segments.model";
+
+describe("last modified marker etag validation", () => {
+    before(function() {
+        if (!config.redis?.enabled) this.skip();
+    });
+
+    const endpoint = "/etag";
+    const bvID = "BV1xx411c7mD";
+    const otherBvID = "BV1xx411c7mu";
+
+    it("Should return 304 if the marker is not newer", async () => {
+        const lastModified = Date.now() - 60 * 1000;
+        await redis.set(lastModifiedKey("portVideo", bvID), `${lastModified}`);
+        const etagKey = `"portVideo;${bvID};YouTube;${lastModified}"`;
+        const res = await client.get(endpoint, { headers: { "If-None-Match": etagKey } });
+        assert.strictEqual(res.status, 304);
+    });
+
+    it("Should not return 304 if the marker is newer", async () => {
+        await redis.set(lastModifiedKey("portVideo", bvID), `${Date.now()}`);
+        const etagKey = `"portVideo;${bvID};YouTube;5000"`;
+        const res = await client.get(endpoint, { headers: { "If-None-Match": etagKey } });
+        assert.strictEqual(res.status, 404);
+    });
+
+    it("Should not create a marker when reading", async () => {
+        const etagKey = `"portVideo;${otherBvID};YouTube;${Date.now()}"`;
+        const res = await client.get(endpoint, { headers: { "If-None-Match": etagKey } });
+        assert.strictEqual(res.status, 404);
+        assert.strictEqual(await redis.get(lastModifiedKey("portVideo", otherBvID)), null);
+    });
+
+    it("Should not return 304 for a list with an unknown key", async () => {
+        await redis.set(lastModifiedKey("segmentInfo", bvID), "5000");
+        const etagKey = `"segmentInfo;${bvID},${otherBvID};YouTube;${Date.now()}"`;
+        const res = await client.get(endpoint, { headers: { "If-None-Match": etagKey } });
+        assert.strictEqual(res.status, 404);
+    });
+
+    it("Should not return 304 for an invalid key", async () => {
+        const key = "not-a-video";
+        await redis.set(lastModifiedKey("portVideo", key), "5000");
+        const etagKey = `"portVideo;${key};YouTube;${Date.now()}"`;
+        const res = await client.get(endpoint, { headers: { "If-None-Match": etagKey } });
+        assert.strictEqual(res.status, 404);
+    });
+
+    it("Should not return 304 for too many keys", async () => {
+        await redis.set(lastModifiedKey("segmentInfo", bvID), "5000");
+        const etagKey = `"segmentInfo;${new Array(11).fill(bvID).join(",")};YouTube;${Date.now()}"`;
+        const res = await client.get(endpoint, { headers: { "If-None-Match": etagKey } });
+        assert.strictEqual(res.status, 404);
+    });
+});
+
+describe("etag validation without redis", () => {
+    before(async function() {
+        if (config.redis?.enabled) this.skip();
+        await insertSegment(db, { videoID: "BV1EtagNone1", hashedVideoID: getHash("BV1EtagNone1", 1) as VideoIDHash, UUID: "etag-without-redis", startTime: 10, endTime: 20, videoDuration: 600 });
+    });
+
+    const endpoint = "/etag";
+
+    it("Should pass on a marker etag", async () => {
+        const etagKey = `"portVideo;BV1xx411c7mD;YouTube;${Date.now()}"`;
+        const res = await client.get(endpoint, { headers: { "If-None-Match": etagKey } });
+        assert.strictEqual(res.status, 404);
+    });
+
+    it("Should pass on a cache key etag", async () => {
+        const etagKey = `"skipSegmentsHash;abcd;YouTube;${Date.now()}"`;
+        const res = await client.get(endpoint, { headers: { "If-None-Match": etagKey } });
+        assert.strictEqual(res.status, 404);
+    });
+
+    it("Should pass on an etag of an unknown type", async () => {
+        const res = await client.get(endpoint, { headers: { "If-None-Match": `"unknown;key;YouTube;${Date.now()}"` } });
+        assert.strictEqual(res.status, 404);
+    });
+
+    it("Should answer a request with an etag without setting one", async () => {
+        const etagKey = `"skipSegments;BV1EtagNone1;YouTube;${Date.now()}"`;
+        const res = await client.get("/api/skipSegments", { params: { videoID: "BV1EtagNone1" }, headers: { "If-None-Match": etagKey } });
+        assert.strictEqual(res.status, 200);
+        assert.strictEqual(res.data[0].UUID, "etag-without-redis");
+        assert.strictEqual(res.headers.etag, undefined);
+    });
+});
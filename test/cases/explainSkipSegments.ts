@@ -0,0 +1,114 @@
+import assert from "assert";
+import { db } from "../../src/databases/databases";
+import { ExcludedReason, SegmentGroupExplanation, SegmentPartExplanation, SelectionRule } from "../../src/types/segments.model";
+import { client } from "../utils/httpClient";
+import { genUser } from "../utils/genUser";
+import { insertSegment, insertVip } from "../utils/queryGen";
+
+describe("explainSkipSegments", () => {
+    const endpoint = "/api/skipSegments";
+    const videoID = "BV1Explain01";
+    const vipUser = genUser("explainSkipSegments", "vip");
+    const normalUser = genUser("explainSkipSegments", "normal");
+    const tiedUUIDs = ["explain-tie-1", "explain-tie-2", "explain-tie-3", "explain-tie-4", "explain-tie-5"];
+
+    const explain = (params: Record<string, unknown> = {}) =>
+        client.get(endpoint, { params: { videoID, explain: "true", userID: vipUser.privID, ...params } });
+    const getPart = (parts: SegmentPartExplanation[], cid: string) => parts.find((p) => p.cid === cid);
+    const findGroup = (part: SegmentPartExplanation, UUID: string) => part.groups.find((g) => g.candidates.some((c) => c.UUID === UUID));
+    const chosenUUIDs = (group: SegmentGroupExplanation) => group.candidates.filter((c) => c.chosen).map((c) => c.UUID);
+
+    before(async () => {
+        await insertVip(db, vipUser.pubID);
+        const insert = (cid: string, UUID: string, startTime: number, endTime: number, overrides = {}) =>
+            insertSegment(db, { videoID, cid, UUID, startTime, endTime, videoDuration: 600, ...overrides });
+        // part 1, a group of tied segments and segments that are never returned
+        for (const UUID of tiedUUIDs) {
+            await insert("1", UUID, 10, 20);
+        }
+        await insert("1", "explain-downvoted", 100, 110, { votes: -2 });
+        await insert("1", "explain-hidden", 200, 210, { hidden: true });
+        // part 2, competing highlights and a lone skip segment
+        await insert("2", "explain-poi", 50, 50, { category: "poi_highlight", actionType: "poi", votes: 10 });
+        await insert("2", "explain-poi-locked", 300, 300, { category: "poi_highlight", actionType: "poi", locked: true });
+        await insert("2", "explain-single", 10, 20, { votes: 1 });
+    });
+
+    it("Should only explain to VIPs", async () => {
+        assert.strictEqual((await explain({ userID: normalUser.privID })).status, 403);
+        assert.strictEqual((await explain({ userID: undefined })).status, 403);
+    });
+
+    it("Should not explain a video without segments", async () => {
+        const res = await explain({ videoID: "BV1Explain02" });
+        assert.strictEqual(res.status, 404);
+    });
+
+    it("Should reject an invalid seed", async () => {
+        const res = await explain({ seed: "abc" });
+        assert.strictEqual(res.status, 400);
+    });
+
+    it("Should return the seed that was used", async () => {
+        const res = await explain();
+        assert.strictEqual(res.status, 200);
+        assert.strictEqual(res.data.videoID, videoID);
+        assert.ok(Number.isSafeInteger(res.data.seed));
+        assert.deepStrictEqual(res.data.parts.map((p: SegmentPartExplanation) => p.cid), ["1", "2"]);
+    });
+
+    it("Should break ties the same way for the same seed", async () => {
+        const getWinner = async (seed: number) => {
+            const res = await explain({ seed });
+            assert.strictEqual(res.data.seed, seed);
+            return chosenUUIDs(findGroup(getPart(res.data.parts, "1"), tiedUUIDs[0]));
+        };
+        const winners = new Set<string>();
+        for (let seed = 0; seed < 10; seed++) {
+            const winner = await getWinner(seed);
+            assert.strictEqual(winner.length, 1);
+            assert.deepStrictEqual(await getWinner(seed), winner);
+            winners.add(winner[0]);
+        }
+        // ties are still broken at random between seeds
+        assert.ok(winners.size > 1);
+    });
+
+    it("Should explain the segments that were excluded", async () => {
+        const part = getPart((await explain({ cid: "1" })).data.parts, "1");
+        const excluded = Object.fromEntries(part.excluded.map((c) => [c.UUID, c]));
+        assert.strictEqual(excluded["explain-downvoted"].excludedReason, ExcludedReason.Downvoted);
+        assert.strictEqual(excluded["explain-hidden"].excludedReason, ExcludedReason.Hidden);
+        assert.ok(part.excluded.every((c) => !c.chosen));
+        assert.strictEqual(part.groups.length, 1);
+    });
+
+    it("Should explain the rules of each group", async () => {
+        const part = getPart((await explain({ cid: "2" })).data.parts, "2");
+        assert.strictEqual(part.groups.length, 3);
+
+        const tiedGroup = findGroup(getPart((await explain({ cid: "1" })).data.parts, "1"), tiedUUIDs[0]);
+        assert.strictEqual(tiedGroup.groupRule, SelectionRule.AlwaysIncluded);
+        assert.strictEqual(tiedGroup.segmentRule, SelectionRule.Weight);
+        assert.strictEqual(tiedGroup.candidates.length, tiedUUIDs.length);
+
+        const single = findGroup(part, "explain-single");
+        assert.strictEqual(single.groupRule, SelectionRule.AlwaysIncluded);
+        assert.strictEqual(single.segmentRule, SelectionRule.OnlyCandidate);
+        assert.deepStrictEqual(chosenUUIDs(single), ["explain-single"]);
+
+        // the locked highlight wins over the one with more votes
+        const locked = findGroup(part, "explain-poi-locked");
+        assert.strictEqual(locked.groupRule, SelectionRule.Locked);
+        assert.strictEqual(locked.chosen, true);
+        const voted = findGroup(part, "explain-poi");
+        assert.strictEqual(voted.groupRule, SelectionRule.Locked);
+        assert.strictEqual(voted.chosen, false);
+        assert.strictEqual(voted.weight, 10);
+    });
+
+    it("Should only explain the requested part", async () => {
+        const res = await explain({ cid: "2" });
+        assert.deepStrictEqual(res.data.parts.map((p: SegmentPartExplanation) => p.cid), ["2"]);
+    });
+});
@@ -0,0 +1,36 @@
+import assert from "assert";
+import { getBangumiEpisode } from "../../src/service/api/getBangumiDetails";
+import { BilibiliPgcSeasonView } from "../../src/types/bilibiliPgcApi.model";
+import { ImportMock, StaticMockManager } from "ts-mock-imports";
+import * as BilibiliAPIModule from "../../src/service/api/bilibiliApi";
+
+describe("getBangumiEpisode", () => {
+    // the extra is added to the episodes once it is released as one
+    let episodeIDs = [1001];
+
+    let mockManager: StaticMockManager<BilibiliAPIModule.BilibiliAPI>;
+
+    before(() => {
+        mockManager = ImportMock.mockStaticClass(BilibiliAPIModule, "BilibiliAPI");
+        // eslint-disable-next-line require-await
+        mockManager.mock("getPgcSeasonView").callsFake(async () => ({
+            season_id: 500,
+            episodes: episodeIDs.map((id) => ({ id, cid: id * 10 })),
+        } as unknown as BilibiliPgcSeasonView));
+    });
+
+    after(() => mockManager.restore());
+
+    it("Should resolve an episode into its season and cid", async () => {
+        assert.deepStrictEqual(await getBangumiEpisode(1001), { seasonID: "ss500", cid: "10010" });
+    });
+
+    it("Should return null for an extra of the season", async () => {
+        assert.strictEqual(await getBangumiEpisode(1002), null);
+    });
+
+    it("Should not cache an extra that is not an episode", async () => {
+        episodeIDs = [1001, 1002];
+        assert.deepStrictEqual(await getBangumiEpisode(1002), { seasonID: "ss500", cid: "10020" });
+    });
+});
@@ -42,4 +42,54 @@ describe("getChapterNames", function () {
     it("Search for 'weird'", () => nameSearch("weird", chapterNames[0]));
     it("Search for 'different'", () => nameSearch("different", chapterNames[1]));
     it("Search for 'something'", () => nameSearch("something", chapterNames[2]));
-});
\ No newline at end of file
+});
+describe("getChapterNames - SQLite", function () {
+    const endpoint = "/api/chapterNames";
+
+    const videoID = genRandomValue("video", "getChapterNamesSQLite");
+    const otherVideoID = genRandomValue("video", "getChapterNamesSQLite-other");
+    const channelID = genRandomValue("channel", "getChapterNamesSQLite");
+    const otherChannelID = genRandomValue("channel", "getChapterNamesSQLite-other");
+
+    const search = (description: string, channel = channelID) => client.get(endpoint, { params: { description, channelID: channel } });
+
+    before(async function() {
+        if (db instanceof Postgres) this.skip(); // the similarity ranking is covered above
+        await insertChapter(db, "Intro", { videoID, startTime: 0, endTime: 10 });
+        await insertChapter(db, "Intro", { videoID, startTime: 0, endTime: 11 });
+        await insertChapter(db, "Introduction", { videoID, startTime: 10, endTime: 20 });
+        await insertChapter(db, "100% done", { videoID, startTime: 20, endTime: 30 });
+        await insertChapter(db, "Intro downvoted", { videoID, startTime: 30, endTime: 40, votes: -2 });
+        await insertChapter(db, "Intro locked", { videoID, startTime: 40, endTime: 50, votes: -2, locked: true });
+        await insertChapter(db, "Intro hidden", { videoID, startTime: 50, endTime: 60, hidden: true });
+        await insertChapter(db, "Intro shadowhidden", { videoID, startTime: 60, endTime: 70, shadowHidden: true });
+        await insertChapter(db, "Intro other channel", { videoID: otherVideoID, startTime: 0, endTime: 10 });
+
+        await insertVideoInfo(db, videoID, channelID);
+        await insertVideoInfo(db, otherVideoID, otherChannelID);
+    });
+
+    it("Should return the visible names of the channel containing the query, most used first", async () => {
+        const res = await search("intro");
+        assert.strictEqual(res.status, 200);
+        assert.strictEqual(res.data[0].description, "Intro");
+        assert.deepStrictEqual(res.data.map((d: { description: string }) => d.description).sort(), ["Intro", "Intro locked", "Introduction"]);
+    });
+
+    it("Should match LIKE wildcards literally", async () => {
+        const res = await search("0%");
+        assert.strictEqual(res.status, 200);
+        assert.deepStrictEqual(res.data, [{ description: "100% done" }]);
+        assert.strictEqual((await search("_")).status, 404);
+    });
+
+    it("Should return 404 without matching names", async () => {
+        const res = await search("outro");
+        assert.strictEqual(res.status, 404);
+    });
+
+    it("Should require a description and a channelID", async () => {
+        assert.strictEqual((await client.get(endpoint, { params: { description: "intro" } })).status, 400);
+        assert.strictEqual((await client.get(endpoint, { params: { channelID } })).status, 400);
+    });
+});
@@ -0,0 +1,48 @@
+import assert from "assert";
+import { db } from "../../src/databases/databases";
+import { getHash } from "../../src/utils/HashCacheUtil";
+import { client } from "../utils/httpClient";
+
+describe("getPortVideo", () => {
+    const endpoint = "/api/portVideo";
+    const bvID = "BV1GetPort01";
+
+    const insertPortVideo = (cid: string, ytbID: string, UUID: string) =>
+        db.prepare("run", `INSERT INTO "portVideo" ("bvID", "cid", "ytbID", "UUID", "biliDuration", "ytbDuration", "userID", "timeSubmitted", "hashedBvID")
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`, [bvID, cid, ytbID, UUID, 600, 600, "getPortVideo-user", 0, getHash(bvID, 1)]);
+
+    before(async () => {
+        await insertPortVideo("1", "getPort0001", "get-port-part-1");
+        await insertPortVideo("2", "getPort0002", "get-port-part-2");
+    });
+
+    it("Should return a single record for the requested part", async () => {
+        const res = await client.get(endpoint, { params: { videoID: bvID, cid: "2" } });
+        assert.strictEqual(res.status, 200);
+        assert.strictEqual(res.data.UUID, "get-port-part-2");
+        assert.strictEqual(res.data.ytbID, "getPort0002");
+    });
+
+    it("Should return a single record without a cid", async () => {
+        const res = await client.get(endpoint, { params: { videoID: bvID } });
+        assert.strictEqual(res.status, 200);
+        assert.ok(!Array.isArray(res.data));
+        assert.strictEqual(res.data.bvID, bvID);
+    });
+
+    it("Should return every part when all parts are requested", async () => {
+        const res = await client.get(endpoint, { params: { videoID: bvID, allParts: "true" } });
+        assert.strictEqual(res.status, 200);
+        assert.deepStrictEqual(res.data.map((p: { cid: string }) => p.cid).sort(), ["1", "2"]);
+    });
+
+    it("Should return 404 for a part without a record", async () => {
+        const res = await client.get(endpoint, { params: { videoID: bvID, cid: "3" } });
+        assert.strictEqual(res.status, 404);
+    });
+
+    it("Should reject an invalid cid", async () => {
+        const res = await client.get(endpoint, { params: { videoID: bvID, cid: "abc" } });
+        assert.strictEqual(res.status, 400);
+    });
+});
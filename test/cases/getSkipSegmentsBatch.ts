@@ -0,0 +1,76 @@
+import assert from "assert";
+import { db } from "../../src/databases/databases";
+import { VideoIDHash } from "../../src/types/segments.model";
+import { getHash } from "../../src/utils/HashCacheUtil";
+import { client } from "../utils/httpClient";
+import { insertSegment } from "../utils/queryGen";
+
+describe("getSkipSegmentsBatch", () => {
+    const endpoint = "/api/skipSegments/batch";
+    const firstVideo = "BV1SkipBatch1";
+    const secondVideo = "BV1SkipBatch2";
+    const emptyVideo = "BV1SkipBatch3";
+
+    const postBatch = (videos: unknown, params: Record<string, unknown> = {}) => client.post(endpoint, { videos }, { params });
+    const UUIDs = (segments: { UUID: string }[]) => segments.map((s) => s.UUID).sort();
+
+    before(async () => {
+        const insert = (videoID: string, cid: string, UUID: string, category = "sponsor") =>
+            insertSegment(db, { videoID, hashedVideoID: getHash(videoID, 1) as VideoIDHash, cid, UUID, category, startTime: 10, endTime: 20, videoDuration: 600 });
+        await insert(firstVideo, "1", "skip-batch-first-1");
+        await insert(firstVideo, "2", "skip-batch-first-2");
+        await insert(secondVideo, "1", "skip-batch-second-sponsor");
+        await insert(secondVideo, "1", "skip-batch-second-intro", "intro");
+    });
+
+    it("Should return the segments of every requested video", async () => {
+        const res = await postBatch([{ videoID: firstVideo }, { videoID: secondVideo }, { videoID: emptyVideo }]);
+        assert.strictEqual(res.status, 200);
+        assert.deepStrictEqual(Object.keys(res.data).sort(), [firstVideo, secondVideo, emptyVideo]);
+        assert.deepStrictEqual(UUIDs(res.data[firstVideo]), ["skip-batch-first-1", "skip-batch-first-2"]);
+        assert.deepStrictEqual(UUIDs(res.data[secondVideo]), ["skip-batch-second-intro", "skip-batch-second-sponsor"]);
+        assert.deepStrictEqual(res.data[emptyVideo], []);
+    });
+
+    it("Should apply the category filter of the query", async () => {
+        const res = await postBatch([{ videoID: secondVideo }], { categories: '["sponsor"]' });
+        assert.strictEqual(res.status, 200);
+        assert.deepStrictEqual(UUIDs(res.data[secondVideo]), ["skip-batch-second-sponsor"]);
+    });
+
+    it("Should only return the segments of the requested cid", async () => {
+        const res = await postBatch([{ videoID: firstVideo, cid: "2" }]);
+        assert.strictEqual(res.status, 200);
+        assert.deepStrictEqual(UUIDs(res.data[firstVideo]), ["skip-batch-first-2"]);
+    });
+
+    it("Should merge the cids requested for the same video", async () => {
+        const res = await postBatch([{ videoID: firstVideo, cid: "1" }, { videoID: firstVideo, cid: "2" }, { videoID: firstVideo, cid: "1" }]);
+        assert.strictEqual(res.status, 200);
+        assert.deepStrictEqual(UUIDs(res.data[firstVideo]), ["skip-batch-first-1", "skip-batch-first-2"]);
+    });
+
+    it("Should reject more than 100 videos", async () => {
+        const videos = Array.from({ length: 101 }, (_, i) => ({ videoID: `BV1Batch${`${i}`.padStart(4, "0")}` }));
+        const res = await postBatch(videos);
+        assert.strictEqual(res.status, 400);
+        assert.strictEqual((await postBatch(videos.slice(0, 100))).status, 200);
+    });
+
+    it("Should reject a missing or empty list of videos", async () => {
+        assert.strictEqual((await postBatch(undefined)).status, 400);
+        assert.strictEqual((await postBatch([])).status, 400);
+        assert.strictEqual((await postBatch({ videoID: firstVideo })).status, 400);
+    });
+
+    it("Should reject an invalid videoID or cid", async () => {
+        assert.strictEqual((await postBatch([{ videoID: firstVideo }, { cid: "1" }])).status, 400);
+        assert.strictEqual((await postBatch([{ videoID: 1 }])).status, 400);
+        assert.strictEqual((await postBatch([{ videoID: firstVideo, cid: "abc" }])).status, 400);
+    });
+
+    it("Should reject invalid filters", async () => {
+        const res = await postBatch([{ videoID: firstVideo }], { categories: "not json" });
+        assert.strictEqual(res.status, 400);
+    });
+});
@@ -0,0 +1,100 @@
+import assert from "assert";
+import { db } from "../../src/databases/databases";
+import { VideoIDHash } from "../../src/types/segments.model";
+import { getHash } from "../../src/utils/HashCacheUtil";
+import { client } from "../utils/httpClient";
+import { insertSegment } from "../utils/queryGen";
+
+describe("getSkipSegmentsExport", () => {
+    const endpoint = "/api/skipSegments/export";
+    const videoID = "export-video";
+    const multiPartVideoID = "export-multi-part";
+
+    const getExport = (format: string, params: Record<string, string> = {}) =>
+        client.get(endpoint, { params: { videoID, format, ...params } });
+
+    before(async () => {
+        const defaults = { videoID, hashedVideoID: getHash(videoID, 1) as VideoIDHash, videoDuration: 100, cid: "1" };
+        await insertSegment(db, { ...defaults, UUID: "export-intro", startTime: 0, endTime: 5, category: "intro" });
+        await insertSegment(db, { ...defaults, UUID: "export-sponsor", startTime: 10, endTime: 20 });
+        await insertSegment(db, { ...defaults, UUID: "export-chapter", startTime: 30, endTime: 40, category: "chapter", actionType: "chapter",
+            description: "Part <A>" });
+        await insertSegment(db, { ...defaults, UUID: "export-poi", startTime: 50, endTime: 50, category: "poi_highlight", actionType: "poi" });
+
+        const multiPart = { videoID: multiPartVideoID, hashedVideoID: getHash(multiPartVideoID, 1) as VideoIDHash, videoDuration: 100 };
+        await insertSegment(db, { ...multiPart, UUID: "export-part-1", startTime: 10, endTime: 20, cid: "1" });
+        await insertSegment(db, { ...multiPart, UUID: "export-part-2", startTime: 10, endTime: 20, cid: "2" });
+    });
+
+    it("Should export the timeline as JSON", async () => {
+        const res = await getExport("json");
+        assert.strictEqual(res.status, 200);
+        assert.deepStrictEqual(res.data, {
+            videoID,
+            cid: "1",
+            duration: 100,
+            keep: [[5, 10], [20, 100]],
+            skip: [[0, 5], [10, 20]],
+            mute: [],
+            chapters: [{ segment: [30, 40], title: "Part <A>" }],
+            highlights: [50],
+        });
+    });
+
+    it("Should export WebVTT cues", async () => {
+        const res = await getExport("vtt");
+        assert.strictEqual(res.status, 200);
+        assert.ok(res.headers["content-type"].startsWith("text/vtt"));
+        assert.ok(res.data.startsWith("WEBVTT\n"));
+        assert.ok(res.data.includes("2\n00:00:10.000 --> 00:00:20.000\n赞助/恰饭\n"));
+        // points of interest are given a length of one second
+        assert.ok(res.data.includes("00:00:50.000 --> 00:00:51.000"));
+    });
+
+    it("Should export a chapter list", async () => {
+        const res = await getExport("chapters");
+        assert.strictEqual(res.status, 200);
+        assert.strictEqual(res.data, "00:00 开场/片头\n00:10 赞助/恰饭\n00:30 Part <A>\n00:50 精彩时刻\n");
+    });
+
+    it("Should export the kept parts as mpv EDL", async () => {
+        const res = await getExport("edl", { file: "video.mp4" });
+        assert.strictEqual(res.status, 200);
+        assert.strictEqual(res.data, "# mpv EDL v0\n%9%video.mp4,5,5\n%9%video.mp4,20,80\n");
+    });
+
+    it("Should export the kept parts as ffconcat with a quoted file name", async () => {
+        const res = await getExport("ffconcat", { file: "it's.mp4" });
+        assert.strictEqual(res.status, 200);
+        assert.strictEqual(res.data, "ffconcat version 1.0\nfile 'it'\\''s.mp4'\ninpoint 5\noutpoint 10\nfile 'it'\\''s.mp4'\ninpoint 20\noutpoint 100\n");
+    });
+
+    it("Should export danmaku XML", async () => {
+        const res = await getExport("danmaku");
+        assert.strictEqual(res.status, 200);
+        assert.ok(res.headers["content-type"].startsWith("application/xml"));
+        assert.ok(res.data.includes("<chatid>1</chatid>"));
+        assert.ok(res.data.includes("<maxlimit>4</maxlimit>"));
+        // sponsor segments use the configured colour, #00d400
+        assert.ok(/<d p="10,5,25,54272,\d+,0,0,2">【赞助\/恰饭】时长 00:10，跳至 00:20<\/d>/.test(res.data));
+        assert.ok(res.data.includes(">【章节】Part &lt;A&gt;</d>"));
+    });
+
+    it("Should reject an unknown format", async () => {
+        const res = await getExport("srt");
+        assert.strictEqual(res.status, 400);
+    });
+
+    it("Should require a cid for a multi part video", async () => {
+        const res = await client.get(endpoint, { params: { videoID: multiPartVideoID } });
+        assert.strictEqual(res.status, 400);
+        const partRes = await client.get(endpoint, { params: { videoID: multiPartVideoID, cid: "2" } });
+        assert.strictEqual(partRes.status, 200);
+        assert.deepStrictEqual(partRes.data.skip, [[10, 20]]);
+    });
+
+    it("Should return 404 for a video without segments", async () => {
+        const res = await client.get(endpoint, { params: { videoID: "export-no-segments" } });
+        assert.strictEqual(res.status, 404);
+    });
+});
@@ -0,0 +1,69 @@
+import assert from "assert";
+import { db } from "../../src/databases/databases";
+import { VideoIDHash } from "../../src/types/segments.model";
+import { getHash } from "../../src/utils/HashCacheUtil";
+import { client } from "../utils/httpClient";
+import { insertSegment } from "../utils/queryGen";
+
+interface PartResponse {
+    cid: string;
+    page: number;
+    part: string;
+    segments: { UUID: string; cid: string }[];
+}
+
+describe("getSkipSegmentsGroupByCid", () => {
+    const videoID = "BV1GroupCid1";
+    const hashPrefix = getHash(videoID, 1).substring(0, 4);
+    const endpoint = `/api/skipSegments/${hashPrefix}`;
+
+    const getVideo = async (params: Record<string, unknown>) => {
+        const res = await client.get(endpoint, { params });
+        assert.strictEqual(res.status, 200);
+        return res.data.find((v: { videoID: string }) => v.videoID === videoID);
+    };
+
+    before(async () => {
+        const insert = (cid: string, UUID: string, startTime: number, category = "sponsor") =>
+            insertSegment(db, { videoID, hashedVideoID: getHash(videoID, 1) as VideoIDHash, cid, UUID, category, startTime, endTime: startTime + 10, videoDuration: 600 });
+        await insert("11", "group-cid-first-1", 10);
+        await insert("11", "group-cid-first-2", 30);
+        await insert("12", "group-cid-second", 10);
+        await insert("13", "group-cid-unknown", 10, "intro");
+
+        const query = `INSERT INTO "videoInfo" ("videoID", "cid", "channelID", "title", "published", "part", "partTitile") VALUES (?, ?, ?, ?, ?, ?, ?)`;
+        await db.prepare("run", query, [videoID, "11", "group-cid-channel", "Group by cid", 0, 2, "Second part"]);
+        await db.prepare("run", query, [videoID, "12", "group-cid-channel", "Group by cid", 0, 1, "First part"]);
+    });
+
+    it("Should return the segments of a video in a flat list by default", async () => {
+        const video = await getVideo({});
+        assert.strictEqual(video.parts, undefined);
+        assert.strictEqual(video.segments.length, 4);
+    });
+
+    it("Should group the segments of a video by its parts", async () => {
+        const video = await getVideo({ groupByCid: "true" });
+        assert.strictEqual(video.segments, undefined);
+        const parts = video.parts as PartResponse[];
+        assert.deepStrictEqual(parts.map((p) => p.cid), ["13", "12", "11"]);
+        for (const part of parts) {
+            assert.ok(part.segments.every((s) => s.cid === part.cid));
+        }
+        assert.deepStrictEqual(parts[2].segments.map((s) => s.UUID).sort(), ["group-cid-first-1", "group-cid-first-2"]);
+    });
+
+    it("Should take the page and title of each part from the video info", async () => {
+        const parts = (await getVideo({ groupByCid: "true" })).parts as PartResponse[];
+        assert.deepStrictEqual(parts.map(({ cid, page, part }) => ({ cid, page, part })), [
+            { cid: "13", page: 0, part: "" },
+            { cid: "12", page: 1, part: "First part" },
+            { cid: "11", page: 2, part: "Second part" },
+        ]);
+    });
+
+    it("Should leave out the parts without segments in the requested categories", async () => {
+        const parts = (await getVideo({ groupByCid: "true", category: "sponsor" })).parts as PartResponse[];
+        assert.deepStrictEqual(parts.map((p) => p.cid), ["12", "11"]);
+    });
+});
@@ -0,0 +1,58 @@
+import assert from "assert";
+import { decode } from "@msgpack/msgpack";
+import { db } from "../../src/databases/databases";
+import { VideoIDHash } from "../../src/types/segments.model";
+import { getHash } from "../../src/utils/HashCacheUtil";
+import { client } from "../utils/httpClient";
+import { insertSegment } from "../utils/queryGen";
+
+describe("hashPrefixResponseFormat", () => {
+    const videoID = "response-format";
+    const hashPrefix = getHash(videoID, 1).substring(0, 4);
+    const endpoint = `/api/skipSegments/${hashPrefix}`;
+
+    const getSegments = (accept: string) => client.get(endpoint, { headers: { Accept: accept } });
+
+    before(async () => {
+        const defaults = { videoID, hashedVideoID: getHash(videoID, 1) as VideoIDHash, cid: "1", videoDuration: 100 };
+        await insertSegment(db, { ...defaults, UUID: "response-format-sponsor", startTime: 10, endTime: 20 });
+        await insertSegment(db, { ...defaults, UUID: "response-format-intro", startTime: 0, endTime: 5, category: "intro" });
+    });
+
+    it("Should return JSON by default", async () => {
+        const res = await client.get(endpoint);
+        assert.strictEqual(res.status, 200);
+        assert.ok(res.headers["content-type"].startsWith("application/json"));
+        const video = res.data.find((v: { videoID: string }) => v.videoID === videoID);
+        assert.strictEqual(video.segments.length, 2);
+    });
+
+    it("Should return one video per line as NDJSON", async () => {
+        const res = await client.get(endpoint, { headers: { Accept: "application/x-ndjson" }, responseType: "text" });
+        assert.strictEqual(res.status, 200);
+        assert.ok(res.headers["content-type"].startsWith("application/x-ndjson"));
+        assert.ok(res.headers["vary"].includes("Accept"));
+        const lines = (res.data as string).split("\n");
+        assert.strictEqual(lines.pop(), "");
+        const video = lines.map((line) => JSON.parse(line)).find((v) => v.videoID === videoID);
+        assert.strictEqual(video.segments.length, 2);
+    });
+
+    it("Should return MessagePack with a category and actionType dictionary", async () => {
+        const res = await client.get(endpoint, { headers: { Accept: "application/x-msgpack" }, responseType: "arraybuffer" });
+        assert.strictEqual(res.status, 200);
+        assert.ok(res.headers["content-type"].startsWith("application/x-msgpack"));
+        const data = decode(res.data) as { categories: string[]; actionTypes: string[]; videos: { videoID: string; segments: { category: number; actionType: number; UUID: string }[] }[] };
+        const video = data.videos.find((v) => v.videoID === videoID);
+        const sponsor = video.segments.find((s) => s.UUID === "response-format-sponsor");
+        assert.strictEqual(data.categories[sponsor.category], "sponsor");
+        assert.strictEqual(data.actionTypes[sponsor.actionType], "skip");
+        const intro = video.segments.find((s) => s.UUID === "response-format-intro");
+        assert.strictEqual(data.categories[intro.category], "intro");
+    });
+
+    it("Should accept the other MessagePack media types", async () => {
+        const res = await getSegments("application/vnd.msgpack");
+        assert.ok(res.headers["content-type"].startsWith("application/x-msgpack"));
+    });
+});
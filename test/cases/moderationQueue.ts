@@ -0,0 +1,103 @@
+import assert from "assert";
+import { db } from "../../src/databases/databases";
+import { ModerationStatus, PendingReason } from "../../src/types/moderation.model";
+import { Visibility } from "../../src/types/segments.model";
+import { client } from "../utils/httpClient";
+import { genUser } from "../utils/genUser";
+import { insertSegment, insertVip } from "../utils/queryGen";
+import { genRandomValue } from "../utils/getRandom";
+import { ImportMock, StaticMockManager } from "ts-mock-imports";
+import * as BilibiliAPIModule from "../../src/service/api/bilibiliApi";
+import { BilibiliApiMock } from "../mocks/bilibiliMock";
+
+describe("moderationQueue", () => {
+    const endpoint = "/api/moderationQueue";
+    const vipUser = genUser("moderationQueue", "vip");
+    const submitter = genUser("moderationQueue", "submitter");
+    const bannedUser = genUser("moderationQueue", "banned");
+    const videoID = genRandomValue("video", "moderationQueue");
+
+    const insertPending = async (UUID: string, userID = submitter.pubID) => {
+        await insertSegment(db, { videoID, UUID, userID, startTime: 1, endTime: 10, views: 10, shadowHidden: Visibility.PENDING, cid: "1" });
+        await db.prepare("run", `INSERT INTO "moderationQueue" ("UUID", "videoID", "userID", "reason", "status", "timeSubmitted") VALUES (?, ?, ?, ?, ?, ?)`,
+            [UUID, videoID, userID, PendingReason.NewUser, ModerationStatus.Pending, 0]);
+    };
+    const getShadowHidden = (UUID: string) => db.prepare("get", `SELECT "shadowHidden" FROM "sponsorTimes" WHERE "UUID" = ?`, [UUID])
+        .then((row) => row.shadowHidden);
+    const getStatus = (UUID: string) => db.prepare("get", `SELECT "status", "moderatorUserID" FROM "moderationQueue" WHERE "UUID" = ?`, [UUID]);
+
+    let mockManager: StaticMockManager<BilibiliAPIModule.BilibiliAPI>;
+
+    before(async () => {
+        mockManager = ImportMock.mockStaticClass(BilibiliAPIModule, "BilibiliAPI");
+        mockManager.mock("getVideoDetailView").callsFake(BilibiliApiMock.getVideoDetailView);
+        await insertVip(db, vipUser.pubID);
+        await insertPending("moderation-list");
+        await insertPending("moderation-approve");
+        await insertPending("moderation-reject");
+        await insertPending("moderation-vote");
+        await insertPending("moderation-banned-pending", bannedUser.pubID);
+        await insertSegment(db, { videoID, UUID: "moderation-banned-visible", userID: bannedUser.pubID, startTime: 20, endTime: 30 });
+    });
+
+    after(() => mockManager.restore());
+
+    it("Should list pending segments for VIPs", async () => {
+        const res = await client.get(endpoint, { params: { userID: vipUser.privID, videoID } });
+        assert.strictEqual(res.status, 200);
+        assert.ok(res.data.segments.some((s: { UUID: string }) => s.UUID === "moderation-list"));
+    });
+
+    it("Should not list pending segments for non VIPs", async () => {
+        const res = await client.get(endpoint, { params: { userID: submitter.privID } });
+        assert.strictEqual(res.status, 403);
+    });
+
+    it("Should make approved segments visible", async () => {
+        const res = await client.post(`${endpoint}/approve`, { userID: vipUser.privID, UUIDs: ["moderation-approve"] });
+        assert.strictEqual(res.status, 200);
+        assert.deepStrictEqual(res.data, [{ UUID: "moderation-approve", result: ModerationStatus.Approved }]);
+        assert.strictEqual(await getShadowHidden("moderation-approve"), Visibility.VISIBLE);
+    });
+
+    it("Should not moderate a segment twice", async () => {
+        const res = await client.post(`${endpoint}/reject`, { userID: vipUser.privID, UUIDs: ["moderation-approve"] });
+        assert.strictEqual(res.status, 200);
+        assert.deepStrictEqual(res.data, [{ UUID: "moderation-approve", result: "notPending" }]);
+    });
+
+    it("Should downvote rejected segments", async () => {
+        const res = await client.post(`${endpoint}/reject`, { userID: vipUser.privID, UUIDs: ["moderation-reject"] });
+        assert.strictEqual(res.status, 200);
+        const row = await db.prepare("get", `SELECT "votes" FROM "sponsorTimes" WHERE "UUID" = ?`, ["moderation-reject"]);
+        assert.strictEqual(row.votes, -2);
+    });
+
+    it("Should approve the queue entry of a segment upvoted by a VIP", async () => {
+        const res = await client.post("/api/voteOnSponsorTime", null, { params: { UUID: "moderation-vote", userID: vipUser.privID, type: 1 } });
+        assert.strictEqual(res.status, 200);
+        assert.strictEqual(await getShadowHidden("moderation-vote"), Visibility.VISIBLE);
+        const entry = await getStatus("moderation-vote");
+        assert.strictEqual(entry.status, ModerationStatus.Approved);
+        assert.strictEqual(entry.moderatorUserID, vipUser.pubID);
+    });
+
+    it("Should not count pending segments in the saved time of a user", async () => {
+        const res = await client.get("/api/getSavedTimeForUser", { params: { userID: submitter.privID } });
+        assert.strictEqual(res.status, 200);
+        // only the approved and the VIP upvoted segment
+        assert.strictEqual(res.data.timeSaved, 2 * (9 / 60) * 10);
+    });
+
+    it("Should keep pending segments pending when a user is unbanned", async () => {
+        const ban = await client.post("/api/shadowBanUser", null, { params: { userID: bannedUser.pubID, adminUserID: vipUser.privID } });
+        assert.strictEqual(ban.status, 200);
+        assert.strictEqual(await getShadowHidden("moderation-banned-pending"), Visibility.HIDDEN);
+        assert.strictEqual(await getShadowHidden("moderation-banned-visible"), Visibility.HIDDEN);
+
+        const unban = await client.post("/api/shadowBanUser", null, { params: { userID: bannedUser.pubID, adminUserID: vipUser.privID, enabled: false } });
+        assert.strictEqual(unban.status, 200);
+        assert.strictEqual(await getShadowHidden("moderation-banned-pending"), Visibility.PENDING);
+        assert.strictEqual(await getShadowHidden("moderation-banned-visible"), Visibility.VISIBLE);
+    });
+});
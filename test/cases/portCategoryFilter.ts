@@ -0,0 +1,119 @@
+import assert from "assert";
+import { db } from "../../src/databases/databases";
+import { createSegmentsFromYTB } from "../../src/dao/skipSegment";
+import { PortCategoryFilter, portVideoUUID } from "../../src/types/portVideo.model";
+import { ActionType, Category, HiddenType, Segment, SegmentUUID, VideoDuration, VideoID } from "../../src/types/segments.model";
+import { getHash } from "../../src/utils/HashCacheUtil";
+import { getPortCategoryFilter, isCategoryPorted, parseCategoryList } from "../../src/utils/portCategoryFilter";
+import { client } from "../utils/httpClient";
+import { genUser } from "../utils/genUser";
+import { insertSegment, insertVip } from "../utils/queryGen";
+
+const ytbSegment = (UUID: string, category: string): Segment => ({
+    cid: "",
+    category: category as Category,
+    actionType: ActionType.Skip,
+    segment: [10, 20],
+    UUID: UUID as SegmentUUID,
+    videoDuration: 600 as VideoDuration,
+    locked: false,
+    votes: 0,
+    description: "",
+});
+
+describe("portCategoryFilter", () => {
+    const endpoint = "/api/portVideo/categories";
+    const bvID = "BV1PortCats1";
+    const vipUser = genUser("portCategoryFilter", "vip");
+    const normalUser = genUser("portCategoryFilter", "normal");
+
+    const postCategories = (data: Record<string, unknown>, user = vipUser) =>
+        client.post(endpoint, { UUID: "port-categories", userID: user.privID, ...data });
+    const getHidden = async (UUID: string) => (await db.prepare("get", `SELECT "hidden" FROM "sponsorTimes" WHERE "UUID" = ?`, [UUID])).hidden;
+
+    before(async () => {
+        await insertVip(db, vipUser.pubID);
+        await db.prepare("run", `INSERT INTO "portVideo" ("bvID", "cid", "ytbID", "UUID", "biliDuration", "ytbDuration", "userID", "timeSubmitted",
+            "hashedBvID") VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [bvID, "1", "portCats001", "port-categories", 600, 600, "portCategoryFilter-user", 0, getHash(bvID, 1)]);
+        for (const [UUID, category, hidden] of [
+            ["port-categories-sponsor", "sponsor", HiddenType.Show],
+            ["port-categories-intro", "intro", HiddenType.Show],
+            ["port-categories-outro", "outro", HiddenType.CategoryHidden],
+            ["port-categories-mismatch", "selfpromo", HiddenType.MismatchHidden],
+        ] as const) {
+            await insertSegment(db, { UUID, videoID: bvID, cid: "1", category, hidden });
+            await db.prepare("run", `UPDATE "sponsorTimes" SET "portUUID" = ? WHERE "UUID" = ?`, ["port-categories", UUID]);
+        }
+    });
+
+    it("Should port every category without a filter", () => {
+        assert.ok(isCategoryPorted("sponsor"));
+        assert.ok(isCategoryPorted("sponsor", { includedCategories: [], excludedCategories: [] }));
+    });
+
+    it("Should only port the included categories, except the excluded ones", () => {
+        const filter: PortCategoryFilter = { includedCategories: ["sponsor", "intro"], excludedCategories: ["intro"] };
+        assert.ok(isCategoryPorted("sponsor", filter));
+        assert.ok(!isCategoryPorted("intro", filter));
+        assert.ok(!isCategoryPorted("outro", filter));
+        assert.ok(!isCategoryPorted("intro", { includedCategories: [], excludedCategories: ["intro"] }));
+    });
+
+    it("Should parse category lists from JSON and arrays", () => {
+        assert.deepStrictEqual(parseCategoryList('["sponsor","sponsor","intro"]'), ["sponsor", "intro"]);
+        assert.deepStrictEqual(parseCategoryList(["outro"]), ["outro"]);
+        assert.deepStrictEqual(parseCategoryList(undefined), []);
+        assert.strictEqual(parseCategoryList("not json"), undefined);
+        assert.strictEqual(parseCategoryList(["notACategory"]), undefined);
+        assert.deepStrictEqual(getPortCategoryFilter({ includedCategories: null, excludedCategories: '["intro"]' }), {
+            includedCategories: [],
+            excludedCategories: ["intro"],
+        });
+    });
+
+    it("Should only create segments in the ported categories", () => {
+        const segments = createSegmentsFromYTB(
+            [ytbSegment("sponsor", "sponsor"), ytbSegment("intro", "intro"), ytbSegment("outro", "outro")],
+            bvID as VideoID, "1", "portCats001" as VideoID, 0, 0, "", "port-categories" as portVideoUUID, 0, 600 as VideoDuration,
+            { includedCategories: [], excludedCategories: ["intro"] }
+        );
+        assert.deepStrictEqual(segments.map((s) => s.category), ["sponsor", "outro"]);
+    });
+
+    it("Should hide and show the ported segments on a filter update", async () => {
+        const res = await postCategories({ excludedCategories: ["intro"] });
+        assert.strictEqual(res.status, 200);
+        assert.deepStrictEqual(res.data, { includedCategories: [], excludedCategories: ["intro"] });
+
+        assert.strictEqual(await getHidden("port-categories-sponsor"), HiddenType.Show);
+        assert.strictEqual(await getHidden("port-categories-intro"), HiddenType.CategoryHidden);
+        assert.strictEqual(await getHidden("port-categories-outro"), HiddenType.Show);
+        // segments hidden for other reasons stay hidden
+        assert.strictEqual(await getHidden("port-categories-mismatch"), HiddenType.MismatchHidden);
+    });
+
+    it("Should save the filter with the port video", async () => {
+        const res = await postCategories({ includedCategories: '["sponsor"]' });
+        assert.strictEqual(res.status, 200);
+        const portVideo = await db.prepare("get", `SELECT "includedCategories", "excludedCategories" FROM "portVideo" WHERE "UUID" = ?`, ["port-categories"]);
+        assert.deepStrictEqual(getPortCategoryFilter(portVideo), { includedCategories: ["sponsor"], excludedCategories: [] });
+        assert.strictEqual(await getHidden("port-categories-intro"), HiddenType.CategoryHidden);
+        assert.strictEqual(await getHidden("port-categories-outro"), HiddenType.CategoryHidden);
+    });
+
+    it("Should only allow VIPs to update the filter", async () => {
+        const res = await postCategories({ excludedCategories: [] }, normalUser);
+        assert.strictEqual(res.status, 403);
+    });
+
+    it("Should reject invalid categories", async () => {
+        const res = await postCategories({ excludedCategories: ["notACategory"] });
+        assert.strictEqual(res.status, 400);
+    });
+
+    it("Should return 404 for an unknown port video", async () => {
+        const res = await client.post(endpoint, { UUID: "port-categories-unknown", userID: vipUser.privID });
+        assert.strictEqual(res.status, 404);
+    });
+});
@@ -0,0 +1,140 @@
+import assert from "assert";
+import { db } from "../../src/databases/databases";
+import { resolvePortVideoConflictByCid, sortByConflictPolicy } from "../../src/service/portConflictService";
+import { PortConflictCandidate, PortConflictReason, PortConflictSource } from "../../src/types/portVideo.model";
+import { VideoID } from "../../src/types/segments.model";
+import { getHash } from "../../src/utils/HashCacheUtil";
+import { client } from "../utils/httpClient";
+import { genUser } from "../utils/genUser";
+import { insertVip } from "../utils/queryGen";
+import { ImportMock, StaticMockManager } from "ts-mock-imports";
+import * as BilibiliAPIModule from "../../src/service/api/bilibiliApi";
+import { BilibiliApiMock } from "../mocks/bilibiliMock";
+
+interface PortVideoParams {
+    bvID: string,
+    ytbID: string,
+    UUID: string,
+    votes?: number,
+    locked?: number,
+    timeSubmitted?: number,
+    lastSyncTime?: number,
+    syncFailCount?: number,
+}
+
+const insertPortVideo = async ({ bvID, ytbID, UUID, votes = 0, locked = 0, timeSubmitted = 0, lastSyncTime = 0, syncFailCount = 0 }: PortVideoParams) => {
+    const query = `INSERT INTO "portVideo" ("bvID", "cid", "ytbID", "UUID", "biliDuration", "ytbDuration", "votes", "locked", "userID", "timeSubmitted",
+        "hashedBvID", "hashedYtbID", "lastSyncTime", "syncFailCount") VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+    await db.prepare("run", query, [bvID, "1", ytbID, UUID, 600, 600, votes, locked, "portVideoConflict-user", timeSubmitted,
+        getHash(bvID, 1), getHash(ytbID, 1), lastSyncTime, syncFailCount]);
+};
+
+const candidate = (UUID: string, overrides: Partial<PortConflictCandidate> = {}): PortConflictCandidate => ({
+    bvID: "BV1Conflct00" as VideoID,
+    cid: "1",
+    ytbID: "conflictYtb" as VideoID,
+    UUID,
+    votes: 0,
+    locked: false,
+    timeOffset: 0,
+    trimEnd: 0,
+    timeSubmitted: 0,
+    lastSyncTime: 0,
+    syncFailCount: 0,
+    ...overrides,
+});
+
+describe("portVideoConflict", () => {
+    const vipUser = genUser("portVideoConflict", "vip");
+    let mockManager: StaticMockManager<BilibiliAPIModule.BilibiliAPI>;
+
+    before(async () => {
+        mockManager = ImportMock.mockStaticClass(BilibiliAPIModule, "BilibiliAPI");
+        mockManager.mock("getVideoDetailView").callsFake(BilibiliApiMock.getVideoDetailView);
+        await insertVip(db, vipUser.pubID);
+        await insertPortVideo({ bvID: "BV1Conflct01", ytbID: "conflict001", UUID: "conflict-recency-old", timeSubmitted: 1000 });
+        await insertPortVideo({ bvID: "BV1Conflct01", ytbID: "conflict002", UUID: "conflict-recency-new", timeSubmitted: 2000 });
+        await insertPortVideo({ bvID: "BV1Conflct02", ytbID: "conflict003", UUID: "conflict-unverified", timeSubmitted: 1000, lastSyncTime: 1000, syncFailCount: 2 });
+        await insertPortVideo({ bvID: "BV1Conflct02", ytbID: "conflict004", UUID: "conflict-verified", timeSubmitted: 1000, lastSyncTime: 1000 });
+        await insertPortVideo({ bvID: "BV1Conflct03", ytbID: "conflict005", UUID: "conflict-same-ytb-old", timeSubmitted: 1000 });
+        await insertPortVideo({ bvID: "BV1Conflct04", ytbID: "conflict005", UUID: "conflict-same-ytb-new", timeSubmitted: 2000 });
+        await insertPortVideo({ bvID: "BV1Conflct05", ytbID: "conflict006", UUID: "conflict-resolve-loser", votes: 1 });
+        await insertPortVideo({ bvID: "BV1Conflct05", ytbID: "conflict007", UUID: "conflict-resolve-winner", votes: 1, locked: 1 });
+        await insertPortVideo({ bvID: "BV1Conflct06", ytbID: "conflict008", UUID: "conflict-vote-loser", timeSubmitted: 2000 });
+        await insertPortVideo({ bvID: "BV1Conflct06", ytbID: "conflict009", UUID: "conflict-vote-winner", timeSubmitted: 1000 });
+    });
+
+    after(() => mockManager.restore());
+
+    it("Should sort locked records first", () => {
+        const sorted = sortByConflictPolicy([candidate("votes", { votes: 10 }), candidate("locked", { locked: true })]);
+        assert.strictEqual(sorted[0].UUID, "locked");
+    });
+
+    it("Should sort by votes, then by recency, then by verified durations", () => {
+        const sorted = sortByConflictPolicy([
+            candidate("unverified", { timeSubmitted: 1000, lastSyncTime: 1000, syncFailCount: 1 }),
+            candidate("verified", { timeSubmitted: 1000, lastSyncTime: 1000 }),
+            candidate("recent", { timeSubmitted: 2000 }),
+            candidate("votes", { votes: 1 }),
+        ]);
+        assert.deepStrictEqual(sorted.map((p) => p.UUID), ["votes", "recent", "verified", "unverified"]);
+    });
+
+    it("Should return the most recent record of a part by hash prefix", async () => {
+        const res = await client.get(`/api/portVideo/${getHash("BV1Conflct01", 1).substring(0, 4)}`);
+        assert.strictEqual(res.status, 200);
+        const portVideo = res.data.find((p: { bvID: string }) => p.bvID === "BV1Conflct01");
+        assert.strictEqual(portVideo.UUID, "conflict-recency-new");
+    });
+
+    it("Should not hide records when reading", async () => {
+        const records = await db.prepare("all", `SELECT "hidden" FROM "portVideo" WHERE "bvID" = ?`, ["BV1Conflct01"]);
+        assert.deepStrictEqual(records.map((p: { hidden: number }) => p.hidden), [0, 0]);
+    });
+
+    it("Should return the verified record of a part by hash prefix", async () => {
+        const res = await client.get(`/api/portVideo/${getHash("BV1Conflct02", 1).substring(0, 4)}`);
+        assert.strictEqual(res.status, 200);
+        const portVideo = res.data.find((p: { bvID: string }) => p.bvID === "BV1Conflct02");
+        assert.strictEqual(portVideo.UUID, "conflict-verified");
+    });
+
+    it("Should return one record for each part by YouTube ID", async () => {
+        const res = await client.get("/api/portVideo/youtube/conflict005");
+        assert.strictEqual(res.status, 200);
+        assert.deepStrictEqual(res.data.map((p: { UUID: string }) => p.UUID).sort(), ["conflict-same-ytb-new", "conflict-same-ytb-old"]);
+    });
+
+    it("Should hide the losing records and record the decision", async () => {
+        await resolvePortVideoConflictByCid("BV1Conflct05" as VideoID, "1", PortConflictSource.Repair);
+        const loser = await db.prepare("get", `SELECT "hidden" FROM "portVideo" WHERE "UUID" = ?`, ["conflict-resolve-loser"]);
+        const winner = await db.prepare("get", `SELECT "hidden" FROM "portVideo" WHERE "UUID" = ?`, ["conflict-resolve-winner"]);
+        assert.notStrictEqual(loser.hidden, 0);
+        assert.strictEqual(winner.hidden, 0);
+
+        const res = await client.get("/api/portVideo/conflicts", { params: { videoID: "BV1Conflct05", userID: vipUser.privID } });
+        assert.strictEqual(res.status, 200);
+        assert.strictEqual(res.data.length, 1);
+        assert.strictEqual(res.data[0].winnerUUID, "conflict-resolve-winner");
+        assert.strictEqual(res.data[0].loserUUID, "conflict-resolve-loser");
+        assert.strictEqual(res.data[0].reason, PortConflictReason.Locked);
+    });
+
+    it("Should resolve the conflicts of a part after a vote", async () => {
+        const voteRes = await client.post("/api/votePort", { UUID: "conflict-vote-winner", bvID: "BV1Conflct06", userID: "portVideoConflict-voter", type: 1 });
+        assert.strictEqual(voteRes.status, 200);
+        const loser = await db.prepare("get", `SELECT "hidden" FROM "portVideo" WHERE "UUID" = ?`, ["conflict-vote-loser"]);
+        assert.notStrictEqual(loser.hidden, 0);
+
+        const res = await client.get("/api/portVideo/conflicts", { params: { videoID: "BV1Conflct06", userID: vipUser.privID } });
+        assert.strictEqual(res.data[0].winnerUUID, "conflict-vote-winner");
+        assert.strictEqual(res.data[0].reason, PortConflictReason.Votes);
+        assert.strictEqual(res.data[0].source, PortConflictSource.Vote);
+    });
+
+    it("Should not show conflicts to non VIPs", async () => {
+        const res = await client.get("/api/portVideo/conflicts", { params: { videoID: "BV1Conflct05", userID: "portVideoConflict-user" } });
+        assert.strictEqual(res.status, 403);
+    });
+});
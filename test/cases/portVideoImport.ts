@@ -0,0 +1,125 @@
+import assert from "assert";
+import { db, privateDB } from "../../src/databases/databases";
+import { formatPortImportReport, parsePortImportData } from "../../src/service/portVideoImportService";
+import { PortImportJob, PortSubmitResult } from "../../src/types/portVideo.model";
+import { HashedUserID } from "../../src/types/user.model";
+import { VideoID } from "../../src/types/segments.model";
+import { getHash } from "../../src/utils/HashCacheUtil";
+import { client } from "../utils/httpClient";
+import { genUser } from "../utils/genUser";
+import { insertVip } from "../utils/queryGen";
+import { ImportMock, StaticMockManager } from "ts-mock-imports";
+import * as BilibiliAPIModule from "../../src/service/api/bilibiliApi";
+import * as YouTubeAPIModule from "../../src/service/api/youtubeApi";
+import { BilibiliApiMock } from "../mocks/bilibiliMock";
+
+describe("portVideoImport", () => {
+    const endpoint = "/api/portVideo/import";
+    const vipUser = genUser("portVideoImport", "vip");
+    const normalUser = genUser("portVideoImport", "normal");
+    const interruptedTime = Date.now() - 60 * 60 * 1000;
+
+    const getJob = (jobID: string, params: Record<string, string> = {}) =>
+        client.get(`${endpoint}/${jobID}`, { params: { userID: vipUser.privID, ...params } });
+    const waitForJob = async (jobID: string) => {
+        for (let i = 0; i < 40; i++) {
+            const res = await getJob(jobID);
+            if (!res.data.running) return res;
+            await new Promise((resolve) => setTimeout(resolve, 100));
+        }
+        assert.fail("the import job did not finish");
+    };
+
+    let bilibiliMockManager: StaticMockManager<BilibiliAPIModule.BilibiliAPI>;
+    let youtubeMockManager: StaticMockManager<YouTubeAPIModule.YouTubeAPI>;
+
+    before(async () => {
+        bilibiliMockManager = ImportMock.mockStaticClass(BilibiliAPIModule, "BilibiliAPI");
+        bilibiliMockManager.mock("getVideoDetailView").callsFake(BilibiliApiMock.getVideoDetailView);
+        youtubeMockManager = ImportMock.mockStaticClass(YouTubeAPIModule, "YouTubeAPI");
+        youtubeMockManager.mock("getYoutubeVideoDuraion", 600);
+
+        await insertVip(db, vipUser.pubID);
+        await db.prepare("run", `INSERT INTO "portVideo" ("bvID", "cid", "ytbID", "UUID", "biliDuration", "ytbDuration", "userID", "timeSubmitted",
+            "hashedBvID") VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        ["BV1PortImp01", "1", "portImp0001", "port-import-existing", 600, 600, "portVideoImport-user", 0, getHash("BV1PortImp01", 1)]);
+        await db.prepare("run", `INSERT INTO "portVideoImportJobs" ("id", "userID", "running", "startTime", "updateTime", "total", "processed", "rows")
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)`, ["port-import-interrupted", vipUser.pubID, 1, interruptedTime - 1000, interruptedTime, 2, 1, "[]"]);
+    });
+
+    after(() => {
+        bilibiliMockManager.restore();
+        youtubeMockManager.restore();
+    });
+
+    it("Should parse CSV and JSON lines", () => {
+        const { rows, invalidRows } = parsePortImportData(`bvID,cid,ytbID
+BV1PortImp01,1,portImp0001
+{"bvID":"BV1PortImp02","ytbID":"portImp0002"}
+not a binding`);
+        assert.deepStrictEqual(rows, [
+            { line: 2, bvID: "BV1PortImp01", cid: "1", ytbID: "portImp0001" },
+            { line: 3, bvID: "BV1PortImp02", cid: "", ytbID: "portImp0002" },
+        ]);
+        assert.deepStrictEqual(invalidRows.map((r) => r.line), [4]);
+    });
+
+    it("Should escape formulas in the CSV report", () => {
+        const job: PortImportJob = {
+            id: "csv",
+            userID: "" as HashedUserID,
+            running: false,
+            startTime: 0,
+            endTime: 0,
+            total: 1,
+            processed: 1,
+            rows: [{ line: 1, bvID: "=1+1" as VideoID, cid: "", ytbID: "@SUM(A1)" as VideoID, result: PortSubmitResult.Invalid, message: "-1,\"x\"" }],
+        };
+        assert.strictEqual(formatPortImportReport(job).split("\n")[1], `1,'=1+1,,'@SUM(A1),invalid,,"'-1,""x"""`);
+    });
+
+    it("Should not start an import for non VIPs", async () => {
+        const res = await client.post(endpoint, { userID: normalUser.privID, data: "BV1PortImp01,1,portImp0001" });
+        assert.strictEqual(res.status, 403);
+    });
+
+    it("Should report an existing binding without voting for it", async () => {
+        const res = await client.post(endpoint, { userID: vipUser.privID, data: "BV1PortImp01,1,portImp0001" });
+        assert.strictEqual(res.status, 202);
+        assert.strictEqual(res.data.total, 1);
+
+        const jobRes = await waitForJob(res.data.jobID);
+        assert.strictEqual(jobRes.data.processed, 1);
+        assert.strictEqual(jobRes.data.rows[0].result, PortSubmitResult.Duplicate);
+        assert.strictEqual(jobRes.data.rows[0].UUID, "port-import-existing");
+
+        const votes = await privateDB.prepare("all", `SELECT * FROM "portVideoVotes" WHERE "UUID" = ?`, ["port-import-existing"]);
+        assert.strictEqual(votes.length, 0);
+        const portVideo = await db.prepare("get", `SELECT "votes" FROM "portVideo" WHERE "UUID" = ?`, ["port-import-existing"]);
+        assert.strictEqual(portVideo.votes, 0);
+    }).timeout(5000);
+
+    it("Should get the report of a job as CSV", async () => {
+        const res = await client.post(endpoint, { userID: vipUser.privID, data: "not a binding" });
+        assert.strictEqual(res.status, 202);
+        await waitForJob(res.data.jobID);
+
+        const csvRes = await getJob(res.data.jobID, { format: "csv" });
+        assert.strictEqual(csvRes.status, 200);
+        assert.ok(csvRes.headers["content-type"].startsWith("text/csv"));
+        assert.strictEqual(csvRes.data.split("\n")[0], "line,bvID,cid,ytbID,result,UUID,message");
+    }).timeout(5000);
+
+    it("Should report a job stopped by a restart as finished", async () => {
+        const res = await getJob("port-import-interrupted");
+        assert.strictEqual(res.status, 200);
+        assert.strictEqual(res.data.running, false);
+        assert.strictEqual(res.data.endTime, interruptedTime);
+        assert.strictEqual(res.data.processed, 1);
+    });
+
+    it("Should return 404 for an unknown job", async () => {
+        const res = await getJob("port-import-unknown");
+        assert.strictEqual(res.status, 404);
+    });
+});
@@ -0,0 +1,117 @@
+import assert from "assert";
+import { db } from "../../src/databases/databases";
+import { getPortVideoToSync } from "../../src/dao/portVideo";
+import { updateSegmentsFromSB } from "../../src/routes/getPortVideo";
+import { PortSyncResult, PortVideoDB } from "../../src/types/portVideo.model";
+import { ActionType, Category, HiddenType, Segment, SegmentUUID, VideoDuration } from "../../src/types/segments.model";
+import { getHash } from "../../src/utils/HashCacheUtil";
+import { insertSegment } from "../utils/queryGen";
+import { ImportMock, StaticMockManager } from "ts-mock-imports";
+import * as BilibiliAPIModule from "../../src/service/api/bilibiliApi";
+import * as SponsorBlockAPIModule from "../../src/service/api/sponsorBlockApi";
+import { BilibiliApiMock } from "../mocks/bilibiliMock";
+
+const HOUR_IN_MS = 1000 * 60 * 60;
+
+describe("portVideoSync", () => {
+    const now = Date.now();
+    const syncedBefore = now - 24 * HOUR_IN_MS;
+
+    const insertPortVideo = (UUID: string, lastSyncTime: number, syncFailCount = 0, hidden = 0, votes = 0, timeSubmitted = 0) =>
+        db.prepare("run", `INSERT INTO "portVideo" ("bvID", "cid", "ytbID", "UUID", "biliDuration", "ytbDuration", "hidden", "votes", "userID",
+            "timeSubmitted", "hashedBvID", "lastSyncTime", "syncFailCount") VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        ["BV1PortSync01", "1", "portSync001", UUID, 600, 600, hidden, votes, "portVideoSync-user", timeSubmitted, getHash("BV1PortSync01", 1),
+            lastSyncTime, syncFailCount]);
+    const getOrder = (portVideos: { UUID: string }[]) => portVideos.map((p) => p.UUID).filter((UUID) => UUID.startsWith("port-sync-"));
+
+    before(async () => {
+        const stale = now - 48 * HOUR_IN_MS;
+        await insertPortVideo("port-sync-viewed", stale);
+        await insertPortVideo("port-sync-stale", now - 72 * HOUR_IN_MS);
+        await insertPortVideo("port-sync-plain", stale);
+        await insertPortVideo("port-sync-failing", stale, 3);
+        await insertPortVideo("port-sync-recent", now - HOUR_IN_MS);
+        await insertPortVideo("port-sync-hidden", stale, 0, 1);
+        await insertPortVideo("port-sync-downvoted", stale, 0, 0, -2);
+        // never synced, waiting since its submission
+        await insertPortVideo("port-sync-new", 0, 0, 0, 0, now - 96 * HOUR_IN_MS);
+        await insertSegment(db, { UUID: "port-sync-segment", videoID: "BV1PortSync01", views: 100000 });
+        await db.prepare("run", `UPDATE "sponsorTimes" SET "portUUID" = ? WHERE "UUID" = ?`, ["port-sync-viewed", "port-sync-segment"]);
+    });
+
+    it("Should order records by views, time since the last sync and failures", async () => {
+        const portVideos = await getPortVideoToSync(syncedBefore, now, 1000);
+        assert.deepStrictEqual(getOrder(portVideos), ["port-sync-viewed", "port-sync-new", "port-sync-stale", "port-sync-plain", "port-sync-failing"]);
+        assert.strictEqual(portVideos.find((p) => p.UUID === "port-sync-viewed").views, 100000);
+        assert.strictEqual(portVideos.find((p) => p.UUID === "port-sync-plain").views, 0);
+    });
+
+    it("Should limit the number of records to the ones with the highest priority", async () => {
+        // other tests add records as well, compare with the full list
+        const allPortVideos = await getPortVideoToSync(syncedBefore, now, 1000);
+        const portVideos = await getPortVideoToSync(syncedBefore, now, 2);
+        assert.deepStrictEqual(portVideos.map((p) => p.UUID), allPortVideos.slice(0, 2).map((p) => p.UUID));
+    });
+
+    it("Should count the views of each ported segment once", async () => {
+        await insertSegment(db, { UUID: "port-sync-segment-2", videoID: "BV1PortSync01", views: 10 });
+        await db.prepare("run", `UPDATE "sponsorTimes" SET "portUUID" = ? WHERE "UUID" = ?`, ["port-sync-viewed", "port-sync-segment-2"]);
+        const portVideos = await getPortVideoToSync(syncedBefore, now, 1000);
+        assert.strictEqual(portVideos.find((p) => p.UUID === "port-sync-viewed").views, 100010);
+    });
+});
+
+describe("portVideoSync - alignment", () => {
+    const bvID = "BV1PortSync02";
+    const ytbSegment = (UUID: string, times: number[]): Segment => ({
+        cid: "",
+        category: "sponsor" as Category,
+        actionType: ActionType.Skip,
+        segment: times,
+        UUID: UUID as SegmentUUID,
+        videoDuration: 610 as VideoDuration,
+        locked: false,
+        votes: 0,
+        description: "",
+    });
+    const insertPortedSegment = async (UUID: string, startTime: number, endTime: number) => {
+        await insertSegment(db, { UUID, videoID: bvID, cid: "1", startTime, endTime });
+        await db.prepare("run", `UPDATE "sponsorTimes" SET "portUUID" = ?, "ytbSegmentUUID" = ? WHERE "UUID" = ?`, ["port-align", `ytb-${UUID}`, UUID]);
+    };
+    const getSegment = (UUID: string) => db.prepare("get", `SELECT "startTime", "endTime", "hidden" FROM "sponsorTimes" WHERE "UUID" = ?`, [UUID]);
+
+    let bilibiliMockManager: StaticMockManager<BilibiliAPIModule.BilibiliAPI>;
+    let segmentsMockManager: ReturnType<typeof ImportMock.mockFunction>;
+
+    before(async () => {
+        bilibiliMockManager = ImportMock.mockStaticClass(BilibiliAPIModule, "BilibiliAPI");
+        bilibiliMockManager.mock("getVideoDetailView").callsFake(BilibiliApiMock.getVideoDetailView);
+        segmentsMockManager = ImportMock.mockFunction(SponsorBlockAPIModule, "getYoutubeSegments", Promise.resolve([
+            ytbSegment("ytb-align-old", [20, 40]),
+            ytbSegment("ytb-align-outside", [0, 5]),
+            ytbSegment("ytb-align-kept", [110, 120]),
+        ]));
+
+        // the Bilibili video cuts the first 10 seconds of the YouTube video
+        await db.prepare("run", `INSERT INTO "portVideo" ("bvID", "cid", "ytbID", "UUID", "biliDuration", "ytbDuration", "timeOffset", "userID",
+            "timeSubmitted", "hashedBvID") VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [bvID, "1", "portSync002", "port-align", 600, 610, -10, "portVideoSync-user", 0, getHash(bvID, 1)]);
+        await insertPortedSegment("align-old", 20, 40);
+        await insertPortedSegment("align-outside", 0, 5);
+        await insertPortedSegment("align-kept", 100, 110);
+    });
+
+    after(() => {
+        bilibiliMockManager.restore();
+        segmentsMockManager.restore();
+    });
+
+    it("Should align the segments ported with other times again", async () => {
+        const portVideo: PortVideoDB = await db.prepare("get", `SELECT * FROM "portVideo" WHERE "UUID" = ?`, ["port-align"]);
+        assert.strictEqual(await updateSegmentsFromSB(portVideo), PortSyncResult.Updated);
+
+        assert.deepStrictEqual(await getSegment("align-old"), { startTime: 10, endTime: 30, hidden: HiddenType.Show });
+        assert.deepStrictEqual(await getSegment("align-kept"), { startTime: 100, endTime: 110, hidden: HiddenType.Show });
+        assert.notStrictEqual((await getSegment("align-outside")).hidden, HiddenType.Show);
+    });
+});
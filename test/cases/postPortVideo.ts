@@ -0,0 +1,112 @@
+import assert from "assert";
+import { db } from "../../src/databases/databases";
+import { submitPortVideo } from "../../src/routes/postPortVideo";
+import { HiddenType, IPAddress, VideoID } from "../../src/types/segments.model";
+import { UserID } from "../../src/types/user.model";
+import { getHash } from "../../src/utils/HashCacheUtil";
+import { client } from "../utils/httpClient";
+import { genUser } from "../utils/genUser";
+import { ImportMock, StaticMockManager } from "ts-mock-imports";
+import * as BilibiliAPIModule from "../../src/service/api/bilibiliApi";
+import * as YouTubeAPIModule from "../../src/service/api/youtubeApi";
+import { BilibiliApiMock } from "../mocks/bilibiliMock";
+
+describe("postPortVideo", () => {
+    const endpoint = "/api/portVideo";
+    const submitter = genUser("postPortVideo", "submitter");
+
+    const getPortVideos = (bvID: string) =>
+        db.prepare("all", `SELECT "UUID", "ytbID", "biliDuration", "hidden" FROM "portVideo" WHERE "bvID" = ?`, [bvID]);
+
+    let bilibiliMockManager: StaticMockManager<BilibiliAPIModule.BilibiliAPI>;
+    let youtubeMockManager: StaticMockManager<YouTubeAPIModule.YouTubeAPI>;
+
+    before(async () => {
+        bilibiliMockManager = ImportMock.mockStaticClass(BilibiliAPIModule, "BilibiliAPI");
+        bilibiliMockManager.mock("getVideoDetailView").callsFake(BilibiliApiMock.getVideoDetailView);
+        youtubeMockManager = ImportMock.mockStaticClass(YouTubeAPIModule, "YouTubeAPI");
+        // every YouTube video is as long as the Bilibili videos of the mock
+        youtubeMockManager.mock("getYoutubeVideoDuraion", 600);
+
+        await db.prepare("run", `INSERT INTO "portVideo" ("bvID", "cid", "ytbID", "UUID", "biliDuration", "ytbDuration", "userID", "timeSubmitted",
+            "hashedBvID") VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        ["BV1PostPort3", "1", "postPort003", "post-port-outdated", 600, 500, "postPortVideo-user", 0, getHash("BV1PostPort3", 1)]);
+    });
+
+    after(() => {
+        bilibiliMockManager.restore();
+        youtubeMockManager.restore();
+    });
+
+    it("Should reject a submitted duration that does not match the part", async () => {
+        const res = await client.post(endpoint, { bvID: "BV1PostPort1", ytbID: "postPort001", userID: submitter.privID, biliDuration: 300 });
+        assert.strictEqual(res.status, 400);
+        assert.deepStrictEqual(await getPortVideos("BV1PostPort1"), []);
+    });
+
+    it("Should ask to reload the video for a request without a duration", async () => {
+        const res = await client.post(endpoint, { bvID: "BV1PostPort1", ytbID: "postPort001", userID: submitter.privID });
+        assert.strictEqual(res.status, 400);
+        assert.ok(res.data.startsWith("无法获取B站视频信息"));
+        assert.deepStrictEqual(await getPortVideos("BV1PostPort1"), []);
+    });
+
+    it("Should bind a video with a matching duration", async () => {
+        const res = await client.post(endpoint, { bvID: "BV1PostPort1", ytbID: "postPort001", userID: submitter.privID, biliDuration: 600 });
+        assert.strictEqual(res.status, 200);
+        assert.strictEqual(res.data.ytbID, "postPort001");
+        const [portVideo] = await getPortVideos("BV1PostPort1");
+        assert.strictEqual(portVideo.biliDuration, 600);
+    });
+
+    it("Should bind a video with an offset and trim that match the durations", async () => {
+        const res = await client.post(endpoint, { bvID: "BV1PostPort4", ytbID: "postPort005", userID: submitter.privID, biliDuration: 600,
+            timeOffset: 10, trimEnd: -10 });
+        assert.strictEqual(res.status, 200);
+        assert.strictEqual(res.data.timeOffset, 10);
+        assert.strictEqual(res.data.trimEnd, -10);
+    });
+
+    it("Should reject an offset that does not match the durations", async () => {
+        const res = await client.post(endpoint, { bvID: "BV1PostPort5", ytbID: "postPort006", userID: submitter.privID, biliDuration: 600,
+            timeOffset: 30 });
+        assert.strictEqual(res.status, 400);
+        assert.deepStrictEqual(await getPortVideos("BV1PostPort5"), []);
+    });
+
+    it("Should reject an offset or trim as long as the video", async () => {
+        const offsetRes = await client.post(endpoint, { bvID: "BV1PostPort5", ytbID: "postPort006", userID: submitter.privID, biliDuration: 600,
+            timeOffset: -600 });
+        assert.strictEqual(offsetRes.status, 400);
+        const trimRes = await client.post(endpoint, { bvID: "BV1PostPort5", ytbID: "postPort006", userID: submitter.privID, biliDuration: 600,
+            trimEnd: 600 });
+        assert.strictEqual(trimRes.status, 400);
+    });
+
+    it("Should use the duration of the Bilibili API for submissions without one", async () => {
+        const submission = await submitPortVideo({
+            bvID: "BV1PostPort2" as VideoID,
+            cid: "",
+            ytbID: "postPort002" as VideoID,
+            paramUserID: submitter.privID as UserID,
+            timeOffset: 0,
+            trimEnd: 0,
+            upvoteDuplicate: false,
+            rawIP: "127.0.0.1" as IPAddress,
+            userAgent: "",
+        });
+        assert.strictEqual(submission.status, 200);
+        const [portVideo] = await getPortVideos("BV1PostPort2");
+        assert.strictEqual(portVideo.biliDuration, 600);
+    });
+
+    it("Should hide an outdated match without the submitter as the user", async () => {
+        const res = await client.post(endpoint, { bvID: "BV1PostPort3", ytbID: "postPort004", userID: submitter.privID, biliDuration: 600 });
+        assert.strictEqual(res.status, 200);
+
+        const portVideos = await getPortVideos("BV1PostPort3");
+        assert.strictEqual(portVideos.find((p: { UUID: string }) => p.UUID === "post-port-outdated").hidden, HiddenType.Hidden);
+        const history = await db.prepare("get", `SELECT "userID" FROM "portVideoHistory" WHERE "UUID" = ?`, ["post-port-outdated"]);
+        assert.strictEqual(history.userID, null);
+    });
+});
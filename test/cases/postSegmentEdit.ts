@@ -0,0 +1,127 @@
+import assert from "assert";
+import { ImportMock, StaticMockManager } from "ts-mock-imports";
+import { config } from "../../src/config";
+import { db } from "../../src/databases/databases";
+import * as BilibiliAPIModule from "../../src/service/api/bilibiliApi";
+import { ModerationStatus } from "../../src/types/moderation.model";
+import { Visibility } from "../../src/types/segments.model";
+import { BilibiliApiMock, seasonID, seasonVideoIDs } from "../mocks/bilibiliMock";
+import { client } from "../utils/httpClient";
+import { genUser } from "../utils/genUser";
+import { genRandomValue } from "../utils/getRandom";
+import { insertLock, insertSegment, insertVip } from "../utils/queryGen";
+
+describe("postSegmentEdit", () => {
+    const endpoint = "/api/segmentEdit";
+    const submitter = genUser("postSegmentEdit", "submitter");
+    const otherUser = genUser("postSegmentEdit", "other");
+    const vipUser = genUser("postSegmentEdit", "vip");
+    const videoID = genRandomValue("video", "postSegmentEdit");
+    let mockManager: StaticMockManager<BilibiliAPIModule.BilibiliAPI>;
+
+    const postEdit = (UUID: string, data: Record<string, unknown>, user = submitter) => client({
+        method: "POST",
+        url: endpoint,
+        data: { UUID, userID: user.privID, ...data }
+    });
+    const getSegment = (UUID: string) => db.prepare("get", `SELECT "startTime", "endTime", "category", "shadowHidden" FROM "sponsorTimes" WHERE "UUID" = ?`, [UUID]);
+
+    before(async () => {
+        mockManager = ImportMock.mockStaticClass(BilibiliAPIModule, "BilibiliAPI");
+        mockManager.mock("getVideoDetailView").callsFake(BilibiliApiMock.getVideoDetailView);
+        await insertVip(db, vipUser.pubID);
+
+        const defaults = { videoID, cid: "1", userID: submitter.pubID, videoDuration: 600 };
+        await insertSegment(db, { ...defaults, UUID: "edit-times", startTime: 10, endTime: 20 });
+        await insertSegment(db, { ...defaults, UUID: "edit-short", startTime: 30, endTime: 40 });
+        await insertSegment(db, { ...defaults, UUID: "edit-short-vip", startTime: 50, endTime: 60 });
+        await insertSegment(db, { ...defaults, UUID: "edit-poi", startTime: 100, endTime: 100, category: "poi_highlight", actionType: "poi" });
+        await insertSegment(db, { ...defaults, UUID: "edit-duplicate", startTime: 110, endTime: 120 });
+        await insertSegment(db, { ...defaults, UUID: "edit-duplicate-target", startTime: 130, endTime: 140, userID: otherUser.pubID });
+        await insertSegment(db, { ...defaults, UUID: "edit-locked", startTime: 150, endTime: 160 });
+        await insertSegment(db, { ...defaults, UUID: "edit-coverage", startTime: 170, endTime: 180 });
+        await insertSegment(db, { ...defaults, UUID: "edit-queue", startTime: 190, endTime: 200 });
+        await insertSegment(db, { ...defaults, videoID: seasonVideoIDs[0], UUID: "edit-season-locked", startTime: 10, endTime: 20 });
+
+        await insertLock(db, { videoID, category: "selfpromo" });
+        await db.prepare("run", `INSERT INTO "seasonLockCategories" ("seasonID", "userID", "actionType", "category", "reason", "timeSubmitted") VALUES (?, ?, ?, ?, ?, ?)`,
+            [seasonID, vipUser.pubID, "skip", "selfpromo", "", 0]);
+    });
+
+    after(() => mockManager.restore());
+
+    it("Should edit the times of a segment", async () => {
+        const res = await postEdit("edit-times", { startTime: 11, endTime: 21 });
+        assert.strictEqual(res.status, 200);
+        assert.strictEqual(res.data.revision, 1);
+        assert.strictEqual(res.data.pending, false);
+        const segment = await getSegment("edit-times");
+        assert.strictEqual(segment.startTime, 11);
+        assert.strictEqual(segment.endTime, 21);
+    });
+
+    it("Should not allow other users to edit", async () => {
+        const res = await postEdit("edit-times", { startTime: 12 }, otherUser);
+        assert.strictEqual(res.status, 403);
+    });
+
+    it("Should reject sponsors shorter than 1 second", async () => {
+        const res = await postEdit("edit-short", { endTime: 30.5 });
+        assert.strictEqual(res.status, 400);
+        assert.strictEqual((await getSegment("edit-short")).endTime, 40);
+    });
+
+    it("Should allow VIPs to edit sponsors shorter than 1 second", async () => {
+        const res = await postEdit("edit-short-vip", { endTime: 50.5 }, vipUser);
+        assert.strictEqual(res.status, 200);
+        assert.strictEqual((await getSegment("edit-short-vip")).endTime, 50.5);
+    });
+
+    it("Should reject highlights before the minimum start time", async () => {
+        const res = await postEdit("edit-poi", { startTime: 1, endTime: 1 });
+        assert.strictEqual(res.status, 400);
+    });
+
+    it("Should reject edits into a duplicate of another segment", async () => {
+        const res = await postEdit("edit-duplicate", { startTime: 130, endTime: 140 });
+        assert.strictEqual(res.status, 409);
+    });
+
+    it("Should reject a category locked for the video", async () => {
+        const res = await postEdit("edit-locked", { category: "selfpromo" });
+        assert.strictEqual(res.status, 403);
+        assert.strictEqual((await getSegment("edit-locked")).category, "sponsor");
+    });
+
+    it("Should reject a category locked for the season", async () => {
+        const res = await postEdit("edit-season-locked", { category: "selfpromo" });
+        assert.strictEqual(res.status, 403);
+    });
+
+    it("Should reject edits that break auto moderation rules", async () => {
+        const res = await postEdit("edit-coverage", { startTime: 1, endTime: 599 });
+        assert.strictEqual(res.status, 403);
+        assert.strictEqual((await getSegment("edit-coverage")).endTime, 180);
+    });
+
+    describe("with the moderation queue", () => {
+        const moderationQueue = config.moderationQueue;
+
+        before(() => {
+            config.moderationQueue = { ...moderationQueue, enabled: true, categories: ["intro"] };
+        });
+
+        after(() => {
+            config.moderationQueue = moderationQueue;
+        });
+
+        it("Should queue edits into a moderated category", async () => {
+            const res = await postEdit("edit-queue", { category: "intro" });
+            assert.strictEqual(res.status, 200);
+            assert.strictEqual(res.data.pending, true);
+            assert.strictEqual((await getSegment("edit-queue")).shadowHidden, Visibility.PENDING);
+            const entry = await db.prepare("get", `SELECT "status" FROM "moderationQueue" WHERE "UUID" = ?`, ["edit-queue"]);
+            assert.strictEqual(entry.status, ModerationStatus.Pending);
+        });
+    });
+});
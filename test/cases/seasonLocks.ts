@@ -0,0 +1,187 @@
+import assert from "assert";
+import { db } from "../../src/databases/databases";
+import { client } from "../utils/httpClient";
+import { genUser } from "../utils/genUser";
+import { insertSegment, insertVip } from "../utils/queryGen";
+import { getHash } from "../../src/utils/HashCacheUtil";
+import { ActionType, Category, DBSegment, VideoDuration, VideoID, VideoIDHash } from "../../src/types/segments.model";
+import { SeasonID, SegmentTemplateUUID, VideoSeason } from "../../src/types/season.model";
+import { saveSegmentTemplate } from "../../src/dao/season";
+import * as SkipSegmentModule from "../../src/dao/skipSegment";
+import { applySegmentTemplates } from "../../src/service/seasonService";
+import { ImportMock, StaticMockManager } from "ts-mock-imports";
+import * as BilibiliAPIModule from "../../src/service/api/bilibiliApi";
+import { BilibiliApiMock, seasonID, seasonVideoIDs } from "../mocks/bilibiliMock";
+
+describe("seasonLocks", () => {
+    const vipUser = genUser("seasonLocks", "vip");
+    const voter = genUser("seasonLocks", "voter");
+    const videoID = seasonVideoIDs[1];
+    const hashedVideoID = getHash(videoID, 1) as VideoIDHash;
+
+    const postVoteCategory = (UUID: string, category: string) => client({
+        method: "POST",
+        url: "/api/voteOnSponsorTime",
+        params: { userID: voter.privID, UUID, category }
+    });
+    const getCategoryVote = (UUID: string, category: string) =>
+        db.prepare("get", `SELECT "votes" FROM "categoryVotes" WHERE "UUID" = ? AND "category" = ?`, [UUID, category]);
+
+    let mockManager: StaticMockManager<BilibiliAPIModule.BilibiliAPI>;
+
+    before(async () => {
+        mockManager = ImportMock.mockStaticClass(BilibiliAPIModule, "BilibiliAPI");
+        mockManager.mock("getVideoDetailView").callsFake(BilibiliApiMock.getVideoDetailView);
+        await insertVip(db, vipUser.pubID);
+        await db.prepare("run", `INSERT INTO "videoInfo" ("videoID", "cid", "channelID", "title", "published", "seasonID") VALUES (?, ?, ?, ?, ?, ?)`,
+            [videoID, "1", "1", "", 0, seasonID]);
+        await insertSegment(db, { videoID, hashedVideoID, UUID: "season-lock-vote-locked", startTime: 1, endTime: 10, cid: "1" });
+        await insertSegment(db, { videoID, hashedVideoID, UUID: "season-lock-vote-other-action", startTime: 20, endTime: 30, cid: "1" });
+    });
+
+    after(() => mockManager.restore());
+
+    it("Should not lock a season for non VIPs", async () => {
+        const res = await client.post("/api/seasonLockCategories", { userID: voter.privID, videoID, categories: ["outro"] });
+        assert.strictEqual(res.status, 403);
+    });
+
+    it("Should lock the season of a video", async () => {
+        const res = await client.post("/api/seasonLockCategories", {
+            userID: vipUser.privID,
+            videoID,
+            categories: ["outro", "intro"],
+            actionTypes: ["skip"],
+        });
+        assert.strictEqual(res.status, 200);
+        assert.strictEqual(res.data.seasonID, seasonID);
+        assert.deepStrictEqual(res.data.submitted, ["outro", "intro"]);
+
+        const muteRes = await client.post("/api/seasonLockCategories", {
+            userID: vipUser.privID,
+            seasonID,
+            categories: ["preview"],
+            actionTypes: ["mute"],
+        });
+        assert.strictEqual(muteRes.status, 200);
+    });
+
+    it("Should get the locks of a season", async () => {
+        const res = await client.get("/api/seasonLockCategories", { params: { seasonID } });
+        assert.strictEqual(res.status, 200);
+        assert.ok(res.data.locks.some((lock: { category: string, actionType: string }) => lock.category === "outro" && lock.actionType === "skip"));
+        assert.ok(res.data.locks.some((lock: { category: string, actionType: string }) => lock.category === "preview" && lock.actionType === "mute"));
+    });
+
+    it("Should include season locks in the lookup by hash prefix", async () => {
+        const res = await client.get(`/api/lockCategories/${hashedVideoID.substring(0, 4)}`, { params: { actionType: "skip" } });
+        assert.strictEqual(res.status, 200);
+        const video = res.data.find((lock: { videoID: string }) => lock.videoID === videoID);
+        assert.ok(video);
+        assert.strictEqual(video.hash, hashedVideoID);
+        assert.ok(video.categories.includes("outro"));
+        assert.ok(video.categories.includes("intro"));
+        assert.ok(!video.categories.includes("preview"));
+    });
+
+    it("Should ignore category votes to a category locked for the season", async () => {
+        const res = await postVoteCategory("season-lock-vote-locked", "outro");
+        assert.strictEqual(res.status, 200);
+        assert.strictEqual(await getCategoryVote("season-lock-vote-locked", "outro"), undefined);
+    });
+
+    it("Should count category votes to a category locked for another action type", async () => {
+        const res = await postVoteCategory("season-lock-vote-other-action", "preview");
+        assert.strictEqual(res.status, 200);
+        assert.ok(await getCategoryVote("season-lock-vote-other-action", "preview"));
+    });
+
+    it("Should not create templates for non VIPs", async () => {
+        const res = await client.post("/api/segmentTemplates", { userID: voter.privID, videoID, category: "sponsor", segment: [0, 5] });
+        assert.strictEqual(res.status, 403);
+    });
+
+    it("Should not create templates for videos outside of a season", async () => {
+        const res = await client.post("/api/segmentTemplates", { userID: vipUser.privID, videoID: "BV1NoSeason0", category: "sponsor", segment: [0, 5] });
+        assert.strictEqual(res.status, 404);
+    });
+
+    it("Should apply a template to every episode of the season", async () => {
+        const res = await client.post("/api/segmentTemplates", { userID: vipUser.privID, videoID, category: "sponsor", segment: [0, 5] });
+        assert.strictEqual(res.status, 200);
+        assert.strictEqual(res.data.seasonID, seasonID);
+        assert.strictEqual(res.data.applied, seasonVideoIDs.length);
+
+        const segments = await db.prepare("all", `SELECT "videoID" FROM "sponsorTimes" WHERE "templateUUID" = ?`, [res.data.UUID]);
+        assert.deepStrictEqual(segments.map((s: { videoID: string }) => s.videoID).sort(), [...seasonVideoIDs].sort());
+    });
+
+    it("Should not keep a template that failed to apply", async () => {
+        const saveMock = ImportMock.mockFunction(SkipSegmentModule, "saveNewSegments");
+        saveMock.rejects(new Error("save failed"));
+        try {
+            const res = await client.post("/api/segmentTemplates", { userID: vipUser.privID, videoID, category: "intro", segment: [10, 15] },
+                { validateStatus: () => true });
+            assert.strictEqual(res.status, 500);
+        } finally {
+            saveMock.restore();
+        }
+
+        const templates = await db.prepare("all", `SELECT "UUID" FROM "segmentTemplates" WHERE "seasonID" = ? AND "category" = ?`, [seasonID, "intro"]);
+        assert.deepStrictEqual(templates, []);
+        const segments = await db.prepare("all", `SELECT "UUID" FROM "sponsorTimes" WHERE "videoID" = ? AND "category" = ? AND "templateUUID" IS NOT NULL`,
+            [videoID, "intro"]);
+        assert.deepStrictEqual(segments, []);
+    });
+
+    it("Should remove the segments of a season that failed to apply in part", async () => {
+        // more episodes than are saved at once
+        const season: VideoSeason = {
+            id: "101" as SeasonID,
+            title: "",
+            episodes: Array.from({ length: 150 }, (_, i) => ({
+                videoID: `BV1Tmpl${`${i}`.padStart(5, "0")}` as VideoID,
+                cid: "1",
+                duration: 600 as VideoDuration,
+            })),
+        };
+        await saveSegmentTemplate({
+            UUID: "season-template-partial" as SegmentTemplateUUID,
+            seasonID: season.id,
+            videoID: season.episodes[0].videoID,
+            startTime: 0,
+            endTime: 5,
+            category: "sponsor" as Category,
+            actionType: ActionType.Skip,
+            description: "",
+            userID: vipUser.pubID,
+            hidden: 0,
+            timeSubmitted: 0,
+        });
+        const countSegments = async () =>
+            (await db.prepare("get", `SELECT COUNT(*) AS "count" FROM "sponsorTimes" WHERE "templateUUID" = ?`, ["season-template-partial"])).count;
+
+        const saveNewSegments = SkipSegmentModule.saveNewSegments;
+        const saveMock = ImportMock.mockFunction(SkipSegmentModule, "saveNewSegments");
+        saveMock.onFirstCall().callsFake((segments: DBSegment[]) => saveNewSegments(segments));
+        saveMock.onSecondCall().rejects(new Error("save failed"));
+        try {
+            await assert.rejects(applySegmentTemplates(season));
+        } finally {
+            saveMock.restore();
+        }
+        assert.strictEqual(saveMock.callCount, 2);
+        assert.strictEqual(await countSegments(), 0);
+
+        // the next run applies the template to every episode
+        assert.strictEqual(await applySegmentTemplates(season), season.episodes.length);
+        assert.strictEqual(await countSegments(), season.episodes.length);
+    });
+
+    it("Should get the templates of a season", async () => {
+        const res = await client.get("/api/segmentTemplates", { params: { videoID } });
+        assert.strictEqual(res.status, 200);
+        assert.ok(res.data.some((template: { category: string, segment: number[] }) =>
+            template.category === "sponsor" && template.segment[0] === 0 && template.segment[1] === 5));
+    });
+});
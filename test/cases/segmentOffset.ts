@@ -0,0 +1,57 @@
+import assert from "assert";
+import { ActionType, Category, Segment, SegmentUUID, VideoDuration } from "../../src/types/segments.model";
+import { portDurationEquals } from "../../src/utils/durationUtil";
+import { alignYoutubeSegments } from "../../src/utils/segmentOffset";
+
+const segment = (UUID: string, times: number[], actionType = ActionType.Skip): Segment => ({
+    cid: "",
+    category: "sponsor" as Category,
+    actionType,
+    segment: times,
+    UUID: UUID as SegmentUUID,
+    videoDuration: 100 as VideoDuration,
+    locked: false,
+    votes: 0,
+    description: "",
+});
+
+describe("segmentOffset", () => {
+    it("Should return the segments as they are without an offset and a duration", () => {
+        const segments = [segment("a", [10, 20])];
+        assert.strictEqual(alignYoutubeSegments(segments, 0, 0), segments);
+    });
+
+    it("Should shift the segments by the offset", () => {
+        const aligned = alignYoutubeSegments([segment("a", [10, 20]), segment("b", [30, 40])], 5, 200);
+        assert.deepStrictEqual(aligned.map((s) => s.segment), [[15, 25], [35, 45]]);
+    });
+
+    it("Should clamp segments to the video and drop the ones outside of it", () => {
+        const aligned = alignYoutubeSegments([
+            segment("before", [0, 5]),
+            segment("start", [5, 20]),
+            segment("end", [80, 100]),
+            segment("after", [95, 100]),
+        ], -10, 85);
+        assert.deepStrictEqual(aligned.map((s) => [s.UUID, s.segment]), [["start", [0, 10]], ["end", [70, 85]]]);
+    });
+
+    it("Should drop points of interest outside of the video and keep full video labels", () => {
+        const aligned = alignYoutubeSegments([
+            segment("poi-before", [5, 5], ActionType.Poi),
+            segment("poi", [20, 20], ActionType.Poi),
+            segment("full", [0, 0], ActionType.Full),
+        ], -10, 100);
+        assert.deepStrictEqual(aligned.map((s) => [s.UUID, s.segment]), [["poi", [10, 10]], ["full", [0, 0]]]);
+    });
+
+    it("Should compare the durations of a binding with its offset and trim", () => {
+        assert.ok(portDurationEquals(600, 600));
+        assert.ok(portDurationEquals(610, 600, 10));
+        assert.ok(portDurationEquals(615, 600, 10, 5));
+        assert.ok(portDurationEquals(590, 600, -10));
+        assert.ok(portDurationEquals(601.5, 600));
+        assert.ok(!portDurationEquals(610, 600));
+        assert.ok(!portDurationEquals(615, 600, 10));
+    });
+});
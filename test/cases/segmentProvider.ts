@@ -0,0 +1,66 @@
+import assert from "assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { FileSegmentProvider, SegmentRequest } from "../../src/service/api/segmentProvider";
+import { ActionType, Category, SegmentUUID } from "../../src/types/segments.model";
+
+describe("FileSegmentProvider", () => {
+    let folder: string;
+    let provider: FileSegmentProvider;
+
+    const request = (ytbID: string, requiredSegments: SegmentUUID[] = []): SegmentRequest => ({
+        ytbID,
+        categories: ["sponsor"],
+        actionTypes: ["skip" as ActionType],
+        requiredSegments,
+    });
+
+    const segment = (UUID: string, category: string) => ({
+        UUID: UUID as SegmentUUID,
+        segment: [1, 10],
+        category: category as Category,
+        actionType: "skip" as ActionType,
+        videoDuration: 100,
+        locked: 0,
+        votes: 0,
+        description: "",
+    });
+
+    before(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), "segmentProvider-"));
+        provider = new FileSegmentProvider(folder);
+        fs.writeFileSync(path.join(folder, "withSegments.json"), JSON.stringify([segment("sponsor-uuid", "sponsor"), segment("intro-uuid", "intro")]));
+        fs.writeFileSync(path.join(folder, "noSegments.json"), "[]");
+        fs.writeFileSync(path.join(folder, "emptyFile.json"), "");
+        fs.writeFileSync(path.join(folder, "invalid.json"), "{ not json");
+    });
+
+    after(() => fs.rmSync(folder, { recursive: true, force: true }));
+
+    it("Should return the segments of the requested categories", async () => {
+        const segments = await provider.getSegments(request("withSegments"));
+        assert.deepStrictEqual(segments.map((s) => s.UUID), ["sponsor-uuid"]);
+    });
+
+    it("Should return required segments of other categories", async () => {
+        const segments = await provider.getSegments(request("withSegments", ["intro-uuid" as SegmentUUID]));
+        assert.deepStrictEqual(segments.map((s) => s.UUID), ["sponsor-uuid", "intro-uuid"]);
+    });
+
+    it("Should return an empty array for a video without segments", async () => {
+        assert.deepStrictEqual(await provider.getSegments(request("noSegments")), []);
+    });
+
+    it("Should return an empty array for an empty file", async () => {
+        assert.deepStrictEqual(await provider.getSegments(request("emptyFile")), []);
+    });
+
+    it("Should return null for a missing file", async () => {
+        assert.strictEqual(await provider.getSegments(request("missing")), null);
+    });
+
+    it("Should return null for an invalid file", async () => {
+        assert.strictEqual(await provider.getSegments(request("invalid")), null);
+    });
+});
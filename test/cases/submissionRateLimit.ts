@@ -0,0 +1,80 @@
+import assert from "assert";
+import { Request, Response } from "express";
+import { db } from "../../src/databases/databases";
+import { getSubmissionUserID, submissionRateLimitMiddleware } from "../../src/middleware/submissionRateLimit";
+import { MemorySlidingWindowStore } from "../../src/service/slidingWindowStore";
+import { SubmissionRateLimitConfig } from "../../src/types/config.model";
+import { genUser } from "../utils/genUser";
+import { insertVip } from "../utils/queryGen";
+
+interface MockResponse {
+    headers: Record<string, number>;
+    statusCode: number;
+    body: string;
+}
+
+describe("submissionRateLimit", () => {
+    const user = genUser("submissionRateLimit", "user");
+    const otherUser = genUser("submissionRateLimit", "other");
+    const vipUser = genUser("submissionRateLimit", "vip");
+    const limitConfig: SubmissionRateLimitConfig = { windowMs: 60000, userMax: 2, ipMax: 0, message: "Too many submissions", statusCode: 429 };
+
+    // resolves with the response if the request was limited, null if it was passed on
+    const request = (route: string, userID: string, config = limitConfig) => new Promise<MockResponse>((resolve) => {
+        const mockRes: MockResponse = { headers: {}, statusCode: 200, body: null };
+        const res = {
+            setHeader: (name: string, value: number) => mockRes.headers[name] = value,
+            status: (code: number) => {
+                mockRes.statusCode = code;
+                return { send: (body: string) => resolve({ ...mockRes, body }) };
+            },
+        } as unknown as Response;
+        const req = { query: {}, body: { userID }, headers: {} } as Request;
+        void submissionRateLimitMiddleware(route, config, getSubmissionUserID)(req, res, () => resolve(null));
+    });
+
+    before(async () => {
+        await insertVip(db, vipUser.pubID);
+    });
+
+    it("Should limit a user after the maximum within the window", async () => {
+        assert.strictEqual(await request("user", user.privID), null);
+        assert.strictEqual(await request("user", user.privID), null);
+        const res = await request("user", user.privID);
+        assert.strictEqual(res.statusCode, 429);
+        assert.strictEqual(res.body, "Too many submissions");
+        assert.strictEqual(res.headers["RateLimit-Limit"], 2);
+        assert.strictEqual(res.headers["RateLimit-Remaining"], 0);
+        assert.ok(res.headers["Retry-After"] > 0 && res.headers["Retry-After"] <= 60);
+    });
+
+    it("Should count each user and route separately", async () => {
+        await request("separate", user.privID);
+        await request("separate", user.privID);
+        assert.strictEqual(await request("separate", otherUser.privID), null);
+        assert.strictEqual(await request("separate-other", user.privID), null);
+    });
+
+    it("Should limit by IP across users", async () => {
+        const ipConfig = { ...limitConfig, userMax: 0, ipMax: 1 };
+        assert.strictEqual(await request("ip", user.privID, ipConfig), null);
+        const res = await request("ip", otherUser.privID, ipConfig);
+        assert.strictEqual(res.statusCode, 429);
+    });
+
+    it("Should not limit VIPs", async () => {
+        for (let i = 0; i < 3; i++) {
+            assert.strictEqual(await request("vip", vipUser.privID), null);
+        }
+    });
+
+    it("Should let hits leave the sliding window", async () => {
+        const store = new MemorySlidingWindowStore();
+        assert.strictEqual((await store.hit("window", 50, 1)).allowed, true);
+        const blocked = await store.hit("window", 50, 1);
+        assert.strictEqual(blocked.allowed, false);
+        assert.strictEqual(blocked.count, 1);
+        await new Promise((resolve) => setTimeout(resolve, 60));
+        assert.strictEqual((await store.hit("window", 50, 1)).allowed, true);
+    });
+});
@@ -0,0 +1,108 @@
+import assert from "assert";
+import sinon from "sinon";
+import { ImportMock, StaticMockManager } from "ts-mock-imports";
+import { db } from "../../src/databases/databases";
+import * as BilibiliAPIModule from "../../src/service/api/bilibiliApi";
+import { SubmissionErrorCode } from "../../src/types/segments.model";
+import { QueryCacher } from "../../src/utils/queryCacher";
+import { BilibiliApiMock } from "../mocks/bilibiliMock";
+import { client } from "../utils/httpClient";
+import { genUser } from "../utils/genUser";
+import { insertLock, insertSegment } from "../utils/queryGen";
+
+describe("validateSkipSegments", () => {
+    const endpoint = "/api/skipSegments/validate";
+    const user = genUser("validateSkipSegments", "user");
+    const videoID = "BV1Validate1";
+    let mockManager: StaticMockManager<BilibiliAPIModule.BilibiliAPI>;
+
+    const postValidate = (data: Record<string, unknown>) => client({
+        method: "POST",
+        url: endpoint,
+        data: { videoID, cid: "1", userID: user.privID, ...data }
+    });
+    const countSegments = async () => (await db.prepare("get", `SELECT COUNT(*) as "count" FROM "sponsorTimes" WHERE "videoID" = ?`, [videoID])).count;
+
+    before(async () => {
+        mockManager = ImportMock.mockStaticClass(BilibiliAPIModule, "BilibiliAPI");
+        mockManager.mock("getVideoDetailView").callsFake(BilibiliApiMock.getVideoDetailView);
+
+        await insertSegment(db, { videoID, cid: "1", UUID: "validate-existing", startTime: 100, endTime: 110, videoDuration: 600 });
+        await insertLock(db, { videoID, category: "selfpromo", reason: "Custom Reason" });
+    });
+
+    after(() => mockManager.restore());
+
+    it("Should validate a submission without saving it", async () => {
+        const before = await countSegments();
+        const res = await postValidate({ segments: [{ segment: [10, 20], category: "sponsor" }] });
+        assert.strictEqual(res.status, 200);
+        assert.strictEqual(res.data.valid, true);
+        assert.strictEqual(res.data.cid, "1");
+        assert.strictEqual(res.data.videoDuration, 600);
+        assert.deepStrictEqual(res.data.errors, []);
+        assert.strictEqual(res.data.segments[0].valid, true);
+        assert.strictEqual(res.data.segments[0].pendingReason, null);
+        assert.strictEqual(await countSegments(), before);
+    });
+
+    it("Should report the invalid segments of a submission", async () => {
+        const res = await postValidate({ segments: [
+            { segment: [10, 20], category: "sponsor" },
+            { segment: [30, 20], category: "sponsor" },
+        ] });
+        assert.strictEqual(res.status, 200);
+        assert.strictEqual(res.data.valid, false);
+        assert.strictEqual(res.data.status, 400);
+        assert.strictEqual(res.data.segments[0].valid, true);
+        assert.strictEqual(res.data.segments[1].valid, false);
+        assert.strictEqual(res.data.segments[1].errors[0].code, SubmissionErrorCode.InvalidTimes);
+    });
+
+    it("Should report the invalid fields of each segment", async () => {
+        const res = await postValidate({ segments: [
+            { segment: [10, 20], category: "sponsor" },
+            { segment: [10, 20], category: "sponsor", actionType: "chapter", description: "x".repeat(300) },
+        ] });
+        assert.strictEqual(res.data.status, 400);
+        assert.strictEqual(res.data.errors[0].code, SubmissionErrorCode.InvalidFields);
+        assert.deepStrictEqual(res.data.segments[0].errors, []);
+        assert.notStrictEqual(res.data.segments[1].errors.length, 0);
+    });
+
+    it("Should report a locked category with its reason", async () => {
+        const res = await postValidate({ segments: [{ segment: [10, 20], category: "selfpromo" }] });
+        assert.strictEqual(res.data.status, 403);
+        assert.strictEqual(res.data.segments[0].errors[0].code, SubmissionErrorCode.CategoryLocked);
+        assert.strictEqual(res.data.segments[0].lockReason, "Custom Reason");
+    });
+
+    it("Should report a submission of duplicates only", async () => {
+        const res = await postValidate({ segments: [{ segment: [100, 110], category: "sponsor" }] });
+        assert.strictEqual(res.data.status, 409);
+        assert.strictEqual(res.data.errors[0].code, SubmissionErrorCode.AllDuplicates);
+        assert.strictEqual(res.data.segments[0].duplicateUUID, "validate-existing");
+    });
+
+    it("Should report a cid that is not a part of the video", async () => {
+        const res = await postValidate({ cid: "2", segments: [{ segment: [10, 20], category: "sponsor" }] });
+        assert.strictEqual(res.data.status, 400);
+        assert.strictEqual(res.data.errors[0].code, SubmissionErrorCode.InvalidCid);
+    });
+
+    it("Should keep the cached video details", async () => {
+        const clearKey = sinon.spy(QueryCacher, "clearKey");
+        try {
+            const res = await postValidate({ segments: [{ segment: [10, 20], category: "sponsor" }] });
+            assert.strictEqual(res.status, 200);
+            assert.strictEqual(clearKey.called, false);
+        } finally {
+            clearKey.restore();
+        }
+    });
+
+    it("Should require a userID", async () => {
+        const res = await postValidate({ userID: undefined, segments: [{ segment: [10, 20], category: "sponsor" }] });
+        assert.strictEqual(res.status, 400);
+    });
+});
@@ -0,0 +1,32 @@
+import { BilibiliVideoDetailView } from "../../src/types/bilibiliViewApi.model";
+
+// the episodes of the only season known to the mock
+export const seasonVideoIDs = ["BV1Season001", "BV1Season002", "BV1Season003"];
+export const seasonID = "100";
+
+export class BilibiliApiMock {
+    // eslint-disable-next-line require-await
+    static async getVideoDetailView(videoID: string): Promise<BilibiliVideoDetailView> {
+        if (videoID === "BV1NotFound0") {
+            throw new Error("啥都木有");
+        }
+
+        const duration = videoID === "BV1NoLength0" ? 0 : 600;
+        return {
+            bvid: videoID,
+            title: "Example Title",
+            pubdate: 0,
+            duration,
+            owner: { mid: 1, name: "Example Author" },
+            cid: 1,
+            pages: [{ cid: 1, page: 1, part: "P1", duration }],
+            ugc_season: seasonVideoIDs.includes(videoID)
+                ? {
+                    id: Number(seasonID),
+                    title: "Example Season",
+                    sections: [{ episodes: seasonVideoIDs.map((bvid) => ({ bvid, cid: 1, arc: { duration }, page: { duration } })) }],
+                }
+                : null,
+        } as unknown as BilibiliVideoDetailView;
+    }
+}
@@ -9,7 +9,7 @@ import { initDb } from "../src/databases/databases";
 import { ImportMock } from "ts-mock-imports";
 import * as rateLimitMiddlewareModule from "../src/middleware/requestRateLimit";
 import rateLimit from "express-rate-limit";
-import redis from "../src/utils/redis";
+import redis from "../src/service/redis/redis";
 import { resetRedis, resetPostgres } from "./utils/reset";
 
 async function init() {
@@ -1,6 +1,6 @@
 import { genRandom } from "./getRandom";
 import { UserID, HashedUserID } from "../../src/types/user.model";
-import { getHash } from "../../src/utils/getHash";
+import { getHash } from "../../src/utils/HashCacheUtil";
 
 type info = Record<string, any>
 
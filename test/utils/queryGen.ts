@@ -4,7 +4,7 @@ import { User, userArray, usernameUserArray } from "./genUser";
 import { Feature } from "../../src/types/user.model";
 import { ActionType, Category, Service, VideoIDHash } from "../../src/types/segments.model";
 import { genRandomValue } from "./getRandom";
-import { getHash } from "../../src/utils/getHash";
+import { getHash } from "../../src/utils/HashCacheUtil";
 
 // segments
 export { insertSegment } from "./segmentQueryGen";
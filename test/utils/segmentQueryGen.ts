@@ -2,7 +2,7 @@ import { IDatabase } from "../../src/databases/IDatabase";
 import { Service, VideoIDHash } from "../../src/types/segments.model";
 import { HashedUserID } from "../../src/types/user.model";
 import { genRandom, genRandomValue } from "./getRandom";
-import { getHash } from "../../src/utils/getHash";
+import { getHash } from "../../src/utils/HashCacheUtil";
 
 interface baseParams {
     videoID?: string
@@ -25,7 +25,8 @@ interface insertSegmentParams extends baseParams {
     videoDuration?: number,
     hidden?: boolean | number,
     shadowHidden?: boolean | number,
-    description?: string
+    description?: string,
+    cid?: string
 }
 const defaultSegmentParams: insertSegmentParams = {
     videoID: "",
@@ -44,7 +45,8 @@ const defaultSegmentParams: insertSegmentParams = {
     hidden: false,
     shadowHidden: false,
     hashedVideoID: "",
-    description: ""
+    description: "",
+    cid: ""
 };
 
 const generateDefaults = (identifier: string) => ({
@@ -55,7 +57,7 @@ const generateDefaults = (identifier: string) => ({
 });
 
 export const insertSegment = async(db: IDatabase, overrides: insertSegmentParams = {}, identifier?: string) => {
-    const query = 'INSERT INTO "sponsorTimes" ("videoID", "startTime", "endTime", "votes", "locked", "UUID", "userID", "timeSubmitted", "views", "category", "actionType", "service", "videoDuration", "hidden", "shadowHidden", "hashedVideoID", "description") VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)';
+    const query = 'INSERT INTO "sponsorTimes" ("videoID", "startTime", "endTime", "votes", "locked", "UUID", "userID", "timeSubmitted", "views", "category", "actionType", "service", "videoDuration", "hidden", "shadowHidden", "hashedVideoID", "description", "cid") VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)';
     // generate defaults
     identifier = identifier ?? genRandom();
     const defaults = generateDefaults(identifier);